@@ -1,5 +1,7 @@
 #!/usr/bin/env node
 
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -9,18 +11,31 @@ import {
   ListToolsRequestSchema,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
-import { QuickBaseClient } from './quickbase/client.js';
+import { DEFAULT_SCHEMA_CACHE_TTL_MS, QuickBaseClient } from './quickbase/client.js';
 import { startRelayServer, RelayClient } from './relay/server.js';
 import {
   quickbaseTools,
   TableIdSchema,
+  RefreshSchemaSchema,
+  ExportSchemaSchema,
+  DiffSchemaSchema,
+  PlanSchemaSchema,
+  ApplySchemaSchema,
   RecordIdSchema,
   CreateTableSchema,
+  CloneTableSchema,
   CreateFieldSchema,
   QueryRecordsSchema,
+  RunReportSchema,
+  AggregateRecordsSchema,
   CreateRecordSchema,
   UpdateRecordSchema,
   BulkCreateSchema,
+  UpsertRecordsSchema,
+  BulkUpdateRecordsSchema,
+  BulkDeleteRecordsSchema,
+  UndoSchema,
+  ImportRecordsSchema,
   SearchRecordsSchema,
   CreateRelationshipSchema,
   CreateAdvancedRelationshipSchema,
@@ -28,6 +43,8 @@ import {
   ValidateRelationshipSchema,
   CreateJunctionTableSchema,
   GetRelationshipDetailsSchema,
+  GetAuditLogSchema,
+  ExplainPolicySchema,
   CreateWebhookSchema,
   ListWebhooksSchema,
   DeleteWebhookSchema,
@@ -45,10 +62,27 @@ import {
   BatchGetPipelineStepsSchema,
   StartImpersonationSchema
 } from './tools/index.js';
-import { AppConfig, QuickBaseConfig } from './types/quickbase.js';
-import { loadAppRegistry, loadDotenv } from './utils/env.js';
+import { AppConfig, ChunkedWriteReport, QueryOptions, QuickBaseConfig } from './types/quickbase.js';
+import { decodeCursor, encodeCursor } from './utils/cursor.js';
+import { loadAppCredentials, loadAppRegistry, loadAuditConfig, loadDotenv } from './utils/env.js';
 import { formatErrorForLog } from './utils/errors.js';
-import { assertToolAllowed } from './utils/toolGuards.js';
+import { FieldRef, labelsToFieldValues, resolveFieldIds, rowsToLabels } from './utils/fieldLabels.js';
+import { validateRecordsForWrite } from './utils/recordValidation.js';
+import { combineWhere, compileFilter, FilterNode, filterLabels } from './utils/filter.js';
+import { assertValidWhere } from './utils/whereLint.js';
+import { prepareImport } from './utils/importRecords.js';
+import { ExportOptions, exportRecords, PageFetcher, readExportFile, resolveExportPath, writeExportFile } from './utils/export.js';
+import { captureSchema, formatSchemaSnapshot } from './quickbase/schemaSnapshot.js';
+import { diffSchemas, parseSchemaSnapshot } from './quickbase/schemaDiff.js';
+import { cloneTable } from './quickbase/tableClone.js';
+import { DryRunRecorder } from './quickbase/dryRun.js';
+import { createCredentialProvider, CredentialProvider } from './quickbase/credentials.js';
+import { DEFAULT_MAX_UNDO_OPERATIONS, UndoJournal, undoOperation } from './quickbase/undoJournal.js';
+import { applySchemaPlan, DesiredSchema, desiredFromSnapshot, planSchema } from './quickbase/schemaPlan.js';
+import { assertAffectedRowsAllowed, assertToolAllowed, isDryRunCall, readOnlyAllowedTools } from './utils/toolGuards.js';
+import { AuditLog, AuditOutcome, redactArgs } from './utils/auditLog.js';
+import { EffectivePolicy, effectivePolicy, fieldWriteDenial, loadPolicyFile, Policy, tableIdsInArgs } from './utils/policy.js';
+import { labelKeyedTools, redactCallArgs, redactColumns, redactedTableIds, RedactionRules, redactionRules, redactToolOutput, redactValue } from './utils/redaction.js';
 import { z } from 'zod';
 
 function parseArgs<T>(toolName: string, schema: { parse: (input: unknown) => T }, args: unknown): T {
@@ -89,11 +123,25 @@ const GetRecordArgsSchema = z.object({
   fieldIds: z.array(z.number()).optional()
 });
 
-const RunReportArgsSchema = z.object({
-  appId: z.string().min(1).max(64),
-  tableId: z.string(),
-  reportId: z.string()
-});
+/** Per-call details a handler reports back for the audit log. */
+interface ToolCallContext {
+  /** Records the call created, changed or deleted, when known. */
+  affectedRecordIds: number[];
+  /** Set for a dry run: clients from `getClient` record writes here instead of sending them. */
+  dryRun?: DryRunRecorder;
+}
+
+/** Row cap applied to quickbase_query_records when the caller passes neither maxRecords nor top. */
+const DEFAULT_MAX_QUERY_RECORDS = 1000;
+
+/** Group cap applied to quickbase_aggregate_records when the caller does not pass maxGroups. */
+const DEFAULT_MAX_AGGREGATE_GROUPS = 1000;
+
+/** Largest number of data rows quickbase_import_records accepts in one call. */
+const MAX_IMPORT_ROWS = 50_000;
+
+/** Per-line errors included in an import response; the rest are only counted. */
+const MAX_REPORTED_IMPORT_ERRORS = 200;
 
 // Load environment variables
 loadDotenv(import.meta.url);
@@ -107,6 +155,43 @@ function parseEnvInt(name: string, defaultValue: number): number {
   return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : defaultValue;
 }
 
+/**
+ * Describe a dry run: the writes the tool would have sent and the records
+ * they would touch. When the tool would send nothing (invalid input, nothing
+ * to change, a tool-specific preview) its own response is included instead.
+ */
+function dryRunReport(tool: string, appId: string | undefined, recorder: DryRunRecorder, result: string): string {
+  const sent = recorder.requests.length > 0;
+  let parsed: unknown = result;
+  try {
+    parsed = JSON.parse(result);
+  } catch {
+    // Plain-text tool responses are included as they are.
+  }
+  return JSON.stringify({
+    dryRun: true,
+    tool,
+    appId,
+    requests: recorder.requests,
+    affectedRecords: recorder.affectedRecords,
+    ...(sent ? {} : { result: parsed }),
+    note: sent
+      ? 'Nothing was sent to QuickBase. Tables created in a dry run have placeholder IDs (dryrun_table_N) and fields negative IDs.'
+      : 'The tool would not send any writes.'
+  }, null, 2);
+}
+
+/**
+ * Refuse to report a chunked write in which every record failed as a result:
+ * the call fails with the report, so callers and the audit log can tell that
+ * nothing was written. Partial failures are returned as the report.
+ */
+function assertAnyWritten(report: ChunkedWriteReport): void {
+  if (report.totalRecords > 0 && report.succeeded === 0 && report.failed === report.totalRecords) {
+    throw new Error(`Nothing was written; every record failed.\n${JSON.stringify(report, null, 2)}`);
+  }
+}
+
 /** Returns a human-readable string describing which user the tool is acting as. */
 function viewingAs(impersonateUserId?: string): string {
   return impersonateUserId
@@ -116,41 +201,70 @@ function viewingAs(impersonateUserId?: string): string {
 
 class QuickBaseMCPServer {
   private server: Server;
-  private baseConfig: Omit<QuickBaseConfig, 'appId'>;
+  private baseConfig: Omit<QuickBaseConfig, 'appId' | 'realm' | 'userToken'>;
+  /** Realm, user token provider and app token per registered app, resolved at start-up. */
+  private readonly appCredentials = new Map<string, { realm: string; credentials: CredentialProvider; appToken?: string }>();
   private appRegistry: Map<string, AppConfig>;
   private clientCache: Map<string, QuickBaseClient>;
   private relayClient: RelayClient | null = null;
   private readonly serverName: string;
   private readonly serverVersion: string;
+  private readonly exportDir: string | undefined;
+  private readonly auditLogs = new Map<string, AuditLog>();
+  private readonly undoJournal: UndoJournal;
+  private readonly policyPath: string | undefined;
+  private readonly policy: Policy | undefined;
+  private readonly redactionHashKey: string;
 
   constructor() {
-    const realm = (process.env.QB_REALM ?? '').trim();
-    const userToken = (process.env.QB_USER_TOKEN ?? '').trim();
-
-    if (!realm || !userToken) {
-      throw new Error('Missing required environment variables: QB_REALM, QB_USER_TOKEN');
-    }
-
     this.appRegistry = loadAppRegistry();
     if (this.appRegistry.size === 0) {
       throw new Error(
         'No QuickBase apps registered. Add QB_APP_<id>_NAME=<name> entries to your .env file.'
       );
     }
+    // Apps with the same token source and realm share a provider, so a token
+    // command or exchange runs once for all of them.
+    const providers = new Map<string, CredentialProvider>();
+    for (const app of this.appRegistry.values()) {
+      const { realm, tokenSource, appToken } = loadAppCredentials(app);
+      const key = JSON.stringify([tokenSource.kind, tokenSource.value, realm]);
+      if (!providers.has(key)) providers.set(key, createCredentialProvider(tokenSource, realm));
+      this.appCredentials.set(app.id, { realm, credentials: providers.get(key)!, appToken });
+    }
+
+    const policyPath = (process.env.QB_POLICY_FILE ?? '').trim();
+    this.policyPath = policyPath ? path.resolve(policyPath) : undefined;
+    this.policy = this.policyPath ? loadPolicyFile(this.policyPath) : undefined;
+    for (const appId of Object.keys(this.policy?.apps ?? {})) {
+      if (appId !== '*' && !this.appRegistry.has(appId)) {
+        console.error(`Policy file ${this.policyPath} has rules for unregistered app "${appId}"; they are ignored.`);
+      }
+    }
+    // Without a configured key, hashed values only compare equal within one server run.
+    this.redactionHashKey = (process.env.QB_REDACTION_HASH_KEY ?? '').trim() || randomBytes(32).toString('hex');
 
     this.baseConfig = {
-      realm,
-      userToken,
       timeout: parseEnvInt('QB_DEFAULT_TIMEOUT', 30_000),
-      maxRetries: parseEnvInt('QB_MAX_RETRIES', 3)
+      maxRetries: parseEnvInt('QB_MAX_RETRIES', 3),
+      schemaCacheTtlMs: parseEnvInt('QB_SCHEMA_CACHE_TTL_MS', DEFAULT_SCHEMA_CACHE_TTL_MS)
     };
 
     this.clientCache = new Map();
     this.serverName = process.env.MCP_SERVER_NAME || 'quickbase-mcp';
     this.serverVersion = process.env.MCP_SERVER_VERSION || '1.0.0';
+    this.exportDir = (process.env.QB_EXPORT_DIR ?? '').trim() || undefined;
+    const undoJournalPath = (process.env.QB_UNDO_JOURNAL ?? '').trim();
+    this.undoJournal = new UndoJournal(
+      undoJournalPath ? path.resolve(undoJournalPath) : undefined,
+      parseEnvInt('QB_UNDO_MAX_OPERATIONS', DEFAULT_MAX_UNDO_OPERATIONS)
+    );
 
+    // One relay serves every realm in use; QB_REALM's (or the first app's) is its default.
+    const realms = [...new Set([...this.appCredentials.values()].map(c => c.realm))];
+    const defaultRealm = (process.env.QB_REALM ?? '').trim() || realms[0];
     const relayPort = parseEnvInt('QB_RELAY_PORT', 3737);
-    this.relayClient = startRelayServer(realm, relayPort);
+    this.relayClient = startRelayServer(defaultRealm, relayPort, realms.filter(r => r !== defaultRealm));
 
     this.server = new Server(
       { name: this.serverName, version: this.serverVersion },
@@ -175,12 +289,69 @@ class QuickBaseMCPServer {
     }
     const cached = this.clientCache.get(appId);
     if (cached) return cached;
-    const client = new QuickBaseClient({ ...this.baseConfig, appId });
-    if (this.relayClient) client.setRelayClient(this.relayClient);
+    const client = this.newClient(appId);
+    client.setUndoJournal(this.undoJournal);
+    this.guardFieldWrites(client, appId);
     this.clientCache.set(appId, client);
     return client;
   }
 
+  /**
+   * Returns a new, uncached client for the given appId whose writes are
+   * recorded by `recorder` instead of sent. It has no undo journal, since
+   * nothing it does needs undoing.
+   */
+  private getDryRunClient(appId: string, recorder: DryRunRecorder): QuickBaseClient {
+    this.getClientForApp(appId); // rejects unknown appIds
+    const client = this.newClient(appId);
+    client.setDryRunRecorder(recorder);
+    this.guardFieldWrites(client, appId);
+    return client;
+  }
+
+  /** A client for the app's own realm and token, relaying pipeline calls through that realm's browser session. */
+  private newClient(appId: string): QuickBaseClient {
+    const { realm, credentials, appToken } = this.appCredentials.get(appId)!;
+    const tempTokens = this.appRegistry.get(appId)!.tempTokens;
+    const client = new QuickBaseClient({ ...this.baseConfig, realm, credentials, appToken, tempTokens, appId });
+    if (this.relayClient) client.setRelayClient(this.relayClient.forRealm(realm));
+    return client;
+  }
+
+  /** Refuse record writes to fields the policy file makes read-only for this app. */
+  private guardFieldWrites(client: QuickBaseClient, appId: string): void {
+    const policy = this.getPolicyForApp(appId);
+    if (!policy || !Object.values(policy.tables).some(table => table.readOnlyFields?.length)) return;
+    client.setFieldWriteGuard(async (tableId, fieldIds) => {
+      if (!policy.tables[tableId]?.readOnlyFields?.length) return;
+      const denial = fieldWriteDenial(policy, tableId, fieldIds, await client.getTableFields(tableId));
+      if (denial) throw new McpError(ErrorCode.InvalidRequest, denial);
+    });
+  }
+
+  /** The policy-file rules for `appId` (the `"*"` rules when it is absent), or undefined without a policy. */
+  private getPolicyForApp(appId: string | undefined): EffectivePolicy | undefined {
+    return effectivePolicy(this.policy, appId ?? '*');
+  }
+
+  /**
+   * The fields to redact from the output of a call on `appId` naming `tableIds`,
+   * or undefined for none. The redacted tables' field lists are read so each
+   * rule covers both the field's ID and its label.
+   */
+  private async getRedactionRules(appId: string | undefined, tableIds: string[]): Promise<RedactionRules | undefined> {
+    const policy = this.getPolicyForApp(appId);
+    const fieldsByTable: Record<string, FieldRef[]> = {};
+    if (appId && this.appRegistry.has(appId)) {
+      const client = this.getClientForApp(appId);
+      for (const tableId of redactedTableIds(policy, tableIds)) {
+        // Without the field list a rule still applies in the form it was written.
+        fieldsByTable[tableId] = await client.getTableFields(tableId).catch(() => []);
+      }
+    }
+    return redactionRules(policy, tableIds, this.redactionHashKey, fieldsByTable);
+  }
+
   /**
    * Returns the read-only and allow-destructive flags for the given appId.
    * Falls back to the strictest safe defaults (readOnly=true, allowDestructive=false)
@@ -193,6 +364,23 @@ class QuickBaseMCPServer {
     return { readOnly: app.readOnly, allowDestructive: app.allowDestructive };
   }
 
+  /**
+   * Returns the audit log for the given appId (global QB_AUDIT_LOG settings
+   * when the appId is absent or unknown), or undefined when auditing is off.
+   * Apps that share a log path share one AuditLog so their writes are serialized.
+   */
+  private getAuditLogForApp(appId: string | undefined): AuditLog | undefined {
+    const app = appId ? this.appRegistry.get(appId) : undefined;
+    const config = app ? app.audit : loadAuditConfig();
+    if (!config) return undefined;
+    let log = this.auditLogs.get(config.path);
+    if (!log) {
+      log = new AuditLog(config);
+      this.auditLogs.set(config.path, log);
+    }
+    return log;
+  }
+
   private setupHandlers() {
     this.server.setRequestHandler(InitializeRequestSchema, async () => ({
       protocolVersion: '2024-11-05',
@@ -208,15 +396,25 @@ class QuickBaseMCPServer {
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
+      const rawAppId = (args as Record<string, unknown>)?.appId;
+      const appId = typeof rawAppId === 'string' ? rawAppId : undefined;
+      const started = Date.now();
+      const context: ToolCallContext = { affectedRecordIds: [] };
+      let outcome: AuditOutcome = 'denied';
+      let failure: unknown;
+      // Every tool's output passes through here, so none can return a redacted field's values.
+      const redact = async (text: string) => {
+        const redaction = await this.getRedactionRules(appId, tableIdsInArgs(args));
+        return redaction ? redactToolOutput(text, redaction, labelKeyedTools.has(name)) : text;
+      };
       try {
-        const rawAppId = (args as Record<string, unknown>)?.appId;
-        const appId = typeof rawAppId === 'string' ? rawAppId : undefined;
         const safety = this.getSafetyConfigForApp(appId);
         assertToolAllowed({
           name,
           args,
           readOnly: safety.readOnly,
-          allowDestructive: safety.allowDestructive
+          allowDestructive: safety.allowDestructive,
+          policy: this.getPolicyForApp(appId)
         });
 
         const handler = toolHandlers[name];
@@ -224,8 +422,19 @@ class QuickBaseMCPServer {
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
 
-        return { content: [{ type: 'text' as const, text: await handler(args) }] };
+        outcome = 'error';
+        if (isDryRunCall(name, args)) {
+          // Confirmation is implied: the handler runs for real against clients that send no writes.
+          context.dryRun = new DryRunRecorder();
+          const result = await handler({ ...(args as Record<string, unknown>), confirm: true }, context);
+          outcome = 'success';
+          return { content: [{ type: 'text' as const, text: await redact(dryRunReport(name, appId, context.dryRun, result)) }] };
+        }
+        const text = await handler(args, context);
+        outcome = 'success';
+        return { content: [{ type: 'text' as const, text: await redact(text) }] };
       } catch (error) {
+        failure = error;
         // Preserve the original error code for McpErrors (e.g. InvalidRequest from assertToolAllowed).
         if (error instanceof McpError) throw error;
 
@@ -235,17 +444,80 @@ class QuickBaseMCPServer {
           ErrorCode.InternalError,
           `Error executing ${name}: ${errorMessage}`
         );
+      } finally {
+        // Every call to a tool that can change something is audited, including refused ones.
+        const log = toolHandlers[name] && !readOnlyAllowedTools.has(name) ? this.getAuditLogForApp(appId) : undefined;
+        if (log) {
+          const tableId = (args as Record<string, unknown>)?.tableId;
+          // Written arguments can hold redacted values (record fields, filters), so they are redacted before logging.
+          const redaction = await this.getRedactionRules(appId, tableIdsInArgs(args)).catch(() => undefined);
+          await log.append({
+            timestamp: new Date(started).toISOString(),
+            tool: name,
+            appId,
+            tableId: typeof tableId === 'string' ? tableId : undefined,
+            args: redactArgs(redaction ? redactCallArgs(args ?? {}, redaction) : args ?? {}),
+            recordIds: context.dryRun ? [] : [...new Set(context.affectedRecordIds)],
+            outcome,
+            ...(failure === undefined ? {} : { error: failure instanceof Error ? failure.message : String(failure) }),
+            durationMs: Date.now() - started
+          }).catch(error => console.error(`Failed to write audit log ${log.path}: ${formatErrorForLog(error)}`));
+        }
       }
     });
   }
 
   /** Build a map of tool name → handler function. Each handler receives raw args and returns a text string. */
-  private buildToolHandlers(): Record<string, (args: unknown) => Promise<string>> {
-    const getClient = (appId: string) => this.getClientForApp(appId);
+  private buildToolHandlers(): Record<string, (args: unknown, context: ToolCallContext) => Promise<string>> {
+    const getClient = (appId: string, context?: ToolCallContext) =>
+      context?.dryRun ? this.getDryRunClient(appId, context.dryRun) : this.getClientForApp(appId);
+    // Compile a structured filter, fetching the field list only when it uses labels.
+    const whereFromFilter = async (client: QuickBaseClient, tableId: string, filter?: FilterNode) => {
+      if (!filter) return undefined;
+      const fields = filterLabels(filter).length > 0 ? await client.getTableFields(tableId) : [];
+      return compileFilter(filter, fields);
+    };
+    // Rows about to be keyed by label are redacted while still keyed by field ID,
+    // since the output pass does not match label keys.
+    const redactRows = async (appId: string, tableId: string, rows: any[]) => {
+      const redaction = await this.getRedactionRules(appId, [tableId]);
+      return redaction ? redactValue(rows, redaction) as any[] : rows;
+    };
+    // Run an export and describe it: the content itself when inline, a summary when written to disk.
+    // Rows are redacted before they are written, since CSV output and export files are not redacted later.
+    const exportResult = async (appId: string, tableId: string, options: ExportOptions, fetchPage: PageFetcher) => {
+      const target = options.path
+        ? await resolveExportPath(options.path, this.exportDir, options.overwrite)
+        : undefined;
+      const redaction = await this.getRedactionRules(appId, [tableId]);
+      const fetchRedacted: PageFetcher = async (offset, top) => {
+        const page = await fetchPage(offset, top);
+        return redaction ? { ...page, data: redactValue(page.data, redaction) as any[] } : page;
+      };
+      const summary = await exportRecords(fetchRedacted, {
+        format: options.format,
+        path: target,
+        maxRows: options.maxRows
+      });
+      return summary.content ?? JSON.stringify(summary, null, 2);
+    };
+    // Refuse bulk changes above the app's affected-row limit unless the count was echoed back.
+    const checkAffectedRows = (name: string, appId: string, count: number, expectedAffectedRows?: number) =>
+      assertAffectedRowsAllowed({ name, count, expectedAffectedRows, maxAffectedRows: this.appRegistry.get(appId)?.maxAffectedRows });
+    const undoHint = (operationId?: string) => (operationId ? ` (undo with quickbase_undo operationId "${operationId}")` : '');
+    // The desired state for plan/apply: given inline, or a snapshot file in QB_EXPORT_DIR.
+    const loadDesiredSchema = async (a: { desired?: DesiredSchema; snapshotPath?: string }): Promise<DesiredSchema> =>
+      a.desired ?? desiredFromSnapshot(parseSchemaSnapshot(await readExportFile(a.snapshotPath!, this.exportDir)));
     return {
       // ========== APP REGISTRY ==========
       quickbase_list_apps: async () =>
-        JSON.stringify(Array.from(this.appRegistry.values()), null, 2),
+        JSON.stringify(
+          Array.from(this.appRegistry.values(), app => {
+            const { realm, credentials, appToken } = this.appCredentials.get(app.id)!;
+            return { ...app, realm, tokenSource: credentials.description, appToken: appToken !== undefined };
+          }),
+          null, 2
+        ),
 
       // ========== APPLICATION ==========
       quickbase_get_app_info: async (args) => {
@@ -264,21 +536,117 @@ class QuickBaseMCPServer {
         return `Connection ${ok ? 'successful' : 'failed'}`;
       },
 
+      quickbase_get_audit_log: async (args) => {
+        const a = parseArgs('quickbase_get_audit_log', GetAuditLogSchema, args);
+        if (!this.appRegistry.has(a.appId)) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Unknown appId "${a.appId}". Call quickbase_list_apps to see registered apps.`
+          );
+        }
+        const log = this.getAuditLogForApp(a.appId);
+        if (!log) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Audit logging is off for app ${a.appId}. Set QB_AUDIT_LOG (or QB_APP_${a.appId}_AUDIT_LOG) to a file path to enable it.`
+          );
+        }
+        const entries = await log.read({
+          appId: a.appId,
+          tool: a.tool,
+          tableId: a.tableId,
+          outcome: a.outcome,
+          since: a.since,
+          limit: a.limit
+        });
+        return JSON.stringify({ path: log.path, returned: entries.length, entries }, null, 2);
+      },
+
+      quickbase_explain_policy: async (args) => {
+        const a = parseArgs('quickbase_explain_policy', ExplainPolicySchema, args);
+        const app = this.appRegistry.get(a.appId);
+        if (!app) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Unknown appId "${a.appId}". Call quickbase_list_apps to see registered apps.`
+          );
+        }
+        if (a.tool && !quickbaseTools.some(t => t.name === a.tool)) {
+          throw new McpError(ErrorCode.InvalidRequest, `Unknown tool "${a.tool}".`);
+        }
+        const policy = this.getPolicyForApp(a.appId);
+        // Decisions assume a confirmed call, so they show what the settings and policy allow.
+        const decide = (tool: string): { tool: string; allowed: boolean; reason?: string } => {
+          try {
+            assertToolAllowed({
+              name: tool,
+              args: { confirm: true, tableId: a.tableId },
+              readOnly: app.readOnly,
+              allowDestructive: app.allowDestructive,
+              policy
+            });
+            return { tool, allowed: true };
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { tool, allowed: false, reason: message.replace(/^MCP error -?\d+: /, '') };
+          }
+        };
+        const summary = {
+          appId: a.appId,
+          ...(a.tableId ? { tableId: a.tableId } : {}),
+          settings: { readOnly: app.readOnly, allowDestructive: app.allowDestructive, maxAffectedRows: app.maxAffectedRows ?? null },
+          policyFile: this.policyPath ?? null,
+          rules: policy ? { sources: policy.sources, allow: policy.allow ?? null, deny: policy.deny, tables: policy.tables } : null
+        };
+        if (a.tool) return JSON.stringify({ ...summary, decision: decide(a.tool) }, null, 2);
+        const decisions = quickbaseTools.map(t => decide(t.name));
+        return JSON.stringify({
+          ...summary,
+          allowed: decisions.filter(d => d.allowed).map(d => d.tool),
+          denied: decisions.filter(d => !d.allowed).map(({ tool, reason }) => ({ tool, reason }))
+        }, null, 2);
+      },
+
       // ========== TABLES ==========
-      quickbase_create_table: async (args) => {
+      quickbase_create_table: async (args, context) => {
         const a = parseArgs('quickbase_create_table', CreateTableSchema, args);
-        const tableId = await getClient(a.appId).createTable({ name: a.name, description: a.description });
+        const tableId = await getClient(a.appId, context).createTable({ name: a.name, description: a.description });
         return `Table created with ID: ${tableId}`;
       },
 
+      quickbase_clone_table: async (args, context) => {
+        const a = parseArgs('quickbase_clone_table', CloneTableSchema, args);
+        // The CallTool guard only checked the source app, which is read from; the writes happen in the target.
+        const targetSafety = this.getSafetyConfigForApp(a.targetAppId);
+        assertToolAllowed({
+          name: 'quickbase_clone_table',
+          args: { confirm: a.confirm, dryRun: context.dryRun !== undefined },
+          readOnly: targetSafety.readOnly,
+          allowDestructive: targetSafety.allowDestructive,
+          policy: this.getPolicyForApp(a.targetAppId),
+          target: true
+        });
+        const source = getClient(a.appId, context);
+        const copy = a.copyRecords;
+        if (copy?.where) assertValidWhere(copy.where, await source.getTableFields(a.tableId));
+        const report = await cloneTable(source, getClient(a.targetAppId, context), a.tableId, {
+          name: a.name,
+          copyRecords: copy && {
+            where: combineWhere(copy.where, await whereFromFilter(source, a.tableId, copy.filter)),
+            maxRecords: copy.maxRecords
+          }
+        });
+        return JSON.stringify({ targetAppId: a.targetAppId, ...report }, null, 2);
+      },
+
       quickbase_get_table_info: async (args) => {
         const a = parseArgs('quickbase_get_table_info', TableIdSchema, args);
         return JSON.stringify(await getClient(a.appId).getTableInfo(a.tableId), null, 2);
       },
 
-      quickbase_delete_table: async (args) => {
+      quickbase_delete_table: async (args, context) => {
         const a = parseArgs('quickbase_delete_table', TableIdSchema, args);
-        await getClient(a.appId).deleteTable(a.tableId);
+        await getClient(a.appId, context).deleteTable(a.tableId);
         return `Table ${a.tableId} deleted successfully`;
       },
 
@@ -288,9 +656,92 @@ class QuickBaseMCPServer {
         return JSON.stringify(await getClient(a.appId).getTableFields(a.tableId), null, 2);
       },
 
-      quickbase_create_field: async (args) => {
+      quickbase_refresh_schema: async (args) => {
+        const a = parseArgs('quickbase_refresh_schema', RefreshSchemaSchema, args);
+        const client = getClient(a.appId);
+        client.invalidateSchema(a.tableId);
+        if (a.tableId) {
+          const fields = await client.getTableFields(a.tableId);
+          return JSON.stringify({ refreshed: 'table', tableId: a.tableId, fieldCount: fields.length }, null, 2);
+        }
+        const tables = await client.getAppTables();
+        return JSON.stringify({ refreshed: 'app', appId: a.appId, tableCount: tables.length }, null, 2);
+      },
+
+      quickbase_export_schema: async (args) => {
+        const a = parseArgs('quickbase_export_schema', ExportSchemaSchema, args);
+        const target = a.path ? await resolveExportPath(a.path, this.exportDir, a.overwrite) : undefined;
+        const snapshot = await captureSchema(getClient(a.appId), a.appId, { tableIds: a.tableIds });
+        const document = formatSchemaSnapshot(snapshot, a.format);
+        if (!target) return document;
+        const bytes = await writeExportFile(target, document);
+        return JSON.stringify({
+          path: target,
+          format: a.format,
+          bytes,
+          tableCount: snapshot.tables.length,
+          fieldCount: snapshot.tables.reduce((n, t) => n + t.fields.length, 0)
+        }, null, 2);
+      },
+
+      quickbase_diff_schema: async (args) => {
+        const a = parseArgs('quickbase_diff_schema', DiffSchemaSchema, args);
+        const other = a.compareAppId
+          ? await captureSchema(getClient(a.compareAppId), a.compareAppId)
+          : parseSchemaSnapshot(await readExportFile(a.snapshotPath!, this.exportDir));
+        const live = await captureSchema(getClient(a.appId), a.appId);
+        return JSON.stringify(diffSchemas(live, other), null, 2);
+      },
+
+      quickbase_plan_schema: async (args) => {
+        const a = parseArgs('quickbase_plan_schema', PlanSchemaSchema, args);
+        const desired = await loadDesiredSchema(a);
+        const client = getClient(a.appId);
+        client.invalidateSchema();
+        return JSON.stringify(planSchema(a.appId, await captureSchema(client, a.appId), desired), null, 2);
+      },
+
+      quickbase_apply_schema: async (args, context) => {
+        const a = parseArgs('quickbase_apply_schema', ApplySchemaSchema, args);
+        const desired = await loadDesiredSchema(a);
+        const client = getClient(a.appId, context);
+        client.invalidateSchema();
+        const live = await captureSchema(client, a.appId);
+        const plan = planSchema(a.appId, live, desired);
+        if (plan.planId !== a.planId) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `The app or the desired state has changed since plan ${a.planId} was made (the plan is now ${plan.planId}). ` +
+            'Re-run quickbase_plan_schema, review the new plan and apply that.'
+          );
+        }
+        if (plan.operations.length === 0) {
+          return JSON.stringify({ appId: a.appId, planId: plan.planId, status: 'no_changes', warnings: plan.warnings }, null, 2);
+        }
+        const safety = this.getSafetyConfigForApp(a.appId);
+        const policy = this.getPolicyForApp(a.appId);
+        // Table rules in the policy are keyed by ID; tables the plan creates have none yet.
+        const tableId = (name: string) => live.tables.find(t => t.name === name)?.id;
+        const report = await applySchemaPlan(client, plan, op => assertToolAllowed({
+          name: op.tool,
+          args: {
+            confirm: true,
+            dryRun: context.dryRun !== undefined,
+            ...('relationship' in op
+              ? { parentTableId: tableId(op.relationship.parentTable), childTableId: tableId(op.relationship.childTable) }
+              : { tableId: op.action === 'create_table' ? undefined : tableId(op.table) })
+          },
+          readOnly: safety.readOnly,
+          allowDestructive: safety.allowDestructive,
+          policy
+        }));
+        client.invalidateSchema();
+        return JSON.stringify(report, null, 2);
+      },
+
+      quickbase_create_field: async (args, context) => {
         const a = parseArgs('quickbase_create_field', CreateFieldSchema, args);
-        const fieldId = await getClient(a.appId).createField(a.tableId, {
+        const fieldId = await getClient(a.appId, context).createField(a.tableId, {
           label: a.label,
           fieldType: a.fieldType as any,
           required: a.required,
@@ -304,9 +755,9 @@ class QuickBaseMCPServer {
         return `Field created with ID: ${fieldId}`;
       },
 
-      quickbase_update_field: async (args) => {
+      quickbase_update_field: async (args, context) => {
         const a = parseArgs('quickbase_update_field', UpdateFieldArgsSchema, args);
-        await getClient(a.appId).updateField(a.tableId, a.fieldId, {
+        await getClient(a.appId, context).updateField(a.tableId, a.fieldId, {
           label: a.label,
           required: a.required,
           choices: a.choices
@@ -314,23 +765,105 @@ class QuickBaseMCPServer {
         return `Field ${a.fieldId} updated successfully`;
       },
 
-      quickbase_delete_field: async (args) => {
+      quickbase_delete_field: async (args, context) => {
         const a = parseArgs('quickbase_delete_field', DeleteFieldArgsSchema, args);
-        await getClient(a.appId).deleteField(a.tableId, a.fieldId);
+        await getClient(a.appId, context).deleteField(a.tableId, a.fieldId);
         return `Field ${a.fieldId} deleted successfully`;
       },
 
       // ========== RECORDS ==========
       quickbase_query_records: async (args) => {
         const a = parseArgs('quickbase_query_records', QueryRecordsSchema, args);
-        const records = await getClient(a.appId).getRecords(a.tableId, {
-          select: a.select,
-          where: a.where,
-          sortBy: a.sortBy as any[],
-          top: a.top,
-          skip: a.skip
+        const client = getClient(a.appId);
+        const fields: FieldRef[] = a.fieldNames ? await client.getTableFields(a.tableId) : [];
+        const toIds = (keys: Array<string | number>): number[] => {
+          if (a.fieldNames) return resolveFieldIds(fields, keys);
+          const labels = keys.filter(k => typeof k !== 'number');
+          if (labels.length > 0) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Field labels (${labels.map(l => `"${l}"`).join(', ')}) require fieldNames: true.`
+            );
+          }
+          return keys as number[];
+        };
+        if (a.where && !a.cursor) assertValidWhere(a.where, await client.getTableFields(a.tableId));
+        const sortIds = a.sortBy ? toIds(a.sortBy.map(s => s.fieldId)) : undefined;
+        let options: Omit<QueryOptions, 'skip'> = {
+          select: a.select ? toIds(a.select) : undefined,
+          where: combineWhere(a.where, await whereFromFilter(client, a.tableId, a.filter)),
+          sortBy: a.sortBy?.map((s, i) => ({ fieldId: sortIds![i], order: s.order })),
+          top: a.top
+        };
+        let skip = a.skip ?? 0;
+        if (a.cursor) {
+          const cursor = decodeCursor(a.cursor);
+          if (cursor.appId !== a.appId || cursor.tableId !== a.tableId) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Cursor was issued for app "${cursor.appId}" table "${cursor.tableId}", not app "${a.appId}" table "${a.tableId}".`
+            );
+          }
+          options = cursor.options;
+          skip = cursor.skip;
+        }
+        if (a.export) {
+          return exportResult(a.appId, a.tableId, a.export, (offset, top) => client.getRecordsPage(a.tableId, {
+            ...options,
+            skip: skip + offset,
+            top: options.top ? Math.min(options.top, top) : top
+          }));
+        }
+        const result = await client.getRecordsPaginated(
+          a.tableId,
+          { ...options, skip },
+          a.maxRecords ?? options.top ?? DEFAULT_MAX_QUERY_RECORDS
+        );
+        return JSON.stringify({
+          records: a.fieldNames ? rowsToLabels(fields, await redactRows(a.appId, a.tableId, result.data)) : result.data,
+          returned: result.data.length,
+          totalRecords: result.totalRecords ?? null,
+          hasMore: result.hasMore,
+          nextCursor: result.hasMore
+            ? encodeCursor({ appId: a.appId, tableId: a.tableId, skip: result.nextSkip, options })
+            : null
+        }, null, 2);
+      },
+
+      quickbase_aggregate_records: async (args) => {
+        const a = parseArgs('quickbase_aggregate_records', AggregateRecordsSchema, args);
+        const client = getClient(a.appId);
+        const fields = await client.getTableFields(a.tableId);
+        if (a.where) assertValidWhere(a.where, fields);
+        const where = combineWhere(a.where, a.filter ? compileFilter(a.filter, fields) : undefined);
+
+        const labelOf = new Map<number, string>(fields.map((f: FieldRef) => [f.id, f.label]));
+        const groupBy = resolveFieldIds(fields, a.groupBy ?? [])
+          .map(fieldId => ({ fieldId, name: labelOf.get(fieldId) ?? String(fieldId) }));
+        const metricIds = resolveFieldIds(fields, a.metrics.flatMap(m => (m.field === undefined ? [] : [m.field])));
+        let nextMetricId = 0;
+        const metrics = a.metrics.map(m => {
+          const fieldId = m.field === undefined ? undefined : metricIds[nextMetricId++];
+          const name = m.as ?? (fieldId === undefined ? m.fn : `${m.fn}(${labelOf.get(fieldId) ?? fieldId})`);
+          return { fn: m.fn, fieldId, name };
+        });
+        const names = [...groupBy, ...metrics].map(c => c.name);
+        const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+        if (duplicate) {
+          throw new McpError(ErrorCode.InvalidParams, `Duplicate result column "${duplicate}"; give one of the metrics a distinct "as" name.`);
+        }
+
+        const report = await client.aggregateRecords(a.tableId, groupBy, metrics, {
+          where,
+          maxRows: a.maxRows,
+          maxGroups: a.maxGroups ?? DEFAULT_MAX_AGGREGATE_GROUPS
         });
-        return JSON.stringify(records, null, 2);
+        const redaction = await this.getRedactionRules(a.appId, [a.tableId]);
+        return JSON.stringify(
+          redaction ? { ...report, rows: redactColumns(report.rows, [...groupBy, ...metrics], redaction) } : report,
+          null,
+          2
+        );
       },
 
       quickbase_get_record: async (args) => {
@@ -338,48 +871,221 @@ class QuickBaseMCPServer {
         return JSON.stringify(await getClient(a.appId).getRecord(a.tableId, a.recordId, a.fieldIds), null, 2);
       },
 
-      quickbase_create_record: async (args) => {
+      quickbase_create_record: async (args, context) => {
         const a = parseArgs('quickbase_create_record', CreateRecordSchema, args);
-        const newRecordId = await getClient(a.appId).createRecord(a.tableId, {
-          fields: a.fields as Record<string, any>
-        });
+        const client = getClient(a.appId, context);
+        const tableFields = await client.getTableFields(a.tableId);
+        const [fields] = validateRecordsForWrite(tableFields, [
+          a.fieldNames ? labelsToFieldValues(tableFields, a.fields) : a.fields
+        ]);
+        const newRecordId = await client.createRecord(a.tableId, { fields });
+        if (newRecordId !== null) context.affectedRecordIds.push(newRecordId);
         return newRecordId === null
           ? 'Record created successfully (Record ID not returned by QuickBase API response)'
           : `Record created with ID: ${newRecordId}`;
       },
 
-      quickbase_update_record: async (args) => {
+      quickbase_update_record: async (args, context) => {
         const a = parseArgs('quickbase_update_record', UpdateRecordSchema, args);
-        await getClient(a.appId).updateRecord(a.tableId, a.recordId, a.fields as Record<string, any>);
-        return `Record ${a.recordId} updated successfully`;
+        const client = getClient(a.appId, context);
+        const tableFields = await client.getTableFields(a.tableId);
+        const [fields] = validateRecordsForWrite(tableFields, [
+          a.fieldNames ? labelsToFieldValues(tableFields, a.fields) : a.fields
+        ]);
+        context.affectedRecordIds.push(a.recordId);
+        const undoId = await client.updateRecord(a.tableId, a.recordId, fields);
+        return `Record ${a.recordId} updated successfully${undoHint(undoId)}`;
       },
 
-      quickbase_delete_record: async (args) => {
+      quickbase_delete_record: async (args, context) => {
         const a = parseArgs('quickbase_delete_record', RecordIdSchema, args);
-        await getClient(a.appId).deleteRecord(a.tableId, a.recordId);
-        return `Record ${a.recordId} deleted successfully`;
+        context.affectedRecordIds.push(a.recordId);
+        const undoId = await getClient(a.appId, context).deleteRecord(a.tableId, a.recordId);
+        return `Record ${a.recordId} deleted successfully${undoHint(undoId)}`;
+      },
+
+      quickbase_undo: async (args, context) => {
+        const a = parseArgs('quickbase_undo', UndoSchema, args);
+        const operation = await this.undoJournal.get(a.operationId);
+        if (!operation || operation.appId !== a.appId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `No undo operation "${a.operationId}" for app ${a.appId}. Operation IDs are returned by quickbase_update_record and quickbase_delete_record` +
+            (process.env.QB_UNDO_JOURNAL ? '.' : ' and are kept only until the server restarts unless QB_UNDO_JOURNAL is set.')
+          );
+        }
+        if (operation.undoneAt) {
+          throw new McpError(ErrorCode.InvalidRequest, `Operation ${a.operationId} was already undone at ${operation.undoneAt}.`);
+        }
+        const result = await undoOperation(getClient(a.appId, context), operation, { force: a.force });
+        context.affectedRecordIds.push(
+          ...result.restored.map(r => r.newRecordId ?? r.recordId).filter((id): id is number => typeof id === 'number')
+        );
+        if (result.skipped.length === 0 && !context.dryRun) await this.undoJournal.markUndone(operation.operationId);
+        return JSON.stringify(result, null, 2);
       },
 
-      quickbase_bulk_create_records: async (args) => {
+      quickbase_bulk_create_records: async (args, context) => {
         const a = parseArgs('quickbase_bulk_create_records', BulkCreateSchema, args);
-        const recordIds = await getClient(a.appId).createRecords(a.tableId, a.records as any[]);
+        const client = getClient(a.appId, context);
+        const rows = validateRecordsForWrite(
+          await client.getTableFields(a.tableId),
+          a.records.map(r => r.fields)
+        );
+        const report = await client.createRecords(a.tableId, rows.map(fields => ({ fields })));
+        assertAnyWritten(report);
+        context.affectedRecordIds.push(...report.createdRecordIds);
+        if (report.failed > 0) {
+          return JSON.stringify(report, null, 2);
+        }
+        const recordIds = report.createdRecordIds;
         return recordIds.length === 0
           ? 'Records created successfully (Record IDs not returned by QuickBase API response)'
           : `Created ${recordIds.length} records: ${recordIds.join(', ')}`;
       },
 
+      quickbase_upsert_records: async (args, context) => {
+        const a = parseArgs('quickbase_upsert_records', UpsertRecordsSchema, args);
+        const client = getClient(a.appId, context);
+        const rows = validateRecordsForWrite(
+          await client.getTableFields(a.tableId),
+          a.records.map(r => r.fields)
+        );
+        const result = await client.upsertRecords(
+          a.tableId,
+          a.mergeFieldId,
+          a.records.map((r, i) => ({ keyValue: r.keyValue, data: rows[i] }))
+        );
+        context.affectedRecordIds.push(...result.createdRecordIds, ...result.updatedRecordIds);
+        return JSON.stringify(result, null, 2);
+      },
+
+      quickbase_bulk_update_records: async (args, context) => {
+        const a = parseArgs('quickbase_bulk_update_records', BulkUpdateRecordsSchema, args);
+        const client = getClient(a.appId, context);
+        checkAffectedRows('quickbase_bulk_update_records', a.appId, a.records.length, a.expectedAffectedRows);
+        const rows = validateRecordsForWrite(
+          await client.getTableFields(a.tableId),
+          a.records.map(r => r.fields)
+        );
+        const report = await client.updateRecords(
+          a.tableId,
+          a.records.map((r, i) => ({ recordId: r.recordId, updates: rows[i] }))
+        );
+        assertAnyWritten(report);
+        context.affectedRecordIds.push(...report.updatedRecordIds);
+        return JSON.stringify(report, null, 2);
+      },
+
+      quickbase_bulk_delete_records: async (args, context) => {
+        const a = parseArgs('quickbase_bulk_delete_records', BulkDeleteRecordsSchema, args);
+        const client = getClient(a.appId, context);
+        const limited = this.appRegistry.get(a.appId)?.maxAffectedRows !== undefined || a.expectedAffectedRows !== undefined;
+        if (a.filter) {
+          const where = (await whereFromFilter(client, a.tableId, a.filter))!;
+          // The matching IDs go into the audit log, and their number is checked against the limit.
+          const matching = await client.getRecordIds(a.tableId, where);
+          if (limited) {
+            checkAffectedRows('quickbase_bulk_delete_records', a.appId, matching.length, a.expectedAffectedRows);
+          }
+          context.affectedRecordIds.push(...matching);
+          const numberDeleted = await client.deleteRecordsWhere(a.tableId, where);
+          return JSON.stringify({ where, numberDeleted }, null, 2);
+        }
+        const recordIds = a.recordIds!;
+        if (limited) {
+          const where = recordIds.map(id => `{3.EX.${id}}`).join('OR');
+          checkAffectedRows('quickbase_bulk_delete_records', a.appId, await client.countRecords(a.tableId, where), a.expectedAffectedRows);
+        }
+        context.affectedRecordIds.push(...recordIds);
+        const numberDeleted = await client.deleteRecords(a.tableId, recordIds);
+        return JSON.stringify({ requested: recordIds.length, numberDeleted }, null, 2);
+      },
+
+      quickbase_import_records: async (args, context) => {
+        const a = parseArgs('quickbase_import_records', ImportRecordsSchema, args);
+        const client = getClient(a.appId, context);
+        const fields = await client.getTableFields(a.tableId);
+        const mergeFieldId = a.mergeField === undefined ? undefined : resolveFieldIds(fields, [a.mergeField])[0];
+        const prepared = prepareImport(a.data, fields, {
+          format: a.format,
+          mapping: a.mapping,
+          mergeFieldId,
+          delimiter: a.delimiter,
+          maxRows: MAX_IMPORT_ROWS
+        });
+
+        const summary = {
+          format: a.format,
+          mode: mergeFieldId === undefined ? 'create' : 'upsert',
+          mapping: prepared.mapping,
+          rowsRead: prepared.rowsRead,
+          validRows: prepared.rows.length,
+          invalidRows: prepared.errors.length
+        };
+        const errors = [...prepared.errors];
+        const respond = (extra: Record<string, unknown>) => JSON.stringify({
+          ...summary,
+          ...extra,
+          errors: errors.sort((x, y) => x.line - y.line).slice(0, MAX_REPORTED_IMPORT_ERRORS),
+          ...(errors.length > MAX_REPORTED_IMPORT_ERRORS ? { errorsTruncated: errors.length - MAX_REPORTED_IMPORT_ERRORS } : {})
+        }, null, 2);
+
+        if (a.dryRun) {
+          return respond({ dryRun: true, preview: prepared.rows.slice(0, 5) });
+        }
+        if (prepared.errors.length > 0 && !a.skipInvalidRows) {
+          return respond({
+            imported: 0,
+            message: 'Nothing was written because some rows are invalid. Fix them, or pass skipInvalidRows: true to import the valid rows only.'
+          });
+        }
+        if (prepared.rows.length === 0) {
+          return respond({ imported: 0 });
+        }
+
+        const report = mergeFieldId === undefined
+          ? await client.createRecords(a.tableId, prepared.rows.map(r => ({ fields: r.record })))
+          : await client.upsertRecordsChunked(
+            a.tableId,
+            mergeFieldId,
+            prepared.rows.map(r => ({ keyValue: r.record[String(mergeFieldId)].value, data: r.record }))
+          );
+
+        context.affectedRecordIds.push(...report.createdRecordIds, ...report.updatedRecordIds);
+        // Report positions are 1-based indexes into prepared.rows; map them back to source lines.
+        const lineOf = (position: number) => prepared.rows[position - 1]?.line ?? position;
+        for (const [position, lineErrors] of Object.entries(report.lineErrors)) {
+          errors.push({ line: lineOf(Number(position)), errors: lineErrors });
+        }
+        return respond({
+          imported: report.succeeded,
+          failed: report.failed,
+          created: report.createdRecordIds.length,
+          updated: report.updatedRecordIds.length,
+          unchanged: report.unchangedRecordIds.length,
+          failedChunks: report.failedChunks.map(c => ({
+            firstLine: lineOf(c.firstLine),
+            lastLine: lineOf(c.firstLine + c.recordCount - 1),
+            recordCount: c.recordCount,
+            error: c.error
+          }))
+        });
+      },
+
       quickbase_search_records: async (args) => {
         const a = parseArgs('quickbase_search_records', SearchRecordsSchema, args);
+        const client = getClient(a.appId);
         return JSON.stringify(
-          await getClient(a.appId).searchRecords(a.tableId, a.searchTerm, a.fieldIds),
+          await client.searchRecords(a.tableId, a.searchTerm, a.fieldIds, await whereFromFilter(client, a.tableId, a.filter)),
           null, 2
         );
       },
 
       // ========== RELATIONSHIPS ==========
-      quickbase_create_relationship: async (args) => {
+      quickbase_create_relationship: async (args, context) => {
         const a = parseArgs('quickbase_create_relationship', CreateRelationshipSchema, args);
-        await getClient(a.appId).createRelationship(a.parentTableId, a.childTableId, a.foreignKeyFieldId);
+        await getClient(a.appId, context).createRelationship(a.parentTableId, a.childTableId, a.foreignKeyFieldId);
         return `Relationship created between ${a.parentTableId} and ${a.childTableId}`;
       },
 
@@ -395,15 +1101,38 @@ class QuickBaseMCPServer {
       },
 
       quickbase_run_report: async (args) => {
-        const a = parseArgs('quickbase_run_report', RunReportArgsSchema, args);
-        return JSON.stringify(await getClient(a.appId).runReport(a.reportId as string, a.tableId), null, 2);
+        const a = parseArgs('quickbase_run_report', RunReportSchema, args);
+        const client = getClient(a.appId);
+        const report = a.reportName !== undefined ? await client.findReport(a.tableId, a.reportName) : undefined;
+        const reportId = report?.id ?? a.reportId!;
+        if (a.export) {
+          return exportResult(a.appId, a.tableId, a.export, (offset, top) => client.runReportPage(reportId, a.tableId, {
+            skip: (a.skip ?? 0) + offset,
+            top: a.top ? Math.min(a.top, top) : top
+          }));
+        }
+        const result = await client.runReport(reportId, a.tableId, {
+          skip: a.skip,
+          top: a.top,
+          maxRecords: a.maxRecords ?? a.top ?? DEFAULT_MAX_QUERY_RECORDS
+        });
+        return JSON.stringify({
+          report: { id: reportId, name: report?.name ?? null },
+          fields: result.fields,
+          columns: result.fields.map(f => f.label),
+          records: a.fieldNames ? rowsToLabels(result.fields, await redactRows(a.appId, a.tableId, result.data)) : result.data,
+          returned: result.data.length,
+          totalRecords: result.totalRecords ?? null,
+          hasMore: result.hasMore,
+          nextSkip: result.hasMore ? result.nextSkip : null
+        }, null, 2);
       },
 
       // ========== ENHANCED RELATIONSHIPS ==========
-      quickbase_create_advanced_relationship: async (args) => {
+      quickbase_create_advanced_relationship: async (args, context) => {
         const a = parseArgs('quickbase_create_advanced_relationship', CreateAdvancedRelationshipSchema, args);
         return JSON.stringify(
-          await getClient(a.appId).createAdvancedRelationship(
+          await getClient(a.appId, context).createAdvancedRelationship(
             a.parentTableId, a.childTableId, a.referenceFieldLabel,
             a.lookupFields, a.relationshipType as any
           ),
@@ -411,9 +1140,9 @@ class QuickBaseMCPServer {
         );
       },
 
-      quickbase_create_lookup_field: async (args) => {
+      quickbase_create_lookup_field: async (args, context) => {
         const a = parseArgs('quickbase_create_lookup_field', CreateLookupFieldSchema, args);
-        const lookupFieldId = await getClient(a.appId).createLookupField(
+        const lookupFieldId = await getClient(a.appId, context).createLookupField(
           a.childTableId, a.parentTableId, a.referenceFieldId, a.parentFieldId, a.lookupFieldLabel
         );
         return `Lookup field created with ID: ${lookupFieldId}`;
@@ -432,10 +1161,10 @@ class QuickBaseMCPServer {
         return JSON.stringify(await getClient(a.appId).getRelationshipDetails(a.tableId, a.includeFields), null, 2);
       },
 
-      quickbase_create_junction_table: async (args) => {
+      quickbase_create_junction_table: async (args, context) => {
         const a = parseArgs('quickbase_create_junction_table', CreateJunctionTableSchema, args);
         return JSON.stringify(
-          await getClient(a.appId).createJunctionTable(
+          await getClient(a.appId, context).createJunctionTable(
             a.junctionTableName, a.table1Id, a.table2Id,
             a.table1FieldLabel, a.table2FieldLabel, a.additionalFields
           ),
@@ -444,9 +1173,9 @@ class QuickBaseMCPServer {
       },
 
       // ========== WEBHOOKS ==========
-      quickbase_create_webhook: async (args) => {
+      quickbase_create_webhook: async (args, context) => {
         const a = parseArgs('quickbase_create_webhook', CreateWebhookSchema, args);
-        const webhookId = await getClient(a.appId).createWebhook(a.tableId, {
+        const webhookId = await getClient(a.appId, context).createWebhook(a.tableId, {
           label: a.label,
           description: a.description,
           webhookUrl: a.webhookUrl,
@@ -469,9 +1198,9 @@ class QuickBaseMCPServer {
         return JSON.stringify({ success: true, tableId: a.tableId, webhooks, count: webhooks.length }, null, 2);
       },
 
-      quickbase_delete_webhook: async (args) => {
+      quickbase_delete_webhook: async (args, context) => {
         const a = parseArgs('quickbase_delete_webhook', DeleteWebhookSchema, args);
-        await getClient(a.appId).deleteWebhook(a.tableId, a.webhookId);
+        await getClient(a.appId, context).deleteWebhook(a.tableId, a.webhookId);
         return JSON.stringify({ success: true, message: `Webhook ${a.webhookId} deleted successfully` }, null, 2);
       },
 
@@ -484,9 +1213,9 @@ class QuickBaseMCPServer {
       },
 
       // ========== NOTIFICATIONS ==========
-      quickbase_create_notification: async (args) => {
+      quickbase_create_notification: async (args, context) => {
         const a = parseArgs('quickbase_create_notification', CreateNotificationSchema, args);
-        const notificationId = await getClient(a.appId).createNotification(a.tableId, {
+        const notificationId = await getClient(a.appId, context).createNotification(a.tableId, {
           label: a.label,
           description: a.description,
           notificationEvent: a.notificationEvent,
@@ -508,9 +1237,9 @@ class QuickBaseMCPServer {
         return JSON.stringify({ success: true, tableId: a.tableId, notifications, count: notifications.length }, null, 2);
       },
 
-      quickbase_delete_notification: async (args) => {
+      quickbase_delete_notification: async (args, context) => {
         const a = parseArgs('quickbase_delete_notification', DeleteNotificationSchema, args);
-        await getClient(a.appId).deleteNotification(a.tableId, a.notificationId);
+        await getClient(a.appId, context).deleteNotification(a.tableId, a.notificationId);
         return JSON.stringify({ success: true, message: `Notification ${a.notificationId} deleted successfully` }, null, 2);
       },
 
@@ -1,15 +1,58 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { QuickBaseConfig, QuickBaseField, QuickBaseTable, QuickBaseRecord, QueryOptions, PipelinesPage } from '../types/quickbase.js';
+import { QuickBaseConfig, QuickBaseField, QuickBaseTable, QuickBaseRecord, QueryOptions, PipelinesPage, RecordsPage, PaginatedRecords, RecordWriteResult, RecordWriteLineResult, ChunkedWriteOptions, ChunkedWriteReport, AggregateReport, ReportSummary } from '../types/quickbase.js';
 import { RelayClient } from '../relay/server.js';
+import { SchemaCache } from './schemaCache.js';
+import { DryRunRecorder } from './dryRun.js';
+import { CredentialProvider, StaticCredentialProvider, TemporaryTokenCache } from './credentials.js';
+import { newOperationId, UndoJournal, UndoOperation, UndoSnapshot } from './undoJournal.js';
 import { envFlag } from '../utils/env.js';
-import { formatErrorForLog } from '../utils/errors.js';
+import { formatErrorForLog, scrubCredentials } from '../utils/errors.js';
+import { combineWhere, compileFilter } from '../utils/filter.js';
+import { Aggregator, GroupColumn, MetricColumn } from '../utils/aggregate.js';
+
+// Chunking defaults for bulk writes. QuickBase caps the request body of
+// POST /records well above these values; staying comfortably below keeps a
+// single oversized chunk from failing an entire batch.
+const DEFAULT_MAX_RECORDS_PER_CHUNK = 500;
+const DEFAULT_MAX_BYTES_PER_CHUNK = 5 * 1024 * 1024;
+const DEFAULT_WRITE_CONCURRENCY = 2;
+
+// Row cap for aggregateRecords; keeps a runaway group-by from scanning a huge table.
+const DEFAULT_MAX_AGGREGATE_ROWS = 100_000;
+
+// Page size for getRecordIds; rows holding only field 3 are small.
+const RECORD_ID_PAGE_SIZE = 1000;
+
+/** Default lifetime of cached schema metadata (tables and fields). */
+export const DEFAULT_SCHEMA_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Client settings: a fixed `userToken`, or a `credentials` provider whose
+ * token is fetched per request and refreshed when QuickBase answers 401.
+ */
+export type QuickBaseClientConfig =
+  | QuickBaseConfig
+  | (Omit<QuickBaseConfig, 'userToken'> & { credentials: CredentialProvider });
+
+const USER_TOKEN_SCHEME = 'QB-USER-TOKEN';
+const TEMP_TOKEN_SCHEME = 'QB-TEMP-TOKEN';
+const TEMP_TOKEN_PATH = /^\/?auth\/temporary\//;
+
+/** A request config carrying the dbid its temporary token was issued for. */
+type TempTokenConfig = AxiosRequestConfig & { _dbid?: string };
 
 export class QuickBaseClient {
   private axios: AxiosInstance;
-  private config: QuickBaseConfig;
+  private config: Omit<QuickBaseConfig, 'userToken'>;
+  private credentials: CredentialProvider;
+  private tempTokens: TemporaryTokenCache | null = null;
   private logApi: boolean;
   private relayClient: RelayClient | null = null;
+  private undoJournal: UndoJournal | null = null;
+  private dryRun: DryRunRecorder | null = null;
+  private fieldWriteGuard: ((tableId: string, fieldIds: number[]) => Promise<void>) | null = null;
+  private schemaCache: SchemaCache;
 
   private static extractCreatedRecordIds(responseData: any): number[] {
     const normalizeIds = (ids: unknown[]): number[] =>
@@ -45,18 +88,79 @@ export class QuickBaseClient {
     return [];
   }
 
-  constructor(config: QuickBaseConfig) {
+  /**
+   * Build a per-row write report from a `POST /records` response.
+   *
+   * QuickBase reports failures in `metadata.lineErrors`, keyed by the 1-based
+   * position of the input row, and returns one `data` row (containing field 3
+   * when requested via `fieldsToReturn`) for every row that succeeded, in input
+   * order. Walking the input positions and consuming `data` rows for the
+   * non-failing lines recovers the record ID and outcome of each row.
+   */
+  private static summarizeWriteResponse(responseData: any, rowCount: number): RecordWriteResult {
+    const toIds = (ids: unknown): number[] =>
+      Array.isArray(ids)
+        ? ids.map((id) => Number(id)).filter((n) => Number.isFinite(n))
+        : [];
+
+    const metadata = responseData?.metadata ?? {};
+    const createdRecordIds = toIds(metadata.createdRecordIds);
+    const updatedRecordIds = toIds(metadata.updatedRecordIds);
+    const unchangedRecordIds = toIds(metadata.unchangedRecordIds);
+    const lineErrors: Record<string, string[]> = metadata.lineErrors ?? {};
+    const rows: any[] = Array.isArray(responseData?.data) ? responseData.data : [];
+
+    const created = new Set(createdRecordIds);
+    const updated = new Set(updatedRecordIds);
+    const records: RecordWriteLineResult[] = [];
+    let rowIndex = 0;
+
+    for (let line = 1; line <= rowCount; line++) {
+      const errors = lineErrors[String(line)];
+      if (errors && errors.length > 0) {
+        records.push({ line, recordId: null, status: 'error', errors });
+        continue;
+      }
+      const raw = rows[rowIndex++]?.['3']?.value;
+      const recordId = raw === undefined || raw === null ? null : Number(raw);
+      const status = recordId !== null && created.has(recordId)
+        ? 'created'
+        : recordId !== null && updated.has(recordId)
+          ? 'updated'
+          : 'unchanged';
+      records.push({ line, recordId, status });
+    }
+
+    return {
+      createdRecordIds,
+      updatedRecordIds,
+      unchangedRecordIds,
+      lineErrors,
+      totalNumberOfRecordsProcessed:
+        metadata.totalNumberOfRecordsProcessed ??
+        createdRecordIds.length + updatedRecordIds.length + unchangedRecordIds.length,
+      records
+    };
+  }
+
+  constructor(config: QuickBaseClientConfig) {
     this.config = config;
+    this.credentials = 'credentials' in config ? config.credentials : new StaticCredentialProvider(config.userToken);
     this.logApi = envFlag('QB_LOG_API', false);
+    this.schemaCache = new SchemaCache(config.schemaCacheTtlMs ?? DEFAULT_SCHEMA_CACHE_TTL_MS);
     this.axios = axios.create({
       baseURL: `https://api.quickbase.com/v1`,
       timeout: config.timeout,
       headers: {
         'QB-Realm-Hostname': config.realm,
         'User-Agent': 'QuickBase-MCP-Server/1.0.0',
-        'Authorization': `QB-USER-TOKEN ${config.userToken}`
+        ...('userToken' in config ? { 'Authorization': `${USER_TOKEN_SCHEME} ${config.userToken}` } : {}),
+        ...(config.appToken ? { 'QB-App-Token': config.appToken } : {})
       }
     });
+    if (config.tempTokens) {
+      this.tempTokens = new TemporaryTokenCache(dbid => this.fetchTemporaryToken(dbid));
+    }
     // Set Content-Type only for requests that carry a body — GET/HEAD/DELETE
     // requests must NOT send Content-Type or QuickBase returns HTTP 415.
     this.axios.defaults.headers.post['Content-Type'] = 'application/json';
@@ -65,7 +169,8 @@ export class QuickBaseClient {
 
     // Add request/response interceptors for logging and error handling
     this.axios.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        config.headers.Authorization = await this.authorizationFor(config);
         if (this.logApi) {
           console.log(`QB API Request: ${config.method?.toUpperCase()} ${config.url}`);
         }
@@ -86,11 +191,24 @@ export class QuickBaseClient {
           console.error(`QB API Error: ${formatErrorForLog(error)}`);
         }
 
-        // Retry transient errors with exponential backoff.
-        type RetryConfig = AxiosRequestConfig & { _retryCount?: number };
+        // Retry transient errors with exponential backoff, and a rejected
+        // token once: a temporary token is fetched again, a user token only
+        // if the credential provider has a different one.
+        type RetryConfig = TempTokenConfig & { _retryCount?: number; _authRetried?: boolean };
         const config = error.config as RetryConfig | undefined;
         if (config && axios.isAxiosError(error)) {
           const status = error.response?.status;
+          if (status === 401 && !config._authRetried) {
+            config._authRetried = true;
+            const [scheme, rejected = ''] = String(config.headers?.Authorization ?? '').split(' ');
+            if (scheme === TEMP_TOKEN_SCHEME && this.tempTokens) {
+              this.tempTokens.invalidate(this.dbidForRequest(config), rejected);
+              return this.axios(config);
+            }
+            if ((await this.credentials.refresh(rejected)) !== rejected) {
+              return this.axios(config);
+            }
+          }
           if (status && [429, 502, 503].includes(status)) {
             config._retryCount = (config._retryCount ?? 0) + 1;
             if (config._retryCount <= this.config.maxRetries) {
@@ -101,11 +219,48 @@ export class QuickBaseClient {
           }
         }
 
-        return Promise.reject(error);
+        return Promise.reject(scrubCredentials(error));
       }
     );
   }
 
+  /**
+   * The Authorization header for a REST request: a temporary token for the
+   * table or app it touches in temp-token mode, otherwise the user token.
+   * Temporary tokens themselves are fetched with the user token.
+   */
+  private async authorizationFor(request: TempTokenConfig): Promise<string> {
+    if (this.tempTokens && !TEMP_TOKEN_PATH.test(request.url ?? '')) {
+      return `${TEMP_TOKEN_SCHEME} ${await this.tempTokens.get(this.dbidForRequest(request))}`;
+    }
+    return `${USER_TOKEN_SCHEME} ${await this.credentials.getToken()}`;
+  }
+
+  /**
+   * The table a REST request touches, from its `tableId` parameter, the
+   * `from`/`to` of a records body or a `/tables/{id}` path; the app for
+   * requests about no single table. Resolved once and kept on the request,
+   * since axios has serialised the body by the time a request is retried.
+   */
+  private dbidForRequest(request: TempTokenConfig): string {
+    if (request._dbid === undefined) {
+      const body = typeof request.data === 'object' && request.data !== null ? request.data : {};
+      const pathTable = /^\/?tables\/([^/?]+)/.exec(request.url ?? '')?.[1];
+      request._dbid = request.params?.tableId ?? body.from ?? body.to ?? pathTable ?? request.params?.appId ?? this.config.appId;
+    }
+    return request._dbid!;
+  }
+
+  /** Get a temporary token scoped to `dbid` (a table or app ID) from `GET /auth/temporary/{dbid}`. */
+  private async fetchTemporaryToken(dbid: string): Promise<string> {
+    const response = await this.axios.get(`/auth/temporary/${dbid}`);
+    const token = response.data?.temporaryAuthorization;
+    if (typeof token !== 'string' || !token) {
+      throw new McpError(ErrorCode.InternalError, `QuickBase returned no temporary token for ${dbid}.`);
+    }
+    return token;
+  }
+
   // ========== APPLICATION METHODS ==========
 
   /** Fetch metadata for the configured QuickBase application. */
@@ -114,12 +269,27 @@ export class QuickBaseClient {
     return response.data;
   }
 
-  /** Return a list of all tables in the configured application. */
+  /** Return a list of all tables in the configured application (cached; see {@link invalidateSchema}). */
   async getAppTables(): Promise<any[]> {
-    const response = await this.axios.get(`/tables`, {
-      params: { appId: this.config.appId }
+    return this.schemaCache.get(SchemaCache.tablesKey(), async () => {
+      const response = await this.axios.get(`/tables`, {
+        params: { appId: this.config.appId }
+      });
+      return response.data;
     });
-    return response.data;
+  }
+
+  /**
+   * Drop cached schema metadata so the next read goes to the network.
+   * With a `tableId`, only that table's info and field list are dropped;
+   * otherwise everything cached for the app is cleared.
+   */
+  invalidateSchema(tableId?: string): void {
+    if (tableId) {
+      this.schemaCache.invalidateTable(tableId);
+    } else {
+      this.schemaCache.clear();
+    }
   }
 
   // ========== TABLE METHODS ==========
@@ -141,14 +311,17 @@ export class QuickBaseClient {
       singleRecordName: table.singleRecordName ?? derivedSingular,
       pluralRecordName: table.name
     });
+    this.schemaCache.invalidateTables();
     return response.data.id;
   }
 
   async getTableInfo(tableId: string): Promise<any> {
-    const response = await this.axios.get(`/tables/${tableId}`, {
-      params: { appId: this.config.appId }
+    return this.schemaCache.get(SchemaCache.tableKey(tableId), async () => {
+      const response = await this.axios.get(`/tables/${tableId}`, {
+        params: { appId: this.config.appId }
+      });
+      return response.data;
     });
-    return response.data;
   }
 
   async updateTable(tableId: string, updates: Partial<QuickBaseTable>): Promise<void> {
@@ -156,21 +329,31 @@ export class QuickBaseClient {
       appId: this.config.appId,
       ...updates
     });
+    this.schemaCache.invalidateTable(tableId);
+    this.schemaCache.invalidateTables();
   }
 
   async deleteTable(tableId: string): Promise<void> {
     await this.axios.delete(`/tables/${tableId}`, {
       params: { appId: this.config.appId }
     });
+    this.schemaCache.invalidateTable(tableId);
+    this.schemaCache.invalidateTables();
   }
 
   // ========== FIELD METHODS ==========
 
+  /**
+   * Return the field list for a table. Results are cached per client for the
+   * configured TTL; field mutations made through this client drop the entry.
+   */
   async getTableFields(tableId: string): Promise<any[]> {
-    const response = await this.axios.get(`/fields`, {
-      params: { tableId }
+    return this.schemaCache.get(SchemaCache.fieldsKey(tableId), async () => {
+      const response = await this.axios.get(`/fields`, {
+        params: { tableId }
+      });
+      return response.data;
     });
-    return response.data;
   }
 
   async createField(tableId: string, field: QuickBaseField): Promise<number> {
@@ -182,9 +365,15 @@ export class QuickBaseClient {
       unique: field.unique
     };
 
+    // Explicit properties are sent as given; the shorthands below are merged in.
+    if (field.properties) {
+      fieldData.properties = { ...field.properties };
+    }
+
     // Add field-specific properties
     if (field.choices && ['text_choice', 'multiselect'].includes(field.fieldType)) {
       fieldData.properties = {
+        ...fieldData.properties,
         choices: field.choices
       };
     }
@@ -195,11 +384,13 @@ export class QuickBaseClient {
 
     if (field.lookupReference && field.fieldType === 'lookup') {
       fieldData.properties = {
+        ...fieldData.properties,
         lookupReference: field.lookupReference
       };
     }
 
     const response = await this.axios.post('/fields', fieldData);
+    this.schemaCache.invalidateTable(tableId);
     return response.data.id;
   }
 
@@ -208,19 +399,30 @@ export class QuickBaseClient {
       tableId,
       ...updates
     });
+    this.schemaCache.invalidateTable(tableId);
   }
 
   async deleteField(tableId: string, fieldId: number): Promise<void> {
     await this.axios.delete(`/fields/${fieldId}`, {
       params: { tableId }
     });
+    this.schemaCache.invalidateTable(tableId);
   }
 
   // ========== RECORD METHODS ==========
 
   async getRecords(tableId: string, options?: QueryOptions): Promise<any[]> {
+    const page = await this.getRecordsPage(tableId, options);
+    return page.data;
+  }
+
+  /**
+   * Run a single `POST /records/query` and return the rows together with the
+   * field list and the paging `metadata` block (`totalRecords`, `skip`, `top`).
+   */
+  async getRecordsPage(tableId: string, options?: QueryOptions): Promise<RecordsPage> {
     const params: any = { from: tableId };
-    
+
     if (options?.select) {
       params.select = options.select;
     }
@@ -241,7 +443,145 @@ export class QuickBaseClient {
     }
 
     const response = await this.axios.post('/records/query', params);
-    return response.data.data;
+    return {
+      data: response.data?.data ?? [],
+      fields: response.data?.fields ?? [],
+      metadata: response.data?.metadata ?? {}
+    };
+  }
+
+  /** Number of records matching a `where` clause (every record without one). */
+  async countRecords(tableId: string, where?: string): Promise<number> {
+    const page = await this.getRecordsPage(tableId, { select: [3], where, top: 1 });
+    return Number(page.metadata.totalRecords ?? page.data.length);
+  }
+
+  /** IDs of every record matching a `where` clause (every record without one). */
+  async getRecordIds(tableId: string, where?: string): Promise<number[]> {
+    const result = await this.getRecordsPaginated(
+      tableId,
+      { select: [3], where, top: RECORD_ID_PAGE_SIZE },
+      Number.POSITIVE_INFINITY
+    );
+    return result.data.map(row => Number(row['3']?.value)).filter(id => Number.isFinite(id));
+  }
+
+  /**
+   * Query records across multiple pages, following `skip` until `maxRecords`
+   * rows have been collected or QuickBase reports no further matches.
+   *
+   * QuickBase may return fewer rows than requested when a response would be
+   * too large, so the next offset is always derived from the number of rows
+   * actually returned rather than from the requested `top`.
+   *
+   * @param tableId    - Table to query.
+   * @param options    - Query options. `skip` sets the starting offset; `top`
+   *   caps the number of rows returned when `maxRecords` is not given, and
+   *   otherwise the size of each individual request.
+   * @param maxRecords - Maximum number of rows to return across all pages
+   *   (default: `top`, else 1000).
+   */
+  async getRecordsPaginated(
+    tableId: string,
+    options: QueryOptions = {},
+    maxRecords = options.top ?? 1000
+  ): Promise<PaginatedRecords> {
+    return this.paginate(
+      (skip, top) => this.getRecordsPage(tableId, { ...options, skip, top }),
+      options.skip ?? 0,
+      options.top,
+      maxRecords
+    );
+  }
+
+  /**
+   * Shared paging loop for record queries and report runs: fetch pages from
+   * `skip` until `maxRecords` rows are collected or the source is exhausted.
+   */
+  private async paginate(
+    fetchPage: (skip: number, top: number) => Promise<RecordsPage>,
+    startSkip: number,
+    pageSize: number | undefined,
+    maxRecords: number
+  ): Promise<PaginatedRecords> {
+    const data: any[] = [];
+    let fields: RecordsPage['fields'] = [];
+    let totalRecords: number | undefined;
+    let skip = startSkip;
+    let exhausted = false;
+
+    while (data.length < maxRecords) {
+      const remaining = maxRecords - data.length;
+      const top = pageSize ? Math.min(pageSize, remaining) : remaining;
+      const page = await fetchPage(skip, top);
+
+      if (fields.length === 0) fields = page.fields;
+      if (typeof page.metadata.totalRecords === 'number') {
+        totalRecords = page.metadata.totalRecords;
+      }
+
+      const rows = page.data.slice(0, remaining);
+      data.push(...rows);
+      skip += rows.length;
+
+      if (rows.length === 0 || (totalRecords !== undefined && skip >= totalRecords)) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    const hasMore = totalRecords !== undefined ? skip < totalRecords : !exhausted;
+    return { data, fields, totalRecords, nextSkip: skip, hasMore };
+  }
+
+  /**
+   * Group and summarize every row matching `where`, paging through the table
+   * and folding each page into running totals.
+   *
+   * @param groupBy - Columns to group by (empty for a single overall group).
+   * @param metrics - Metrics to compute per group.
+   * @param options.maxRows - Stop after this many rows; `complete` is false when hit.
+   * @param options.maxGroups - Maximum number of groups to return.
+   */
+  async aggregateRecords(
+    tableId: string,
+    groupBy: GroupColumn[],
+    metrics: MetricColumn[],
+    options: { where?: string; maxRows?: number; maxGroups?: number } = {}
+  ): Promise<AggregateReport> {
+    const maxRows = options.maxRows ?? DEFAULT_MAX_AGGREGATE_ROWS;
+    const aggregator = new Aggregator(groupBy, metrics);
+    const fieldIds = [...groupBy.map(g => g.fieldId), ...metrics.flatMap(m => m.fieldId === undefined ? [] : [m.fieldId])];
+    const select = fieldIds.length > 0 ? [...new Set(fieldIds)] : [3];
+    let totalRecords: number | undefined;
+    let exhausted = false;
+
+    while (aggregator.rowCount < maxRows) {
+      const remaining = maxRows - aggregator.rowCount;
+      const page = await this.getRecordsPage(tableId, {
+        select,
+        where: options.where,
+        skip: aggregator.rowCount,
+        top: remaining
+      });
+      if (typeof page.metadata.totalRecords === 'number') {
+        totalRecords = page.metadata.totalRecords;
+      }
+      const rows = page.data.slice(0, remaining);
+      aggregator.add(rows);
+      if (rows.length === 0 || (totalRecords !== undefined && aggregator.rowCount >= totalRecords)) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    return {
+      rows: aggregator.result(options.maxGroups),
+      groupCount: aggregator.groupCount,
+      rowsScanned: aggregator.rowCount,
+      totalRecords,
+      complete: exhausted
+    };
   }
 
   async getRecord(tableId: string, recordId: number, fieldIds?: number[]): Promise<any> {
@@ -263,6 +603,7 @@ export class QuickBaseClient {
    * @returns The new record ID, or `null` if the QuickBase API did not return one.
    */
   async createRecord(tableId: string, record: QuickBaseRecord): Promise<number | null> {
+    await this.checkFieldWrites(tableId, [record.fields]);
     const response = await this.axios.post('/records', {
       to: tableId,
       data: [{
@@ -273,56 +614,114 @@ export class QuickBaseClient {
     return ids.length > 0 ? ids[0] : null;
   }
 
+  /** Create records in size-aware chunks. See `writeRecordsChunked`. */
+  async createRecords(
+    tableId: string,
+    records: QuickBaseRecord[],
+    options?: ChunkedWriteOptions
+  ): Promise<ChunkedWriteReport> {
+    return this.writeRecordsChunked(tableId, records.map(record => record.fields), options);
+  }
+
   /**
-   * Create multiple records in a single API call.
-   * @returns Array of new record IDs (may be empty if the API does not return them).
+   * Update one record. With an undo journal set, the updated fields are
+   * snapshotted first and the returned operation ID can be passed to
+   * `undoOperation` to put them back.
    */
-  async createRecords(tableId: string, records: QuickBaseRecord[]): Promise<number[]> {
+  async updateRecord(tableId: string, recordId: number, updates: Record<string, any>): Promise<string | undefined> {
+    await this.checkFieldWrites(tableId, [updates]);
+    const before = this.undoJournal
+      ? await this.getRecord(tableId, recordId, [...new Set([2, ...Object.keys(updates).map(Number)])])
+      : null;
     const response = await this.axios.post('/records', {
-      to: tableId,
-      data: records.map(record => record.fields)
-    });
-    const ids = QuickBaseClient.extractCreatedRecordIds(response.data);
-    return ids;
-  }
-
-  async updateRecord(tableId: string, recordId: number, updates: Record<string, any>): Promise<void> {
-    await this.axios.post('/records', {
       to: tableId,
       data: [{
         '3': { value: recordId }, // Record ID field
         ...updates
-      }]
+      }],
+      // Date Modified after the write lets undo detect later changes.
+      ...(before ? { fieldsToReturn: [2] } : {})
     });
+    if (!before) return undefined;
+    return this.journal(tableId, 'update', [{
+      recordId,
+      fields: Object.fromEntries(Object.keys(updates).map(id => [id, before[id] ?? { value: null }])),
+      modifiedAfter: response?.data?.data?.[0]?.['2']?.value,
+      written: updates
+    }]);
   }
 
-  async updateRecords(tableId: string, records: Array<{ recordId: number; updates: Record<string, any> }>): Promise<void> {
-    await this.axios.post('/records', {
-      to: tableId,
-      data: records.map(({ recordId, updates }) => ({
-        '3': { value: recordId },
-        ...updates
-      }))
-    });
+  /** Update records in size-aware chunks. See `writeRecordsChunked`. */
+  async updateRecords(
+    tableId: string,
+    records: Array<{ recordId: number; updates: Record<string, any> }>,
+    options?: ChunkedWriteOptions
+  ): Promise<ChunkedWriteReport> {
+    return this.writeRecordsChunked(
+      tableId,
+      records.map(({ recordId, updates }) => ({ '3': { value: recordId }, ...updates })),
+      options
+    );
   }
 
-  async deleteRecord(tableId: string, recordId: number): Promise<void> {
+  /**
+   * Delete one record. With an undo journal set, every field of the record is
+   * snapshotted first and the returned operation ID can be used to re-create it.
+   */
+  async deleteRecord(tableId: string, recordId: number): Promise<string | undefined> {
+    const before = this.undoJournal
+      ? await this.getRecord(tableId, recordId, (await this.getTableFields(tableId)).map((f: any) => f.id))
+      : null;
     await this.axios.delete('/records', {
       data: {
         from: tableId,
         where: `{3.EX.${recordId}}`
       }
     });
+    if (!before) return undefined;
+    return this.journal(tableId, 'delete', [{ recordId, fields: before }]);
   }
 
-  async deleteRecords(tableId: string, recordIds: number[]): Promise<void> {
+  /**
+   * Write an undo journal entry. The change itself has already been made, so
+   * a journal failure is logged rather than reported as a failed write.
+   */
+  private async journal(tableId: string, action: UndoOperation['action'], records: UndoSnapshot[]): Promise<string | undefined> {
+    const operationId = newOperationId();
+    try {
+      await this.undoJournal!.record({
+        operationId,
+        appId: this.config.appId,
+        tableId,
+        action,
+        timestamp: new Date().toISOString(),
+        records
+      });
+      return operationId;
+    } catch (error) {
+      console.error(`Could not write undo journal entry for ${action} in table ${tableId}: ${formatErrorForLog(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete multiple records by Record ID.
+   * @returns The number of records QuickBase reports as deleted.
+   */
+  async deleteRecords(tableId: string, recordIds: number[]): Promise<number> {
     const whereClause = recordIds.map(id => `{3.EX.${id}}`).join('OR');
-    await this.axios.delete('/records', {
+    return this.deleteRecordsWhere(tableId, whereClause);
+  }
+
+  /** Delete every record matching a QuickBase `where` clause. @returns number deleted. */
+  async deleteRecordsWhere(tableId: string, where: string): Promise<number> {
+    const response = await this.axios.delete('/records', {
       data: {
         from: tableId,
-        where: whereClause
+        where
       }
     });
+    return Number(response?.data?.numberDeleted ?? 0);
   }
 
   // ========== RELATIONSHIP METHODS ==========
@@ -332,6 +731,7 @@ export class QuickBaseClient {
       parentTableId,
       foreignKeyFieldId
     });
+    this.schemaCache.invalidateTable(childTableId);
   }
 
   async getRelationships(tableId: string): Promise<any[]> {
@@ -404,6 +804,7 @@ export class QuickBaseClient {
         }
       }
     });
+    this.schemaCache.invalidateTable(childTableId);
     return response.data.id;
   }
 
@@ -586,14 +987,71 @@ export class QuickBaseClient {
     return response.data;
   }
 
-  async runReport(reportId: string, tableId: string): Promise<any[]> {
-    const response = await this.axios.post('/records/query', {
-      from: tableId,
-      options: {
-        reportId
-      }
-    });
-    return response.data.data;
+  /**
+   * Find a table's report by ID or by name. Names are matched exactly first,
+   * then case-insensitively.
+   *
+   * @throws {McpError} InvalidParams when no report, or more than one, matches.
+   */
+  async findReport(tableId: string, idOrName: string): Promise<ReportSummary> {
+    const reports: ReportSummary[] = await this.getReports(tableId);
+    const byId = reports.filter(r => String(r.id) === idOrName);
+    const exact = reports.filter(r => r.name === idOrName);
+    const loose = reports.filter(r => r.name?.toLowerCase() === idOrName.toLowerCase());
+    const matches = [byId, exact, loose].find(m => m.length > 0) ?? [];
+
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Report name "${idOrName}" matches ${matches.length} reports (IDs ${matches.map(r => r.id).join(', ')}); use reportId instead.`
+      );
+    }
+    const available = reports.slice(0, 20).map(r => `"${r.name}" (${r.id})`).join(', ');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No report named "${idOrName}" in table ${tableId}. Available reports: ${available || 'none'}.`
+    );
+  }
+
+  /**
+   * Run one page of a saved report with `POST /reports/{id}/run`. QuickBase
+   * applies the report's own filter, columns and sort order; the page carries
+   * the report's field list and paging `metadata`.
+   */
+  async runReportPage(
+    reportId: string,
+    tableId: string,
+    options: { skip?: number; top?: number } = {}
+  ): Promise<RecordsPage> {
+    const params: Record<string, unknown> = { tableId };
+    if (options.skip) params.skip = options.skip;
+    if (options.top) params.top = options.top;
+
+    const response = await this.axios.post(`/reports/${encodeURIComponent(reportId)}/run`, {}, { params });
+    return {
+      data: response.data?.data ?? [],
+      fields: response.data?.fields ?? [],
+      metadata: response.data?.metadata ?? {}
+    };
+  }
+
+  /**
+   * Run a saved report across multiple pages, following `skip` until
+   * `maxRecords` rows have been collected or the report is exhausted. As with
+   * {@link getRecordsPaginated}, `top` alone caps the rows returned.
+   */
+  async runReport(
+    reportId: string,
+    tableId: string,
+    options: { skip?: number; top?: number; maxRecords?: number } = {}
+  ): Promise<PaginatedRecords> {
+    return this.paginate(
+      (skip, top) => this.runReportPage(reportId, tableId, { skip, top }),
+      options.skip ?? 0,
+      options.top,
+      options.maxRecords ?? options.top ?? 1000
+    );
   }
 
   // ========== UTILITY METHODS ==========
@@ -620,18 +1078,15 @@ export class QuickBaseClient {
    *   which are the first two custom text fields in a *default* QuickBase table layout.
    *   For tables with a different schema this default may miss records or search the wrong fields;
    *   always supply explicit `fieldIds` for anything other than a brand-new default table.
+   * @param where      - Optional extra clause ANDed with the search condition.
    */
-  async searchRecords(tableId: string, searchTerm: string, fieldIds?: number[]): Promise<any[]> {
-    const sanitizedSearchTerm = String(searchTerm)
-      .slice(0, 200)
-      .replace(/[\r\n]/g, ' ')
-      .replace(/'/g, "\\'");
-
-    const whereClause = fieldIds 
-      ? fieldIds.map(fieldId => `{${fieldId}.CT.'${sanitizedSearchTerm}'}`).join('OR')
-      : `{6.CT.'${sanitizedSearchTerm}'}OR{7.CT.'${sanitizedSearchTerm}'}`; // Common text fields
+  async searchRecords(tableId: string, searchTerm: string, fieldIds?: number[], where?: string): Promise<any[]> {
+    const term = String(searchTerm).slice(0, 200);
+    const searchClause = compileFilter({
+      or: (fieldIds ?? [6, 7]).map(field => ({ field, op: 'CT' as const, value: term }))
+    });
 
-    return this.getRecords(tableId, { where: whereClause });
+    return this.getRecords(tableId, { where: combineWhere(searchClause, where) });
   }
 
   // ========== BULK OPERATIONS ==========
@@ -656,20 +1111,128 @@ export class QuickBaseClient {
    *   All records must share the same merge field; QuickBase does not support per-record
    *   merge fields within a single batch request.
    * @param records      - Array of records to upsert.
+   * @returns Per-record outcome (created, updated, unchanged or error) built from
+   *   the response `metadata` block.
    */
   async upsertRecords(
     tableId: string,
     mergeFieldId: number,
     records: Array<{ keyValue: unknown; data: Record<string, unknown> }>
-  ): Promise<any> {
-    return await this.axios.post('/records', {
+  ): Promise<RecordWriteResult> {
+    await this.checkFieldWrites(tableId, records.map(({ data }) => ({ [mergeFieldId]: null, ...data })));
+    const response = await this.axios.post('/records', {
       to: tableId,
       data: records.map(({ keyValue, data }) => ({
         [mergeFieldId]: { value: keyValue },
         ...data
       })),
+      mergeFieldId,
+      fieldsToReturn: [3]
+    });
+    return QuickBaseClient.summarizeWriteResponse(response?.data, records.length);
+  }
+
+  /**
+   * Write an arbitrarily large batch of rows via `POST /records`, split into
+   * chunks that stay under QuickBase's per-request row and payload limits.
+   *
+   * Chunks run through `pLimit` with a small concurrency. A chunk that fails is
+   * recorded in the report and the remaining chunks still run, so callers get a
+   * partial-success report rather than an exception part-way through the batch.
+   *
+   * @param rows - Field maps in QuickBase `{ fid: { value } }` form. Include
+   *   field 3 to update existing records, or pass `mergeFieldId` to upsert.
+   */
+  async writeRecordsChunked(
+    tableId: string,
+    rows: Array<Record<string, unknown>>,
+    options: ChunkedWriteOptions = {}
+  ): Promise<ChunkedWriteReport> {
+    const {
+      maxRecordsPerChunk = DEFAULT_MAX_RECORDS_PER_CHUNK,
+      maxBytesPerChunk = DEFAULT_MAX_BYTES_PER_CHUNK,
+      concurrency = DEFAULT_WRITE_CONCURRENCY,
       mergeFieldId
+    } = options;
+
+    // Checked for the whole batch up front, so a refused field writes no chunk at all.
+    await this.checkFieldWrites(tableId, rows);
+    const chunks = chunkRows(rows, maxRecordsPerChunk, maxBytesPerChunk);
+    const report: ChunkedWriteReport = {
+      totalRecords: rows.length,
+      chunkCount: chunks.length,
+      succeeded: 0,
+      failed: 0,
+      createdRecordIds: [],
+      updatedRecordIds: [],
+      unchangedRecordIds: [],
+      lineErrors: {},
+      failedChunks: []
+    };
+
+    const outcomes = await pLimit(concurrency, chunks.map((chunk) => async () => {
+      try {
+        const response = await this.axios.post('/records', {
+          to: tableId,
+          data: chunk.rows,
+          ...(mergeFieldId !== undefined ? { mergeFieldId } : {}),
+          fieldsToReturn: [3]
+        });
+        return { chunk, data: response?.data, error: undefined };
+      } catch (error) {
+        return { chunk, data: undefined, error: formatErrorForLog(error) };
+      }
+    }));
+
+    // Aggregate in input order so record IDs and line numbers stay stable
+    // regardless of the order in which concurrent chunks completed.
+    outcomes.forEach(({ chunk, data, error }, index) => {
+      if (error !== undefined) {
+        report.failed += chunk.rows.length;
+        report.failedChunks.push({
+          chunk: index + 1,
+          firstLine: chunk.start + 1,
+          recordCount: chunk.rows.length,
+          error
+        });
+        return;
+      }
+
+      const summary = QuickBaseClient.summarizeWriteResponse(data, chunk.rows.length);
+      // Prefer the explicit metadata list: the field-3 fallback in
+      // extractCreatedRecordIds would also pick up IDs of updated rows.
+      report.createdRecordIds.push(...(
+        Array.isArray(data?.metadata?.createdRecordIds)
+          ? summary.createdRecordIds
+          : QuickBaseClient.extractCreatedRecordIds(data)
+      ));
+      report.updatedRecordIds.push(...summary.updatedRecordIds);
+      report.unchangedRecordIds.push(...summary.unchangedRecordIds);
+
+      let chunkErrors = 0;
+      for (const [line, errors] of Object.entries(summary.lineErrors)) {
+        report.lineErrors[String(chunk.start + Number(line))] = errors;
+        chunkErrors++;
+      }
+      report.failed += chunkErrors;
+      report.succeeded += chunk.rows.length - chunkErrors;
     });
+
+    return report;
+  }
+
+  /** Insert-or-update records on `mergeFieldId` in size-aware chunks. See `upsertRecords` and `writeRecordsChunked`. */
+  async upsertRecordsChunked(
+    tableId: string,
+    mergeFieldId: number,
+    records: Array<{ keyValue: unknown; data: Record<string, unknown> }>,
+    options?: ChunkedWriteOptions
+  ): Promise<ChunkedWriteReport> {
+    return this.writeRecordsChunked(
+      tableId,
+      records.map(({ keyValue, data }) => ({ [mergeFieldId]: { value: keyValue }, ...data })),
+      { ...options, mergeFieldId }
+    );
   }
 
   // ========== WEBHOOK METHODS ==========
@@ -734,6 +1297,12 @@ export class QuickBaseClient {
     }
   }
 
+  /** Every webhook and email-notification event in the app (`GET /apps/{appId}/events`). */
+  async getAppEvents(): Promise<any[]> {
+    const response = await this.axios.get(`/apps/${this.config.appId}/events`);
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
   /**
    * List all webhooks in the app, optionally filtered to a specific table.
    *
@@ -743,8 +1312,7 @@ export class QuickBaseClient {
    */
   async listWebhooks(tableId?: string): Promise<any[]> {
     try {
-      const response = await this.axios.get(`/apps/${this.config.appId}/events`);
-      const events: any[] = Array.isArray(response.data) ? response.data : [];
+      const events = await this.getAppEvents();
       const webhooks = events.filter((e: any) => e.type === 'webhook');
       // Note: the REST /events endpoint does not expose webhook URL, HTTP verb,
       // trigger event, or message format. These fields are not available via any
@@ -868,8 +1436,7 @@ export class QuickBaseClient {
    */
   async listNotifications(tableId?: string): Promise<any[]> {
     try {
-      const response = await this.axios.get(`/apps/${this.config.appId}/events`);
-      const events: any[] = Array.isArray(response.data) ? response.data : [];
+      const events = await this.getAppEvents();
       return events.filter((e: any) => e.type === 'email-notification');
     } catch (error) {
       console.error(`Error listing notifications: ${formatErrorForLog(error)}`);
@@ -967,23 +1534,43 @@ export class QuickBaseClient {
    *
    * The legacy API lives at `https://{realm}/db/{tableId}?a={action}` — a completely
    * different hostname and path from the REST API at `https://api.quickbase.com/v1`.
-   * Authentication is supplied via `<usertoken>` inside the XML body.
+   * Authentication is supplied via `<usertoken>` (and `<apptoken>` when the
+   * app has one) inside the XML body; temporary tokens do not apply here. As on
+   * the REST path, a 401 is retried once with a refreshed token, and the token
+   * is scrubbed from the body of a failed request before the error is thrown.
    *
    * @param tableId - The QuickBase table ID (dbid).
    * @param action  - The XML API action name, e.g. `API_Webhooks_Create`.
-   * @param inner   - Additional XML elements to embed after `<usertoken>`.
+   * @param inner   - Additional XML elements to embed after the tokens.
    * @returns Parsed response data from QuickBase.
    */
   private async callLegacyXmlApi(tableId: string, action: string, inner = ''): Promise<any> {
     const url = `https://${this.config.realm}/db/${tableId}?a=${action}`;
-    const body = this.buildXmlBody(
-      `\n  <usertoken>${this.escapeXml(this.config.userToken)}</usertoken>${inner}`
+    const appToken = (value: string) => (this.config.appToken ? `\n  <apptoken>${value}</apptoken>` : '');
+    if (this.dryRun) {
+      this.dryRun.recordXml(url, this.buildXmlBody(`\n  <usertoken>[REDACTED]</usertoken>${appToken('[REDACTED]')}${inner}`));
+      return {};
+    }
+    const post = (token: string) => axios.post(
+      url,
+      this.buildXmlBody(
+        `\n  <usertoken>${this.escapeXml(token)}</usertoken>${appToken(this.escapeXml(this.config.appToken ?? ''))}${inner}`
+      ),
+      { headers: { 'Content-Type': 'application/xml' }, timeout: this.config.timeout }
     );
-    const response = await axios.post(url, body, {
-      headers: { 'Content-Type': 'application/xml' },
-      timeout: this.config.timeout
-    });
-    return response.data;
+    const token = await this.credentials.getToken();
+    try {
+      return (await post(token)).data;
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) throw scrubCredentials(error);
+      const refreshed = await this.credentials.refresh(token);
+      if (refreshed === token) throw scrubCredentials(error);
+      try {
+        return (await post(refreshed)).data;
+      } catch (retryError) {
+        throw scrubCredentials(retryError);
+      }
+    }
   }
 
   /**
@@ -1028,6 +1615,37 @@ export class QuickBaseClient {
     this.relayClient = relay;
   }
 
+  /** Snapshot records into `journal` before `updateRecord` and `deleteRecord` change them. */
+  setUndoJournal(journal: UndoJournal): void {
+    this.undoJournal = journal;
+  }
+
+  /**
+   * Make this a dry-run client: reads still go to QuickBase, but writes
+   * (REST and legacy XML) are recorded by `recorder` instead of being sent.
+   * Use a fresh client per dry run; it is not meant to be switched back.
+   */
+  setDryRunRecorder(recorder: DryRunRecorder): void {
+    this.dryRun = recorder;
+    this.axios = recorder.wrap(this.axios);
+  }
+
+  /**
+   * Call `guard` with the table and field IDs before every record write; it
+   * throws to refuse the write. Used to enforce read-only fields from the
+   * policy file.
+   */
+  setFieldWriteGuard(guard: (tableId: string, fieldIds: number[]) => Promise<void>): void {
+    this.fieldWriteGuard = guard;
+  }
+
+  // Field 3 in a row only says which record to update, so it is not a write.
+  private async checkFieldWrites(tableId: string, rows: Array<Record<string, unknown>>): Promise<void> {
+    if (!this.fieldWriteGuard) return;
+    const fieldIds = new Set(rows.flatMap(row => Object.keys(row)).filter(key => key !== '3').map(Number));
+    if (fieldIds.size > 0) await this.fieldWriteGuard(tableId, [...fieldIds]);
+  }
+
   private requireRelay(): RelayClient {
     if (!this.relayClient) {
       throw new Error('Pipeline relay client is not configured. Ensure the relay server started successfully.');
@@ -1345,6 +1963,37 @@ async function pLimit<T>(limit: number, tasks: Array<() => Promise<T>>): Promise
   return results;
 }
 
+/**
+ * Split rows into consecutive chunks bounded by row count and serialized size.
+ * A single row larger than `maxBytes` is placed in a chunk of its own so the
+ * API can reject it without taking neighbouring rows down with it.
+ */
+function chunkRows<T>(
+  rows: T[],
+  maxRecords: number,
+  maxBytes: number
+): Array<{ start: number; rows: T[] }> {
+  const chunks: Array<{ start: number; rows: T[] }> = [];
+  let current: T[] = [];
+  let currentBytes = 2; // surrounding "[]"
+  let start = 0;
+
+  rows.forEach((row, index) => {
+    const rowBytes = Buffer.byteLength(JSON.stringify(row), 'utf8') + 1; // trailing comma
+    if (current.length > 0 && (current.length >= maxRecords || currentBytes + rowBytes > maxBytes)) {
+      chunks.push({ start, rows: current });
+      current = [];
+      currentBytes = 2;
+      start = index;
+    }
+    current.push(row);
+    currentBytes += rowBytes;
+  });
+
+  if (current.length > 0) chunks.push({ start, rows: current });
+  return chunks;
+}
+
 /**
  * Extract a concise trigger summary from the raw pipeline designer tree.
  * The QB pipeline tree stores trigger info in various shapes depending on
@@ -0,0 +1,241 @@
+import { exec } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import axios from 'axios';
+import type { TokenSource } from '../types/quickbase.js';
+
+// Tokens with an expiry are fetched again this long before it, so a request
+// never leaves with a token that expires in flight.
+const EXPIRY_MARGIN_MS = 60_000;
+const DEFAULT_COMMAND_TIMEOUT_MS = 30_000;
+/** QuickBase temporary tokens are valid for five minutes. */
+export const TEMP_TOKEN_LIFETIME_MS = 5 * 60 * 1000;
+
+/**
+ * Supplies the user token a client authenticates with. Tokens are cached;
+ * after QuickBase rejects one with a 401 the client calls `refresh` with it
+ * and retries once if the token changed.
+ */
+export interface CredentialProvider {
+  /** Where the token comes from, for messages. Never contains the token. */
+  readonly description: string;
+  getToken(): Promise<string>;
+  /**
+   * Fetch the token again. When `rejected` is given and a different token has
+   * already replaced it (a concurrent refresh), that token is returned as is.
+   */
+  refresh(rejected?: string): Promise<string>;
+}
+
+interface FetchedToken {
+  token: string;
+  /** Epoch milliseconds; absent when the token does not expire. */
+  expiresAt?: number;
+}
+
+/** Caching and refresh shared by the providers; subclasses only fetch. */
+abstract class CachedCredentialProvider implements CredentialProvider {
+  abstract readonly description: string;
+  private cached: FetchedToken | undefined;
+  private pending: Promise<string> | undefined;
+
+  protected abstract fetchToken(): Promise<FetchedToken>;
+
+  async getToken(): Promise<string> {
+    const cached = this.cached;
+    if (cached && (cached.expiresAt === undefined || Date.now() < cached.expiresAt - EXPIRY_MARGIN_MS)) {
+      return cached.token;
+    }
+    return this.refresh();
+  }
+
+  refresh(rejected?: string): Promise<string> {
+    if (rejected !== undefined && this.cached && this.cached.token !== rejected) {
+      return Promise.resolve(this.cached.token);
+    }
+    this.pending ??= this.fetchToken()
+      .then(fetched => {
+        const token = fetched.token.trim();
+        if (!token) throw new Error(`The ${this.description} gave an empty user token.`);
+        this.cached = { ...fetched, token };
+        return token;
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+    return this.pending;
+  }
+}
+
+/** A fixed token, for clients built from a plain `userToken`. It cannot be refreshed. */
+export class StaticCredentialProvider implements CredentialProvider {
+  readonly description = 'the client configuration';
+
+  constructor(private readonly token: string) {}
+
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  async refresh(): Promise<string> {
+    return this.token;
+  }
+}
+
+/** Reads an environment variable on every fetch, so a refresh sees a changed value. */
+export class EnvCredentialProvider extends CachedCredentialProvider {
+  readonly description: string;
+
+  constructor(private readonly variable: string) {
+    super();
+    this.description = `environment variable ${variable}`;
+  }
+
+  protected async fetchToken(): Promise<FetchedToken> {
+    const token = process.env[this.variable];
+    if (!token?.trim()) throw new Error(`${this.variable} is not set.`);
+    return { token };
+  }
+}
+
+/** Reads a file such as a Docker secret (`/run/secrets/...`); surrounding whitespace is ignored. */
+export class FileCredentialProvider extends CachedCredentialProvider {
+  readonly description: string;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.description = `file ${filePath}`;
+  }
+
+  protected async fetchToken(): Promise<FetchedToken> {
+    try {
+      return { token: await fs.readFile(this.filePath, 'utf8') };
+    } catch (error) {
+      throw new Error(`Cannot read user token file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Runs a command through the platform shell (`/bin/sh` or `cmd.exe`) and uses
+ * its standard output, e.g. `op read op://vault/quickbase/token`. The command
+ * and its output are kept out of error messages, since either may hold a secret.
+ */
+export class CommandCredentialProvider extends CachedCredentialProvider {
+  readonly description: string;
+
+  constructor(private readonly command: string, setting: string, private readonly timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS) {
+    super();
+    this.description = `command from ${setting}`;
+  }
+
+  protected fetchToken(): Promise<FetchedToken> {
+    return new Promise((resolve, reject) => {
+      exec(this.command, { timeout: this.timeoutMs, windowsHide: true }, (error, stdout) => {
+        if (!error) {
+          resolve({ token: stdout });
+        } else if (error.killed) {
+          reject(new Error(`The user token ${this.description} timed out after ${this.timeoutMs} ms.`));
+        } else {
+          reject(new Error(`The user token ${this.description} failed with exit code ${error.code ?? 'unknown'}.`));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Exchanges for a short-lived user token at an HTTP endpoint (a secrets
+ * broker or identity service). The endpoint receives `POST {"realm": ...}`,
+ * with `authorization` as the Authorization header when given, and answers
+ * `{"token": "...", "expiresIn": <seconds>}`; `expiresIn` is optional.
+ */
+export class ExchangeCredentialProvider extends CachedCredentialProvider {
+  readonly description: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly realm: string,
+    private readonly authorization?: string,
+    private readonly timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS
+  ) {
+    super();
+    // The query string may carry a key, so it is left out.
+    this.description = `token exchange ${url.split('?')[0]}`;
+  }
+
+  protected async fetchToken(): Promise<FetchedToken> {
+    let data: any;
+    try {
+      const response = await axios.post(this.url, { realm: this.realm }, {
+        headers: this.authorization ? { Authorization: this.authorization } : {},
+        timeout: this.timeoutMs
+      });
+      data = response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new Error(`The ${this.description} failed${status ? ` with HTTP ${status}` : ''}.`);
+    }
+    if (typeof data?.token !== 'string') {
+      throw new Error(`The ${this.description} answered without a "token" string.`);
+    }
+    const expiresIn = Number(data.expiresIn);
+    return {
+      token: data.token,
+      expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined
+    };
+  }
+}
+
+/**
+ * Temporary tokens per dbid (table or app ID), fetched with `fetchToken` and
+ * reused until shortly before they expire. Concurrent requests for the same
+ * dbid share one fetch.
+ */
+export class TemporaryTokenCache {
+  private readonly tokens = new Map<string, FetchedToken & { expiresAt: number }>();
+  private readonly pending = new Map<string, Promise<string>>();
+
+  constructor(
+    private readonly fetchToken: (dbid: string) => Promise<string>,
+    private readonly lifetimeMs = TEMP_TOKEN_LIFETIME_MS
+  ) {}
+
+  get(dbid: string): Promise<string> {
+    const cached = this.tokens.get(dbid);
+    if (cached && Date.now() < cached.expiresAt - EXPIRY_MARGIN_MS) return Promise.resolve(cached.token);
+    let fetching = this.pending.get(dbid);
+    if (!fetching) {
+      const requestedAt = Date.now();
+      fetching = this.fetchToken(dbid)
+        .then(token => {
+          this.tokens.set(dbid, { token, expiresAt: requestedAt + this.lifetimeMs });
+          return token;
+        })
+        .finally(() => this.pending.delete(dbid));
+      this.pending.set(dbid, fetching);
+    }
+    return fetching;
+  }
+
+  /** Forget the token for `dbid` (after QuickBase rejected it) unless it was already replaced. */
+  invalidate(dbid: string, rejected: string): void {
+    if (this.tokens.get(dbid)?.token === rejected) this.tokens.delete(dbid);
+  }
+}
+
+/**
+ * The provider for a token source. Exchanges send QB_USER_TOKEN_EXCHANGE_AUTH,
+ * when set, as their Authorization header.
+ */
+export function createCredentialProvider(source: TokenSource, realm: string): CredentialProvider {
+  switch (source.kind) {
+    case 'env':
+      return new EnvCredentialProvider(source.value);
+    case 'file':
+      return new FileCredentialProvider(source.value);
+    case 'command':
+      return new CommandCredentialProvider(source.value, source.setting);
+    case 'exchange':
+      return new ExchangeCredentialProvider(source.value, realm, (process.env.QB_USER_TOKEN_EXCHANGE_AUTH ?? '').trim() || undefined);
+  }
+}
@@ -0,0 +1,167 @@
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/** A write a dry run rendered instead of sending. */
+export interface DryRunRequest {
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  params?: unknown;
+  body: unknown;
+  /** Rows left out of `body.data` to keep the rendering readable. */
+  omittedRows?: number;
+}
+
+/** Records a write would touch, per table and kind of operation. */
+export interface DryRunAffectedRecords {
+  tableId: string;
+  operation: 'create' | 'update' | 'upsert' | 'delete';
+  /** Rows sent for writes; records currently matching the `where` clause for deletes. */
+  count: number;
+  /** Up to {@link DRY_RUN_SAMPLE_SIZE} record IDs: the records updated, or the first matches of a delete. */
+  sample: number[];
+  where?: string;
+}
+
+/** Record IDs listed per affected-records entry. */
+export const DRY_RUN_SAMPLE_SIZE = 10;
+
+/** Rows of a `POST /records` body shown in a rendered request. */
+const MAX_RENDERED_ROWS = 20;
+
+/** Tables created during a dry run get IDs with this prefix; fields get negative IDs. */
+const PLACEHOLDER_TABLE_PREFIX = 'dryrun_table_';
+
+// POST endpoints that only read, so a dry run still sends them.
+const READ_ENDPOINTS = [/^\/records\/query$/, /^\/reports\/[^/]+\/run$/];
+
+const EMPTY_WRITE_RESPONSE = {
+  data: [],
+  metadata: { createdRecordIds: [], updatedRecordIds: [], unchangedRecordIds: [], lineErrors: {}, totalNumberOfRecordsProcessed: 0 }
+};
+
+function respond(data: unknown): AxiosResponse {
+  return { data, status: 200, statusText: 'OK (dry run)', headers: {}, config: {} as any };
+}
+
+/**
+ * Collects the writes of one dry-run tool call.
+ *
+ * {@link wrap} returns an axios instance that sends reads as usual but records
+ * writes and answers them with placeholder responses, so a tool runs its
+ * normal code path (including validation against the live schema) without
+ * changing anything. Deletes by `where` are resolved to the records that
+ * currently match. Tables and fields "created" earlier in the run show up in
+ * later schema reads, so multi-step tools can resolve them.
+ */
+export class DryRunRecorder {
+  readonly requests: DryRunRequest[] = [];
+  readonly affectedRecords: DryRunAffectedRecords[] = [];
+  private readonly createdTables: Array<{ id: string; name: string }> = [];
+  private readonly createdFields = new Map<string, any[]>();
+  private nextId = 1;
+
+  wrap(http: AxiosInstance): AxiosInstance {
+    // Callable like an axios instance, since the client's retry interceptor re-sends through it.
+    const wrapped = Object.setPrototypeOf((config: AxiosRequestConfig) => http(config), http) as AxiosInstance;
+    const isRead = (url: string) => READ_ENDPOINTS.some(pattern => pattern.test(url));
+    wrapped.get = ((url: string, config?: AxiosRequestConfig) => this.read(http, url, config)) as AxiosInstance['get'];
+    wrapped.post = ((url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      isRead(url) ? http.post(url, data, config) : this.write(http, 'POST', url, data, config)) as AxiosInstance['post'];
+    wrapped.put = ((url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      this.write(http, 'PUT', url, data, config)) as AxiosInstance['put'];
+    wrapped.patch = ((url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      this.write(http, 'PATCH', url, data, config)) as AxiosInstance['patch'];
+    wrapped.delete = ((url: string, config?: AxiosRequestConfig) =>
+      this.write(http, 'DELETE', url, config?.data, config)) as AxiosInstance['delete'];
+    return wrapped;
+  }
+
+  /** Record a legacy XML API call. The caller must mask the user token in `body`. */
+  recordXml(url: string, body: string): void {
+    this.requests.push({ method: 'POST', url, body });
+  }
+
+  private isPlaceholder(tableId: unknown): boolean {
+    return typeof tableId === 'string' && tableId.startsWith(PLACEHOLDER_TABLE_PREFIX);
+  }
+
+  private async read(http: AxiosInstance, url: string, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+    const tableId = config?.params?.tableId;
+    if (url === '/fields' && typeof tableId === 'string') {
+      const live = this.isPlaceholder(tableId) ? [] : (await http.get(url, config)).data ?? [];
+      return respond([...live, ...(this.createdFields.get(tableId) ?? [])]);
+    }
+    if (url === '/tables') {
+      return respond([...((await http.get(url, config)).data ?? []), ...this.createdTables]);
+    }
+    if (url.includes(PLACEHOLDER_TABLE_PREFIX)) {
+      return respond(url.endsWith('/relationship') ? [] : {});
+    }
+    return http.get(url, config);
+  }
+
+  private async write(
+    http: AxiosInstance,
+    method: DryRunRequest['method'],
+    url: string,
+    body: any,
+    config?: AxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    const rows: unknown[] | undefined = url === '/records' && Array.isArray(body?.data) ? body.data : undefined;
+    this.requests.push({
+      method,
+      url,
+      ...(config?.params ? { params: config.params } : {}),
+      body: rows && rows.length > MAX_RENDERED_ROWS ? { ...body, data: rows.slice(0, MAX_RENDERED_ROWS) } : body,
+      ...(rows && rows.length > MAX_RENDERED_ROWS ? { omittedRows: rows.length - MAX_RENDERED_ROWS } : {})
+    });
+
+    if (method === 'POST' && url === '/tables') {
+      const id = `${PLACEHOLDER_TABLE_PREFIX}${this.nextId++}`;
+      this.createdTables.push({ id, name: body?.name });
+      return respond({ id });
+    }
+    if (method === 'POST' && url === '/fields') {
+      const id = -this.nextId++;
+      const fields = this.createdFields.get(body?.tableId) ?? [];
+      fields.push({ id, label: body?.label, fieldType: body?.fieldType, ...(body?.properties ? { properties: body.properties } : {}) });
+      this.createdFields.set(body?.tableId, fields);
+      return respond({ id });
+    }
+    if (url === '/records' && method === 'DELETE') {
+      return respond({ numberDeleted: await this.resolveDelete(http, body?.from, body?.where) });
+    }
+    if (url === '/records' && rows) {
+      const recordIds = rows.map((row: any) => Number(row?.['3']?.value)).filter(Number.isFinite);
+      const operation = body.mergeFieldId !== undefined ? 'upsert' : recordIds.length > 0 ? 'update' : 'create';
+      this.addAffected({ tableId: body.to, operation, count: rows.length, sample: recordIds });
+      return respond(EMPTY_WRITE_RESPONSE);
+    }
+    return respond({});
+  }
+
+  // Count and sample the records a delete's where clause matches right now.
+  private async resolveDelete(http: AxiosInstance, tableId: string, where: string): Promise<number> {
+    let count = 0;
+    let sample: number[] = [];
+    if (!this.isPlaceholder(tableId)) {
+      const response = await http.post('/records/query', { from: tableId, where, select: [3], top: DRY_RUN_SAMPLE_SIZE });
+      const rows: any[] = response.data?.data ?? [];
+      count = Number(response.data?.metadata?.totalRecords ?? rows.length);
+      sample = rows.map(row => Number(row?.['3']?.value)).filter(Number.isFinite);
+    }
+    this.addAffected({ tableId, operation: 'delete', where, count, sample });
+    return count;
+  }
+
+  // Chunked writes to one table add up into a single entry.
+  private addAffected(entry: DryRunAffectedRecords): void {
+    const existing = this.affectedRecords.find(e =>
+      e.tableId === entry.tableId && e.operation === entry.operation && e.where === entry.where);
+    if (existing && entry.operation !== 'delete') {
+      existing.count += entry.count;
+      existing.sample = [...existing.sample, ...entry.sample].slice(0, DRY_RUN_SAMPLE_SIZE);
+      return;
+    }
+    this.affectedRecords.push({ ...entry, sample: entry.sample.slice(0, DRY_RUN_SAMPLE_SIZE) });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Time-bounded cache for QuickBase schema metadata (table list, table info,
+ * field lists). One instance is owned by each QuickBaseClient, so entries are
+ * scoped to a single app.
+ *
+ * Entries hold the in-flight promise rather than the resolved value, so
+ * concurrent callers asking for the same key share one request. A rejected
+ * load is evicted immediately and never cached.
+ */
+export class SchemaCache {
+  private entries = new Map<string, { expiresAt: number; value: Promise<any> }>();
+
+  /**
+   * @param ttlMs - Lifetime of an entry in milliseconds. `0` disables caching.
+   * @param now - Clock source; injectable for tests.
+   */
+  constructor(private readonly ttlMs: number, private readonly now: () => number = Date.now) {}
+
+  static tablesKey(): string {
+    return 'tables';
+  }
+
+  static tableKey(tableId: string): string {
+    return `table:${tableId}`;
+  }
+
+  static fieldsKey(tableId: string): string {
+    return `fields:${tableId}`;
+  }
+
+  /** Return the cached value for `key`, calling `load` when it is missing or expired. */
+  get<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) return load();
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.now()) return entry.value;
+
+    const value = load();
+    this.entries.set(key, { expiresAt: this.now() + this.ttlMs, value });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) this.entries.delete(key);
+    });
+    return value;
+  }
+
+  /** Drop the table info and field list cached for one table. */
+  invalidateTable(tableId: string): void {
+    this.entries.delete(SchemaCache.tableKey(tableId));
+    this.entries.delete(SchemaCache.fieldsKey(tableId));
+  }
+
+  /** Drop the cached table list for the app. */
+  invalidateTables(): void {
+    this.entries.delete(SchemaCache.tablesKey());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
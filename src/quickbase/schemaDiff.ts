@@ -0,0 +1,223 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { SchemaSnapshot, SnapshotField, SnapshotRelationship, SnapshotTable } from '../types/quickbase.js';
+
+/** One property whose value differs between the two sides. */
+export interface PropertyChange {
+  property: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface FieldSummary {
+  label: string;
+  id: number;
+  fieldType: string;
+}
+
+export interface FieldDiff {
+  label: string;
+  fromId: number;
+  toId: number;
+  changes: PropertyChange[];
+}
+
+export interface TableDiff {
+  table: string;
+  fromId: string;
+  toId: string;
+  changes: PropertyChange[];
+  fields: { added: FieldSummary[]; removed: FieldSummary[]; changed: FieldDiff[] };
+}
+
+/** A relationship described by table names and field labels, so it reads the same in every copy of an app. */
+export interface RelationshipRef {
+  parentTable: string;
+  childTable: string;
+  foreignKeyField: string;
+  lookupFields: string[];
+  summaryFields: string[];
+}
+
+export interface SchemaDiff {
+  from: { appId: string; name?: string };
+  to: { appId: string; name?: string };
+  identical: boolean;
+  tables: { added: string[]; removed: string[]; changed: TableDiff[] };
+  relationships: {
+    added: RelationshipRef[];
+    removed: RelationshipRef[];
+    changed: Array<{ relationship: string; changes: PropertyChange[] }>;
+  };
+}
+
+/**
+ * Compare two schema snapshots. Tables are matched by name and fields by
+ * label (exactly first, then case-insensitively), never by ID, because IDs
+ * differ between copies of an app. "Added" means present in `to` only;
+ * "removed" means present in `from` only.
+ */
+export function diffSchemas(from: SchemaSnapshot, to: SchemaSnapshot): SchemaDiff {
+  const tables = matchByName(from.tables, to.tables, t => t.name);
+  const changed = tables.pairs
+    .map(([a, b]) => diffTable(a, b))
+    .filter(d => d.changes.length > 0 || d.fields.added.length + d.fields.removed.length + d.fields.changed.length > 0);
+
+  const relationships = matchByName(
+    from.relationships.map(r => describeRelationship(from, r)),
+    to.relationships.map(r => describeRelationship(to, r)),
+    relationshipKey
+  );
+  const relationshipChanges = relationships.pairs
+    .map(([a, b]) => ({
+      relationship: relationshipKey(a),
+      changes: [
+        compare('lookupFields', a.lookupFields, b.lookupFields),
+        compare('summaryFields', a.summaryFields, b.summaryFields)
+      ].filter((c): c is PropertyChange => c !== undefined)
+    }))
+    .filter(r => r.changes.length > 0);
+
+  const diff: SchemaDiff = {
+    from: { appId: from.app.id, name: from.app.name },
+    to: { appId: to.app.id, name: to.app.name },
+    identical: false,
+    tables: {
+      added: tables.added.map(t => t.name),
+      removed: tables.removed.map(t => t.name),
+      changed
+    },
+    relationships: {
+      added: relationships.added,
+      removed: relationships.removed,
+      changed: relationshipChanges
+    }
+  };
+  diff.identical = diff.tables.added.length + diff.tables.removed.length + changed.length +
+    relationships.added.length + relationships.removed.length + relationshipChanges.length === 0;
+  return diff;
+}
+
+/**
+ * Check that parsed JSON is a snapshot written by quickbase_export_schema.
+ *
+ * @throws {McpError} InvalidParams when it is not.
+ */
+export function parseSchemaSnapshot(text: string): SchemaSnapshot {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Snapshot is not valid JSON: ${(error as Error).message}`);
+  }
+  if (value?.snapshotVersion !== 1 || !Array.isArray(value.tables) || typeof value.app?.id !== 'string') {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'File is not a schema snapshot. Create one with quickbase_export_schema (format: "json").'
+    );
+  }
+  return { relationships: [], webhooks: [], notifications: [], ...value };
+}
+
+function diffTable(a: SnapshotTable, b: SnapshotTable): TableDiff {
+  const fields = matchByName(a.fields, b.fields, f => f.label);
+  const labelOf = (table: SnapshotTable, id?: number) => table.fields.find(f => f.id === id)?.label;
+
+  return {
+    table: b.name,
+    fromId: a.id,
+    toId: b.id,
+    changes: [
+      compare('name', a.name, b.name),
+      compare('description', a.description, b.description),
+      compare('keyField', labelOf(a, a.keyFieldId), labelOf(b, b.keyFieldId))
+    ].filter((c): c is PropertyChange => c !== undefined),
+    fields: {
+      added: fields.added.map(summarizeField),
+      removed: fields.removed.map(summarizeField),
+      changed: fields.pairs
+        .map(([x, y]) => ({ label: y.label, fromId: x.id, toId: y.id, changes: diffField(x, y) }))
+        .filter(f => f.changes.length > 0)
+    }
+  };
+}
+
+function diffField(a: SnapshotField, b: SnapshotField): PropertyChange[] {
+  return [
+    compare('label', a.label, b.label),
+    compare('fieldType', a.fieldType, b.fieldType),
+    compare('mode', a.mode, b.mode),
+    compare('formula', normalizeFormula(a.formula), normalizeFormula(b.formula)),
+    compare('choices', a.choices, b.choices),
+    compare('required', a.required ?? false, b.required ?? false),
+    compare('unique', a.unique ?? false, b.unique ?? false)
+  ].filter((c): c is PropertyChange => c !== undefined);
+}
+
+function summarizeField(field: SnapshotField): FieldSummary {
+  return { label: field.label, id: field.id, fieldType: field.fieldType };
+}
+
+function describeRelationship(snapshot: SchemaSnapshot, r: SnapshotRelationship): RelationshipRef {
+  const parent = snapshot.tables.find(t => t.id === r.parentTableId);
+  const child = snapshot.tables.find(t => t.id === r.childTableId);
+  const label = (id?: number) => child?.fields.find(f => f.id === id)?.label ?? String(id);
+  return {
+    parentTable: parent?.name ?? r.parentTableId,
+    childTable: child?.name ?? r.childTableId,
+    foreignKeyField: label(r.foreignKeyFieldId),
+    lookupFields: r.lookupFieldIds.map(label).sort(),
+    summaryFields: r.summaryFieldIds.map(label).sort()
+  };
+}
+
+function relationshipKey(r: RelationshipRef): string {
+  return `${r.parentTable} → ${r.childTable} (${r.foreignKeyField})`;
+}
+
+/** Formulas are compared ignoring line-ending style and trailing whitespace. */
+export function normalizeFormula(formula?: string): string | undefined {
+  return formula?.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trimEnd();
+}
+
+export function compare(property: string, from: unknown, to: unknown): PropertyChange | undefined {
+  return JSON.stringify(from) === JSON.stringify(to) ? undefined : { property, from: from ?? null, to: to ?? null };
+}
+
+/**
+ * Pair items by name: exact matches first, then case-insensitive matches
+ * among the leftovers when the lowercase name is unique on both sides.
+ */
+export function matchByName<L, R>(
+  left: L[],
+  right: R[],
+  name: (item: L | R) => string
+): { pairs: Array<[L, R]>; removed: L[]; added: R[] } {
+  const pairs: Array<[L, R]> = [];
+  const unmatchedRight = new Set(right);
+  const unmatchedLeft: L[] = [];
+
+  for (const item of left) {
+    const match = [...unmatchedRight].find(candidate => name(candidate) === name(item));
+    if (match === undefined) {
+      unmatchedLeft.push(item);
+    } else {
+      pairs.push([item, match]);
+      unmatchedRight.delete(match);
+    }
+  }
+
+  const removed: L[] = [];
+  const lower = (item: L | R) => name(item).toLowerCase();
+  for (const item of unmatchedLeft) {
+    const leftTwins = unmatchedLeft.filter(other => lower(other) === lower(item));
+    const candidates = [...unmatchedRight].filter(candidate => lower(candidate) === lower(item));
+    if (leftTwins.length === 1 && candidates.length === 1) {
+      pairs.push([item, candidates[0]]);
+      unmatchedRight.delete(candidates[0]);
+    } else {
+      removed.push(item);
+    }
+  }
+
+  return { pairs, removed, added: [...unmatchedRight] };
+}
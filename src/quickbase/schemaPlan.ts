@@ -0,0 +1,374 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import type { QuickBaseClient } from './client.js';
+import type { FieldType, QuickBaseField, SchemaSnapshot } from '../types/quickbase.js';
+import { compare, matchByName, normalizeFormula, PropertyChange } from './schemaDiff.js';
+import { resolveFieldIds } from '../utils/fieldLabels.js';
+
+// Fields QuickBase creates in every table; they are never planned.
+const BUILT_IN_FIELDS = new Set(['record id#', 'date created', 'date modified', 'record owner', 'last modified by']);
+const MAX_BUILT_IN_FIELD_ID = 5;
+
+const DesiredFieldSchema = z.object({
+  label: z.string().min(1).max(128),
+  fieldType: z.string().min(1).max(64),
+  mode: z.enum(['formula', 'lookup', 'summary']).optional(),
+  formula: z.string().max(20000).optional(),
+  choices: z.array(z.string().max(256)).max(500).optional(),
+  required: z.boolean().optional(),
+  unique: z.boolean().optional()
+}).strict();
+
+const DesiredLookupSchema = z.object({
+  parentField: z.string().min(1).max(128),
+  label: z.string().min(1).max(128)
+}).strict();
+
+const DesiredRelationshipSchema = z.object({
+  parentTable: z.string().min(1).max(128),
+  childTable: z.string().min(1).max(128),
+  foreignKeyField: z.string().min(1).max(128),
+  lookupFields: z.array(DesiredLookupSchema).max(100).optional()
+}).strict();
+
+const DesiredTableSchema = z.object({
+  name: z.string().min(1).max(128),
+  description: z.string().max(1024).optional(),
+  singleRecordName: z.string().min(1).max(128).optional(),
+  fields: z.array(DesiredFieldSchema).max(500)
+}).strict();
+
+/**
+ * Zod schema for a desired-state document: tables by name, fields by label
+ * and relationships by table names and field labels. IDs never appear, so one
+ * document can be applied to every copy of an app.
+ */
+export const DesiredSchemaSchema = z.object({
+  tables: z.array(DesiredTableSchema).max(200),
+  relationships: z.array(DesiredRelationshipSchema).max(500).optional()
+}).strict();
+
+export type DesiredField = z.infer<typeof DesiredFieldSchema>;
+export type DesiredLookup = z.infer<typeof DesiredLookupSchema>;
+export type DesiredRelationship = z.infer<typeof DesiredRelationshipSchema>;
+export type DesiredTable = z.infer<typeof DesiredTableSchema>;
+export type DesiredSchema = z.infer<typeof DesiredSchemaSchema>;
+
+/**
+ * One change. `tool` names the tool whose permissions the change needs;
+ * apply checks it against the app's safety settings before running it.
+ */
+type Change = { tool: string; description: string } & (
+  | { action: 'create_table'; table: Omit<DesiredTable, 'fields'> }
+  | { action: 'create_field'; table: string; field: DesiredField }
+  | { action: 'update_field'; table: string; field: DesiredField; changes: PropertyChange[] }
+  | { action: 'create_relationship'; relationship: DesiredRelationship }
+  | { action: 'create_lookup_field'; relationship: DesiredRelationship; lookup: DesiredLookup }
+);
+
+export type PlanOperation = { step: number } & Change;
+
+export interface SchemaPlan {
+  appId: string;
+  /** Fingerprint of the operations; apply refuses to run unless it still matches. */
+  planId: string;
+  operations: PlanOperation[];
+  /** Differences the plan cannot resolve (e.g. a field type change). */
+  warnings: string[];
+  /** Tables and fields that exist in the app but not in the desired state. They are left alone. */
+  unmanaged: { tables: string[]; fields: Array<{ table: string; label: string }> };
+}
+
+export interface ApplyReport {
+  appId: string;
+  planId: string;
+  status: 'applied' | 'failed';
+  applied: Array<{ step: number; description: string; result: Record<string, unknown> }>;
+  failed?: { step: number; description: string; error: string };
+  notAttempted: Array<{ step: number; description: string }>;
+}
+
+/**
+ * Turn a snapshot from quickbase_export_schema into a desired-state document.
+ * Built-in fields are dropped, and reference and lookup fields move into
+ * `relationships` because creating the relationship creates them.
+ */
+export function desiredFromSnapshot(snapshot: SchemaSnapshot): DesiredSchema {
+  const tableById = new Map(snapshot.tables.map(t => [t.id, t]));
+  const fieldLabel = (tableId: string, fieldId?: number) =>
+    tableById.get(tableId)?.fields.find(f => f.id === fieldId)?.label;
+  const relationshipFields = new Set<string>();
+
+  const relationships: DesiredRelationship[] = [];
+  for (const r of snapshot.relationships) {
+    const parent = tableById.get(r.parentTableId);
+    const child = tableById.get(r.childTableId);
+    const foreignKeyField = fieldLabel(r.childTableId, r.foreignKeyFieldId);
+    if (!parent || !child || !foreignKeyField) continue;
+    relationshipFields.add(`${child.id}:${r.foreignKeyFieldId}`);
+
+    const lookupFields: DesiredLookup[] = [];
+    for (const id of r.lookupFieldIds) {
+      relationshipFields.add(`${child.id}:${id}`);
+      const lookup = child.fields.find(f => f.id === id);
+      const parentField = fieldLabel(parent.id, Number(lookup?.properties?.lookupTargetFieldId));
+      if (lookup && parentField) lookupFields.push({ parentField, label: lookup.label });
+    }
+    relationships.push({
+      parentTable: parent.name,
+      childTable: child.name,
+      foreignKeyField,
+      ...(lookupFields.length > 0 ? { lookupFields } : {})
+    });
+  }
+
+  return {
+    tables: snapshot.tables.map(t => ({
+      name: t.name,
+      ...(t.description ? { description: t.description } : {}),
+      ...(t.singleRecordName ? { singleRecordName: t.singleRecordName } : {}),
+      fields: t.fields
+        .filter(f => f.id > MAX_BUILT_IN_FIELD_ID && !relationshipFields.has(`${t.id}:${f.id}`))
+        .map(f => {
+          const field: DesiredField = { label: f.label, fieldType: f.fieldType };
+          if (f.mode === 'formula' || f.mode === 'lookup' || f.mode === 'summary') field.mode = f.mode;
+          if (f.formula !== undefined) field.formula = f.formula;
+          if (f.choices !== undefined) field.choices = f.choices;
+          if (f.required) field.required = true;
+          if (f.unique) field.unique = true;
+          return field;
+        })
+    })),
+    relationships
+  };
+}
+
+/**
+ * Compute the ordered operations that bring the live schema to the desired
+ * state. Nothing is ever deleted: tables and fields missing from the desired
+ * state are listed under `unmanaged`.
+ *
+ * Order: new tables, plain fields, relationships and their lookups, formula
+ * fields (which may reference lookups), then updates to existing fields.
+ */
+export function planSchema(appId: string, live: SchemaSnapshot, desired: DesiredSchema): SchemaPlan {
+  const created: Change[] = [];
+  const formulas: Change[] = [];
+  const updates: Change[] = [];
+  const warnings: string[] = [];
+  const unmanaged: SchemaPlan['unmanaged'] = { tables: [], fields: [] };
+
+  const relationshipLookups = new Set((desired.relationships ?? []).flatMap(r =>
+    (r.lookupFields ?? []).map(l => `${r.childTable}\u0000${l.label}`.toLowerCase())
+  ));
+  const liveRelationshipFields = new Set(live.relationships.flatMap(r =>
+    [r.foreignKeyFieldId, ...r.lookupFieldIds].map(id => `${r.childTableId}:${id}`)
+  ));
+
+  const addField = (table: string, field: DesiredField) => {
+    if (BUILT_IN_FIELDS.has(field.label.toLowerCase())) return;
+    if (field.mode === 'lookup') {
+      if (!relationshipLookups.has(`${table}\u0000${field.label}`.toLowerCase())) {
+        warnings.push(`Lookup field "${field.label}" in "${table}" is not listed under any relationship's lookupFields, so it cannot be created.`);
+      }
+      return;
+    }
+    if (field.mode === 'summary') {
+      warnings.push(`Summary field "${field.label}" in "${table}" must be created in the QuickBase UI.`);
+      return;
+    }
+    const op: Change = {
+      action: 'create_field',
+      tool: 'quickbase_create_field',
+      description: `Create ${field.mode === 'formula' ? 'formula ' : ''}field "${field.label}" (${field.fieldType}) in "${table}"`,
+      table,
+      field
+    };
+    (field.mode === 'formula' ? formulas : created).push(op);
+  };
+
+  const tables = matchByName(live.tables, desired.tables, t => t.name);
+  for (const table of tables.added) {
+    const { fields, ...details } = table;
+    created.push({ action: 'create_table', tool: 'quickbase_create_table', description: `Create table "${table.name}"`, table: details });
+  }
+  for (const table of tables.added) table.fields.forEach(field => addField(table.name, field));
+
+  for (const [liveTable, desiredTable] of tables.pairs) {
+    const fields = matchByName(liveTable.fields, desiredTable.fields, f => f.label);
+    fields.added.forEach(field => addField(liveTable.name, field));
+    fields.removed
+      .filter(f => f.id > MAX_BUILT_IN_FIELD_ID && !liveRelationshipFields.has(`${liveTable.id}:${f.id}`))
+      .forEach(f => unmanaged.fields.push({ table: liveTable.name, label: f.label }));
+
+    for (const [liveField, field] of fields.pairs) {
+      if (liveField.fieldType !== field.fieldType || (liveField.mode ?? undefined) !== field.mode) {
+        warnings.push(
+          `Field "${field.label}" in "${liveTable.name}" is ${describeType(liveField)} but the desired state says ` +
+          `${describeType(field)}; QuickBase cannot change a field's type, so it is left as is.`
+        );
+        continue;
+      }
+      const changes = [
+        field.formula === undefined ? undefined : compare('formula', normalizeFormula(liveField.formula), normalizeFormula(field.formula)),
+        field.choices === undefined ? undefined : compare('choices', liveField.choices ?? [], field.choices),
+        compare('required', liveField.required ?? false, field.required ?? false),
+        compare('unique', liveField.unique ?? false, field.unique ?? false)
+      ].filter((c): c is PropertyChange => c !== undefined);
+      if (changes.length > 0) {
+        updates.push({
+          action: 'update_field',
+          tool: 'quickbase_update_field',
+          description: `Update ${changes.map(c => c.property).join(', ')} of field "${liveField.label}" in "${liveTable.name}"`,
+          table: liveTable.name,
+          field,
+          changes
+        });
+      }
+    }
+  }
+  unmanaged.tables.push(...tables.removed.map(t => t.name));
+
+  const relationshipOps: Change[] = [];
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  for (const relationship of desired.relationships ?? []) {
+    const existing = live.relationships.find(r => {
+      const parent = live.tables.find(t => t.id === r.parentTableId);
+      const child = live.tables.find(t => t.id === r.childTableId);
+      const key = child?.fields.find(f => f.id === r.foreignKeyFieldId);
+      return parent && child && key && same(parent.name, relationship.parentTable) &&
+        same(child.name, relationship.childTable) && same(key.label, relationship.foreignKeyField);
+    });
+    const name = `"${relationship.parentTable}" → "${relationship.childTable}"`;
+    if (!existing) {
+      relationshipOps.push({
+        action: 'create_relationship',
+        tool: 'quickbase_create_advanced_relationship',
+        description: `Create relationship ${name} with reference field "${relationship.foreignKeyField}"`,
+        relationship
+      });
+      continue;
+    }
+    const child = live.tables.find(t => t.id === existing.childTableId)!;
+    for (const lookup of relationship.lookupFields ?? []) {
+      if (child.fields.some(f => same(f.label, lookup.label))) continue;
+      relationshipOps.push({
+        action: 'create_lookup_field',
+        tool: 'quickbase_create_lookup_field',
+        description: `Create lookup field "${lookup.label}" in "${relationship.childTable}" from "${lookup.parentField}"`,
+        relationship,
+        lookup
+      });
+    }
+  }
+
+  const operations = [...created, ...relationshipOps, ...formulas, ...updates]
+    .map((op, index) => ({ step: index + 1, ...op }) as PlanOperation);
+  const planId = createHash('sha256').update(JSON.stringify({ appId, operations })).digest('hex').slice(0, 16);
+  return { appId, planId, operations, warnings, unmanaged };
+}
+
+/**
+ * Execute a plan in order. `beforeOperation` runs before each step and may
+ * throw to refuse it (apply uses it for per-operation permission checks).
+ * Execution stops at the first failure; the report lists what was applied,
+ * what failed and what was not attempted.
+ */
+export async function applySchemaPlan(
+  client: QuickBaseClient,
+  plan: SchemaPlan,
+  beforeOperation: (op: PlanOperation) => void
+): Promise<ApplyReport> {
+  const tableIds = new Map<string, string>(
+    ((await client.getAppTables()) ?? []).map((t: any) => [t.name.toLowerCase(), t.id])
+  );
+  const tableId = (name: string): string => {
+    const id = tableIds.get(name.toLowerCase());
+    if (!id) throw new Error(`Table "${name}" does not exist in app ${plan.appId}.`);
+    return id;
+  };
+  const fieldId = async (table: string, label: string): Promise<number> =>
+    resolveFieldIds(await client.getTableFields(tableId(table)), [label])[0];
+
+  const execute = async (op: PlanOperation): Promise<Record<string, unknown>> => {
+    switch (op.action) {
+      case 'create_table': {
+        const id = await client.createTable(op.table);
+        tableIds.set(op.table.name.toLowerCase(), id);
+        return { tableId: id };
+      }
+      case 'create_field': {
+        const id = await client.createField(tableId(op.table), toQuickBaseField(op.field));
+        return { fieldId: id };
+      }
+      case 'update_field': {
+        const id = await fieldId(op.table, op.field.label);
+        const updates: Partial<QuickBaseField> = {};
+        const properties: Record<string, unknown> = {};
+        for (const change of op.changes) {
+          if (change.property === 'required' || change.property === 'unique') {
+            updates[change.property] = change.to as boolean;
+          } else {
+            properties[change.property] = change.to;
+          }
+        }
+        if (Object.keys(properties).length > 0) updates.properties = properties;
+        await client.updateField(tableId(op.table), id, updates);
+        return { fieldId: id };
+      }
+      case 'create_relationship': {
+        const r = op.relationship;
+        const lookups = r.lookupFields ?? [];
+        const parentFieldIds = resolveFieldIds(await client.getTableFields(tableId(r.parentTable)), lookups.map(l => l.parentField));
+        return client.createAdvancedRelationship(
+          tableId(r.parentTable),
+          tableId(r.childTable),
+          r.foreignKeyField,
+          lookups.map((l, i) => ({ parentFieldId: parentFieldIds[i], childFieldLabel: l.label }))
+        );
+      }
+      case 'create_lookup_field': {
+        const r = op.relationship;
+        const id = await client.createLookupField(
+          tableId(r.childTable),
+          tableId(r.parentTable),
+          await fieldId(r.childTable, r.foreignKeyField),
+          await fieldId(r.parentTable, op.lookup.parentField),
+          op.lookup.label
+        );
+        return { fieldId: id };
+      }
+    }
+  };
+
+  const report: ApplyReport = { appId: plan.appId, planId: plan.planId, status: 'applied', applied: [], notAttempted: [] };
+  for (const [index, op] of plan.operations.entries()) {
+    try {
+      beforeOperation(op);
+      report.applied.push({ step: op.step, description: op.description, result: await execute(op) });
+    } catch (error) {
+      report.status = 'failed';
+      report.failed = { step: op.step, description: op.description, error: error instanceof Error ? error.message : String(error) };
+      report.notAttempted = plan.operations.slice(index + 1).map(o => ({ step: o.step, description: o.description }));
+      break;
+    }
+  }
+  return report;
+}
+
+function toQuickBaseField(field: DesiredField): QuickBaseField {
+  const properties: Record<string, unknown> = {};
+  if (field.formula !== undefined) properties.formula = field.formula;
+  if (field.choices !== undefined) properties.choices = field.choices;
+  return {
+    label: field.label,
+    fieldType: field.fieldType as FieldType,
+    required: field.required ?? false,
+    unique: field.unique ?? false,
+    ...(Object.keys(properties).length > 0 ? { properties } : {})
+  };
+}
+
+function describeType(field: { fieldType: string; mode?: string }): string {
+  return field.mode ? `${field.fieldType} (${field.mode})` : field.fieldType;
+}
@@ -0,0 +1,170 @@
+import type { QuickBaseClient } from './client.js';
+import type {
+  SchemaSnapshot,
+  SnapshotEvent,
+  SnapshotField,
+  SnapshotRelationship,
+  SnapshotReport,
+  SnapshotTable
+} from '../types/quickbase.js';
+import { toYaml } from '../utils/yaml.js';
+
+export const SNAPSHOT_FORMATS = ['json', 'yaml'] as const;
+
+export type SnapshotFormat = typeof SNAPSHOT_FORMATS[number];
+
+// Report members that change every time the report is opened.
+const VOLATILE_REPORT_KEYS = new Set(['usedLast', 'usedCount']);
+
+/**
+ * Capture an app's schema: tables, fields, reports, relationships, webhooks
+ * and email notifications. Tables are read one at a time to stay well inside
+ * QuickBase's rate limits.
+ *
+ * @param options.tableIds - Limit the snapshot to these tables (events and
+ *   relationships are filtered to match).
+ */
+export async function captureSchema(
+  client: QuickBaseClient,
+  appId: string,
+  options: { tableIds?: string[] } = {}
+): Promise<SchemaSnapshot> {
+  const app = await client.getAppInfo();
+  const wanted = options.tableIds ? new Set(options.tableIds) : undefined;
+  const tables = ((await client.getAppTables()) ?? []).filter((t: any) => !wanted || wanted.has(t.id));
+
+  const snapshotTables: SnapshotTable[] = [];
+  const relationships = new Map<number, SnapshotRelationship>();
+  for (const table of tables) {
+    const fields = await client.getTableFields(table.id);
+    const reports = await client.getReports(table.id);
+    const tableRelationships = await client.getRelationships(table.id);
+    snapshotTables.push(prune({
+      id: table.id,
+      name: table.name,
+      alias: table.alias,
+      description: table.description,
+      singleRecordName: table.singleRecordName,
+      pluralRecordName: table.pluralRecordName,
+      keyFieldId: table.keyFieldId,
+      fields: (fields ?? []).map(snapshotField).sort(byNumber(f => f.id)),
+      reports: (reports ?? []).map(snapshotReport).sort(byText(r => r.id.padStart(12, '0')))
+    }));
+    for (const relationship of listOf(tableRelationships, 'relationships').map(snapshotRelationship)) {
+      relationships.set(relationship.id, relationship);
+    }
+  }
+
+  const tableIds = new Set(snapshotTables.map(t => t.id));
+  const events = (await client.getAppEvents())
+    .filter((e: any) => !wanted || tableIds.has(e.tableId))
+    .map(snapshotEvent)
+    .sort(byText(e => `${e.tableId ?? ''}\u0000${e.name}`));
+
+  return {
+    snapshotVersion: 1,
+    app: prune({ id: app?.id ?? appId, name: app?.name, description: app?.description }),
+    tables: snapshotTables.sort(byText(t => `${t.name}\u0000${t.id}`)),
+    relationships: [...relationships.values()].sort(byText(r => `${r.childTableId}\u0000${String(r.id).padStart(12, '0')}`)),
+    webhooks: events.filter(e => e.type === 'webhook'),
+    notifications: events.filter(e => e.type === 'email-notification')
+  };
+}
+
+/** Render a snapshot as pretty-printed JSON or YAML, always ending in a newline. */
+export function formatSchemaSnapshot(snapshot: SchemaSnapshot, format: SnapshotFormat): string {
+  return format === 'yaml' ? toYaml(snapshot) : `${JSON.stringify(snapshot, null, 2)}\n`;
+}
+
+function snapshotField(field: any): SnapshotField {
+  const { formula, choices, ...properties } = field.properties ?? {};
+  return prune({
+    id: field.id,
+    label: field.label,
+    fieldType: field.fieldType,
+    mode: field.mode,
+    required: field.required || undefined,
+    unique: field.unique || undefined,
+    fieldHelp: field.fieldHelp,
+    formula: formula ?? field.formula,
+    choices: choices ?? field.choices,
+    properties: canonical(properties)
+  });
+}
+
+function snapshotReport(report: any): SnapshotReport {
+  const rest = Object.fromEntries(Object.entries(report ?? {}).filter(([key]) => !VOLATILE_REPORT_KEYS.has(key)));
+  return prune({
+    id: String(rest.id),
+    name: rest.name as string,
+    type: rest.type as string | undefined,
+    description: rest.description as string | undefined,
+    query: canonical(rest.query),
+    properties: canonical(rest.properties)
+  });
+}
+
+// GET /tables/{id}/relationship returns { relationships: [...] }; each lists its
+// foreign key, lookup and summary fields as { id, label, type } objects.
+function snapshotRelationship(relationship: any): SnapshotRelationship {
+  const ids = (list: any): number[] => (Array.isArray(list) ? list.map((f: any) => f?.id ?? f).sort((a, b) => a - b) : []);
+  return prune({
+    id: relationship.id,
+    parentTableId: relationship.parentTableId,
+    childTableId: relationship.childTableId,
+    foreignKeyFieldId: relationship.foreignKeyField?.id ?? relationship.foreignKeyFieldId,
+    isCrossApp: relationship.isCrossApp || undefined,
+    lookupFieldIds: ids(relationship.lookupFields),
+    summaryFieldIds: ids(relationship.summaryFields)
+  });
+}
+
+function snapshotEvent(event: any): SnapshotEvent {
+  return prune({
+    type: event.type,
+    name: event.name,
+    tableId: event.tableId,
+    isActive: event.isActive,
+    owner: event.owner?.email ?? event.owner?.name
+  });
+}
+
+function listOf(response: any, key: string): any[] {
+  if (Array.isArray(response)) return response;
+  return Array.isArray(response?.[key]) ? response[key] : [];
+}
+
+/** Drop undefined, null and empty-string members (shallow) so absent settings are simply omitted. */
+function prune<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && v !== null && v !== '')
+  ) as T;
+}
+
+/**
+ * Deep-copy a pass-through API object with sorted keys and blank members
+ * removed. Returns undefined for an empty result.
+ */
+function canonical(value: unknown): any {
+  if (Array.isArray(value)) return value.map(item => canonical(item) ?? null);
+  if (value === null || typeof value !== 'object') return value === '' ? undefined : value ?? undefined;
+  const entries = Object.keys(value)
+    .sort()
+    .map(key => [key, canonical((value as Record<string, unknown>)[key])] as const)
+    .filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function byNumber<T>(key: (item: T) => number): (a: T, b: T) => number {
+  return (a, b) => key(a) - key(b);
+}
+
+// Code-unit comparison rather than localeCompare, so the order does not
+// depend on the machine's locale.
+function byText<T>(key: (item: T) => string): (a: T, b: T) => number {
+  return (a, b) => {
+    const x = key(a);
+    const y = key(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+}
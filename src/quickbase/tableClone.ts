@@ -0,0 +1,186 @@
+import type { QuickBaseClient } from './client.js';
+import type { FieldType } from '../types/quickbase.js';
+import { writableValue } from '../utils/recordValidation.js';
+
+// Fields 1-5 exist in every table with the same IDs, so they map to themselves.
+const MAX_BUILT_IN_FIELD_ID = 5;
+
+// Field properties that point at other tables or fields in the source app and
+// would be wrong (or rejected) in the copy.
+const SOURCE_SPECIFIC_PROPERTY = /(FieldId|FieldIds|TableId|TableTag)$/;
+const SOURCE_SPECIFIC_PROPERTIES = new Set(['formula', 'compositeFields', 'foreignKey', 'primaryKey', 'summaryFunction', 'lookupReference']);
+
+export interface CloneTableOptions {
+  /** Name of the new table (defaults to the source table's name). */
+  name?: string;
+  /** Copy matching records after the structure is created. */
+  copyRecords?: { where?: string; maxRecords: number };
+}
+
+export interface CloneTableReport {
+  sourceTableId: string;
+  tableId: string;
+  name: string;
+  /** Source field ID → new field ID, built-in fields included. */
+  fieldIdMap: Record<string, number>;
+  skippedFields: Array<{ id: number; label: string; reason: string }>;
+  warnings: string[];
+  records?: { copied: number; failed: number; totalMatching: number | null; hasMore: boolean; errors: string[] };
+}
+
+/**
+ * Rewrite the field IDs a formula refers to (`[_FID_6]`, `&_fid_6=` in URL
+ * formulas and `{6.EX.'x'}` query clauses) using `idMap`. References by label
+ * need no change because labels are copied as is.
+ *
+ * @returns The rewritten formula and the referenced IDs that have no mapping.
+ */
+export function remapFormulaFieldIds(formula: string, idMap: Map<number, number>): { formula: string; unmapped: number[] } {
+  const unmapped = new Set<number>();
+  const map = (id: string): string => {
+    const source = Number(id);
+    if (source <= MAX_BUILT_IN_FIELD_ID) return id;
+    const target = idMap.get(source);
+    if (target === undefined) {
+      unmapped.add(source);
+      return id;
+    }
+    return String(target);
+  };
+  const rewritten = formula
+    .replace(/(_fid_)(\d+)/gi, (_, prefix: string, id: string) => `${prefix}${map(id)}`)
+    .replace(/\{(\s*'?)(\d+)('?\s*\.)/g, (_, open: string, id: string, close: string) => `{${open}${map(id)}${close}`);
+  return { formula: rewritten, unmapped: [...unmapped].sort((a, b) => a - b) };
+}
+
+/** IDs of the `fields` a formula refers to, by field ID or by `[Label]`. */
+function formulaDependencies(formula: string, fields: any[]): Set<number> {
+  const ids = new Set(remapFormulaFieldIds(formula, new Map()).unmapped);
+  return new Set(fields.filter(f => ids.has(f.id) || formula.includes(`[${f.label}]`)).map(f => f.id));
+}
+
+/**
+ * Recreate a table's structure from one app in another, optionally copying
+ * some of its records.
+ *
+ * Plain fields are created first, then each formula field, with its
+ * field-ID references rewritten to the new IDs, once the fields it refers to
+ * exist. Formula fields that refer to each other in a cycle are created empty
+ * and get their formulas after every field exists. Lookup and summary fields
+ * depend on relationships that do not exist in the target and are skipped, as
+ * are values of formula and file attachment fields when records are copied.
+ */
+export async function cloneTable(
+  source: QuickBaseClient,
+  target: QuickBaseClient,
+  tableId: string,
+  options: CloneTableOptions = {}
+): Promise<CloneTableReport> {
+  const table = await source.getTableInfo(tableId);
+  const fields = ((await source.getTableFields(tableId)) ?? []).slice().sort((a: any, b: any) => a.id - b.id);
+
+  const name = options.name ?? table.name;
+  const newTableId = await target.createTable({
+    name,
+    description: table.description || undefined,
+    singleRecordName: table.singleRecordName || undefined
+  });
+
+  const report: CloneTableReport = { sourceTableId: tableId, tableId: newTableId, name, fieldIdMap: {}, skippedFields: [], warnings: [] };
+  const idMap = new Map<number, number>();
+  for (let id = 1; id <= MAX_BUILT_IN_FIELD_ID; id++) idMap.set(id, id);
+
+  const cloneable: any[] = [];
+  for (const field of fields) {
+    if (field.id <= MAX_BUILT_IN_FIELD_ID) continue;
+    if (field.mode === 'lookup' || field.mode === 'summary') {
+      report.skippedFields.push({ id: field.id, label: field.label, reason: `${field.mode} fields need a relationship in the target app` });
+    } else {
+      cloneable.push(field);
+    }
+  }
+  const isFormula = (field: any) => field.mode === 'formula' || typeof field.properties?.formula === 'string';
+
+  const createCopy = async (field: any, formula?: string) => {
+    const properties: Record<string, unknown> = Object.fromEntries(
+      Object.entries(field.properties ?? {}).filter(([key]) => !SOURCE_SPECIFIC_PROPERTY.test(key) && !SOURCE_SPECIFIC_PROPERTIES.has(key))
+    );
+    if (formula) properties.formula = formula;
+    const newId = await target.createField(newTableId, {
+      label: field.label,
+      fieldType: field.fieldType as FieldType,
+      required: field.required ?? false,
+      unique: field.unique ?? false,
+      ...(Object.keys(properties).length > 0 ? { properties } : {})
+    });
+    idMap.set(field.id, newId);
+  };
+  const remapFormula = (field: any): string => {
+    const remapped = remapFormulaFieldIds(field.properties?.formula ?? '', idMap);
+    if (remapped.unmapped.length > 0) {
+      report.warnings.push(
+        `Formula of "${field.label}" refers to field ID(s) ${remapped.unmapped.join(', ')}, which were not cloned; those references were left unchanged.`
+      );
+    }
+    return remapped.formula;
+  };
+
+  for (const field of cloneable.filter(f => !isFormula(f))) await createCopy(field);
+
+  let pending = cloneable.filter(isFormula).map(field => ({
+    field,
+    dependsOn: formulaDependencies(field.properties?.formula ?? '', cloneable)
+  }));
+  while (pending.length > 0) {
+    const ready = pending.filter(p => [...p.dependsOn].every(id => idMap.has(id)));
+    if (ready.length === 0) break;
+    for (const { field } of ready) await createCopy(field, remapFormula(field));
+    pending = pending.filter(p => !ready.includes(p));
+  }
+  // Only a reference cycle is left: create those fields first, then set their formulas.
+  for (const { field } of pending) await createCopy(field);
+  for (const { field } of pending) {
+    if (field.properties?.formula) {
+      await target.updateField(newTableId, idMap.get(field.id)!, { properties: { formula: remapFormula(field) } });
+    }
+  }
+  report.fieldIdMap = Object.fromEntries([...idMap].filter(([from]) => from > MAX_BUILT_IN_FIELD_ID));
+
+  if (options.copyRecords) {
+    const copied = cloneable.filter(f => !isFormula(f) && f.fieldType !== 'file');
+    const skipped = cloneable.filter(f => f.fieldType === 'file');
+    if (skipped.length > 0) {
+      report.warnings.push(`File attachments were not copied (${skipped.map(f => `"${f.label}"`).join(', ')}).`);
+    }
+    if (copied.length === 0) {
+      report.records = { copied: 0, failed: 0, totalMatching: null, hasMore: false, errors: [] };
+      return report;
+    }
+
+    const page = await source.getRecordsPaginated(
+      tableId,
+      { select: copied.map(f => f.id), where: options.copyRecords.where },
+      options.copyRecords.maxRecords
+    );
+    const rows = page.data.map(row => {
+      const out: Record<string, { value: unknown }> = {};
+      for (const field of copied) {
+        const cell = row[String(field.id)];
+        if (cell !== undefined && cell.value !== null && cell.value !== '') out[String(idMap.get(field.id))] = { value: writableValue(cell.value) };
+      }
+      return out;
+    });
+    const written = rows.length > 0 ? await target.writeRecordsChunked(newTableId, rows) : undefined;
+    report.records = {
+      copied: written?.succeeded ?? 0,
+      failed: written?.failed ?? 0,
+      totalMatching: page.totalRecords ?? null,
+      hasMore: page.hasMore,
+      errors: [
+        ...(written?.failedChunks ?? []).map(c => `Records ${c.firstLine}-${c.firstLine + c.recordCount - 1}: ${c.error}`),
+        ...Object.entries(written?.lineErrors ?? {}).map(([line, errors]) => `Record ${line}: ${errors.join('; ')}`)
+      ]
+    };
+  }
+  return report;
+}
@@ -0,0 +1,234 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { QuickBaseClient } from './client.js';
+import { writableValue } from '../utils/recordValidation.js';
+
+type FieldValues = Record<string, { value: unknown }>;
+
+/** Record values captured before an update or delete. */
+export interface UndoSnapshot {
+  recordId: number;
+  /** Values before the change: the updated fields for an update, every field for a delete. */
+  fields: FieldValues;
+  /** Date Modified after the update, used to tell whether someone changed the record since. */
+  modifiedAfter?: unknown;
+  /** The values the update wrote (fallback change check when Date Modified is unknown). */
+  written?: FieldValues;
+}
+
+export interface UndoOperation {
+  operationId: string;
+  appId: string;
+  tableId: string;
+  action: 'update' | 'delete';
+  timestamp: string;
+  records: UndoSnapshot[];
+  undoneAt?: string;
+}
+
+export interface UndoResult {
+  operationId: string;
+  action: UndoOperation['action'];
+  tableId: string;
+  restored: Array<{ recordId: number; newRecordId?: number | null }>;
+  skipped: Array<{ recordId: number; reason: string }>;
+  warnings: string[];
+}
+
+export const DEFAULT_MAX_UNDO_OPERATIONS = 500;
+
+// Fields QuickBase maintains itself (1-5) and field kinds it computes.
+const MAX_BUILT_IN_FIELD_ID = 5;
+const DATE_MODIFIED_FIELD_ID = 2;
+const COMPUTED_MODES = new Set(['formula', 'lookup', 'summary']);
+
+/** A new, unique undo operation ID. */
+export function newOperationId(): string {
+  return `undo-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Before-images of records changed through `updateRecord` and
+ * `deleteRecord`, kept so `quickbase_undo` can put them back.
+ *
+ * With a path the journal is a JSONL file (owner read/write only, since it
+ * holds record data) that survives restarts; each operation is one line, and
+ * undoing appends a marker line. Without a path it lives in memory for the
+ * server session. Only the newest `maxOperations` operations are kept.
+ */
+export class UndoJournal {
+  private queue: Promise<void> = Promise.resolve();
+  private readonly memory = new Map<string, UndoOperation>();
+
+  constructor(
+    private readonly filePath?: string,
+    private readonly maxOperations = DEFAULT_MAX_UNDO_OPERATIONS
+  ) {}
+
+  record(operation: UndoOperation): Promise<void> {
+    return this.enqueue(async () => {
+      if (!this.filePath) {
+        this.memory.set(operation.operationId, operation);
+        for (const id of [...this.memory.keys()].slice(0, Math.max(0, this.memory.size - this.maxOperations))) {
+          this.memory.delete(id);
+        }
+        return;
+      }
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(operation)}\n`, { encoding: 'utf8', mode: 0o600 });
+      await this.compact();
+    });
+  }
+
+  async get(operationId: string): Promise<UndoOperation | undefined> {
+    await this.queue;
+    if (!this.filePath) return this.memory.get(operationId);
+    return (await this.load()).get(operationId);
+  }
+
+  markUndone(operationId: string): Promise<void> {
+    return this.enqueue(async () => {
+      const undoneAt = new Date().toISOString();
+      if (!this.filePath) {
+        const operation = this.memory.get(operationId);
+        if (operation) operation.undoneAt = undoneAt;
+        return;
+      }
+      await fs.appendFile(this.filePath, `${JSON.stringify({ operationId, undoneAt })}\n`, { encoding: 'utf8', mode: 0o600 });
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async lines(): Promise<any[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath!, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return text.split('\n').flatMap(line => {
+      try {
+        return line.trim() ? [JSON.parse(line)] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private async load(): Promise<Map<string, UndoOperation>> {
+    const operations = new Map<string, UndoOperation>();
+    for (const line of await this.lines()) {
+      if (Array.isArray(line.records)) {
+        operations.set(line.operationId, line);
+      } else if (line.undoneAt && operations.has(line.operationId)) {
+        operations.get(line.operationId)!.undoneAt = line.undoneAt;
+      }
+    }
+    return operations;
+  }
+
+  // Rewrite the file once it holds twice the limit, keeping the newest operations.
+  private async compact(): Promise<void> {
+    const operations = await this.load();
+    if (operations.size <= this.maxOperations * 2) return;
+    const kept = [...operations.values()].slice(-this.maxOperations);
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, kept.map(op => `${JSON.stringify(op)}\n`).join(''), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(temporary, this.filePath!);
+  }
+}
+
+/**
+ * Put back the records an operation changed: updated fields get their
+ * previous values and deleted records are created again (QuickBase assigns
+ * them new record IDs). Records changed by someone else since the operation,
+ * and deleted records that still exist, are skipped with a warning unless
+ * `force` is set.
+ */
+export async function undoOperation(
+  client: QuickBaseClient,
+  operation: UndoOperation,
+  options: { force?: boolean } = {}
+): Promise<UndoResult> {
+  const result: UndoResult = {
+    operationId: operation.operationId,
+    action: operation.action,
+    tableId: operation.tableId,
+    restored: [],
+    skipped: [],
+    warnings: []
+  };
+  const fields = await client.getTableFields(operation.tableId);
+  const writable = new Set<string>(
+    fields
+      .filter((f: any) => f.id > MAX_BUILT_IN_FIELD_ID && !COMPUTED_MODES.has(f.mode) && f.fieldType !== 'file')
+      .map((f: any) => String(f.id))
+  );
+
+  for (const snapshot of operation.records) {
+    const values = Object.fromEntries(
+      Object.entries(snapshot.fields)
+        .filter(([id]) => writable.has(id))
+        .map(([id, cell]) => [id, { value: writableValue(cell?.value) }])
+    );
+
+    if (operation.action === 'update') {
+      const current = await client.getRecord(operation.tableId, snapshot.recordId, [
+        DATE_MODIFIED_FIELD_ID,
+        ...Object.keys(snapshot.fields).map(Number)
+      ]);
+      const change = !current
+        ? 'it no longer exists'
+        : changedSince(snapshot, current)
+          ? 'it has been changed since the update'
+          : undefined;
+      if (change && (!current || !options.force)) {
+        result.skipped.push({ recordId: snapshot.recordId, reason: change });
+        result.warnings.push(`Record ${snapshot.recordId} was not restored because ${change}${current ? ' (pass force: true to overwrite it)' : ''}.`);
+        continue;
+      }
+      if (change) result.warnings.push(`Record ${snapshot.recordId} had been changed since the update; it was overwritten because force was set.`);
+      const written = await client.updateRecords(operation.tableId, [{ recordId: snapshot.recordId, updates: values }]);
+      if (written.failed > 0) {
+        const reason = written.failedChunks[0]?.error ?? Object.values(written.lineErrors).flat().join('; ');
+        throw new Error(`Record ${snapshot.recordId} could not be restored: ${reason}`);
+      }
+      result.restored.push({ recordId: snapshot.recordId });
+    } else {
+      const existing = await client.getRecord(operation.tableId, snapshot.recordId, [3]);
+      if (existing && !options.force) {
+        result.skipped.push({ recordId: snapshot.recordId, reason: 'a record with this ID still exists' });
+        result.warnings.push(`Record ${snapshot.recordId} still exists, so it was not re-created (pass force: true to create a copy).`);
+        continue;
+      }
+      const newRecordId = await client.createRecord(operation.tableId, { fields: values });
+      result.restored.push({ recordId: snapshot.recordId, newRecordId });
+    }
+  }
+
+  const lost = [...new Set(operation.records.flatMap(r => Object.keys(r.fields)))]
+    .filter(id => Number(id) > MAX_BUILT_IN_FIELD_ID && !writable.has(id));
+  if (operation.action === 'delete' && lost.length > 0) {
+    result.warnings.push(`Field(s) ${lost.join(', ')} are computed, file attachments or no longer exist, so their values were not restored.`);
+  }
+  if (operation.action === 'delete' && result.restored.length > 0) {
+    result.warnings.push('Re-created records get new record IDs; references to the old IDs (e.g. in child records) are not updated.');
+  }
+  return result;
+}
+
+function changedSince(snapshot: UndoSnapshot, current: Record<string, { value: unknown }>): boolean {
+  if (snapshot.modifiedAfter !== undefined) {
+    return JSON.stringify(current[String(DATE_MODIFIED_FIELD_ID)]?.value) !== JSON.stringify(snapshot.modifiedAfter);
+  }
+  return Object.entries(snapshot.written ?? {}).some(
+    ([id, cell]) => JSON.stringify(current[id]?.value) !== JSON.stringify(cell?.value)
+  );
+}
@@ -13,7 +13,9 @@
  *   5. The queued MCP tool call resolves.
  *
  * The relay binds to 127.0.0.1 only and accepts CORS only from the QB realm
- * domain — no external access, no SSRF risk.
+ * domains — no external access, no SSRF risk. When apps live in several
+ * realms, one server serves them all: each realm has its own RelayClient and
+ * bookmarklet traffic is routed by its Origin.
  */
 
 import http from 'node:http';
@@ -59,9 +61,30 @@ export class RelayClient {
   private longPollRes: http.ServerResponse | null = null;
   private helloState: HelloState | null = null;
   private port: number;
+  private setupPath: string;
+  private realmClients = new Map<string, RelayClient>();
 
-  constructor(port: number) {
+  constructor(port: number, setupPath = '/setup') {
     this.port = port;
+    this.setupPath = setupPath;
+  }
+
+  /**
+   * The client for `realm` when the server relays for several realms. Falls
+   * back to this client, the one for the server's default realm.
+   */
+  forRealm(realm: string): RelayClient {
+    return this.realmClients.get(realm) ?? this;
+  }
+
+  /** Called by `startRelayServer` for each further realm it serves. */
+  addRealmClient(realm: string, client: RelayClient): void {
+    this.realmClients.set(realm, client);
+  }
+
+  /** True while a request with this ID is waiting for its result. */
+  hasPending(id: string): boolean {
+    return this.pending.has(id);
   }
 
   /** Called by the relay HTTP server when the bookmarklet POSTs /relay/hello */
@@ -168,7 +191,7 @@ export class RelayClient {
       'The QuickBase Pipeline relay is not active.',
       '',
       'To activate it:',
-      `1. Visit http://localhost:${this.port}/setup in your browser for first-time setup (drag the bookmarklet to your bookmarks toolbar).`,
+      `1. Visit http://localhost:${this.port}${this.setupPath} in your browser for first-time setup (drag the bookmarklet to your bookmarks toolbar).`,
       '2. Navigate to the QuickBase Pipelines dashboard (the bookmarklet only works from that page).',
       '3. Click the "QB Pipeline Relay" bookmarklet in your toolbar.',
       '   Direct link: https://<your-realm>/nav/main/action/pipelines/dashboard',
@@ -183,7 +206,7 @@ export class RelayClient {
       'The browser tab running the relay may have been closed, navigated away, or gone idle.',
       'Navigate to the QuickBase Pipelines dashboard and click the "QB Pipeline Relay" bookmarklet to reconnect, then retry this tool.',
       '(The bookmarklet only works from the Pipelines dashboard page, not other QuickBase pages.)',
-      `Setup page: http://localhost:${this.port}/setup`,
+      `Setup page: http://localhost:${this.port}${this.setupPath}`,
     ].join('\n');
   }
 
@@ -321,7 +344,7 @@ alert('\\u2705 QB Pipeline Relay active!');
 <div class="status-bar" id="status">Checking relay status&hellip;</div>
 
 <script>
-fetch('/relay/status').then(r=>r.json()).then(d=>{
+fetch('/relay/status?realm=${encodeURIComponent(safeRealm)}').then(r=>r.json()).then(d=>{
   const el=document.getElementById('status');
   if(d.active){el.style.background='#e6f4ea';el.style.color='#1e7e34';el.innerHTML='&#10003; <span>Relay is active.</span> Pipeline tools are ready.';}
   else{el.innerHTML='&#9888; <span>Relay is not yet active.</span> Follow steps 2 and 3 above.';}
@@ -361,7 +384,7 @@ function readBody(req: http.IncomingMessage): Promise<unknown> {
   });
 }
 
-/** Applies CORS response headers, restricting the allowed origin to the QB realm. */
+/** Applies CORS response headers, restricting the allowed origin to a QB realm. */
 function cors(res: http.ServerResponse, allowedOrigin: string): void {
   res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
@@ -371,7 +394,7 @@ function cors(res: http.ServerResponse, allowedOrigin: string): void {
 /**
  * Returns true when the request origin is acceptable:
  *  - No Origin header  → same-process HTTP request (node:http.request), always allowed.
- *  - Origin matches the QB realm → bookmarklet running on the QB domain, allowed.
+ *  - Origin matches a served QB realm → bookmarklet running on the QB domain, allowed.
  *  - Any other origin  → cross-site request, denied.
  *
  * Only `origin === undefined` is treated as a same-process call. An empty-string
@@ -382,9 +405,9 @@ function cors(res: http.ServerResponse, allowedOrigin: string): void {
  * against cross-site requests that bypass CORS preflight (e.g. form POSTs with
  * application/x-www-form-urlencoded).
  */
-function isOriginAllowed(origin: string | undefined, allowedOrigin: string): boolean {
+function isOriginAllowed(origin: string | undefined, allowedOrigins: Map<string, unknown>): boolean {
   if (origin === undefined) return true; // no Origin header → same-process call
-  return origin === allowedOrigin;
+  return allowedOrigins.has(origin);
 }
 
 /** Sends a 403 Forbidden JSON response. Used on state-mutating endpoints that reject non-QB origins. */
@@ -401,17 +424,32 @@ function sendForbidden(res: http.ServerResponse): void {
  * RETRY_DELAYS_MS.length times, sending a shutdown probe to any occupying relay
  * server on the first attempt.
  *
- * @param realm - The QuickBase realm hostname (e.g. "myorg.quickbase.com").
+ * @param realm - The default QuickBase realm hostname (e.g. "myorg.quickbase.com").
  *   Used to restrict CORS and to build the setup-page URL.
  * @param port - The TCP port to listen on.
- * @returns The RelayClient instance; MCP tool handlers call `client.request()` on it.
+ * @param otherRealms - Further realms to relay for. Each gets its own client
+ *   (see `RelayClient.forRealm`) and setup page at `/setup?realm=<realm>`;
+ *   bookmarklet requests are routed by their Origin.
+ * @returns The RelayClient for `realm`; MCP tool handlers call `client.request()` on it.
  */
-export function startRelayServer(realm: string, port: number): RelayClient {
+export function startRelayServer(realm: string, port: number, otherRealms: string[] = []): RelayClient {
   const client = new RelayClient(port);
   const allowedOrigin = `https://${realm}`;
+  // Origin → client, for every realm served. Requests without an Origin
+  // (same-process calls) go to the default realm's client.
+  const clients = new Map<string, RelayClient>([[allowedOrigin, client]]);
+  for (const other of otherRealms) {
+    if (clients.has(`https://${other}`)) continue;
+    const otherClient = new RelayClient(port, `/setup?realm=${encodeURIComponent(other)}`);
+    clients.set(`https://${other}`, otherClient);
+    client.addRealmClient(other, otherClient);
+  }
+  const clientForRealm = (name: string | null): RelayClient | undefined =>
+    name === null ? client : clients.get(`https://${name}`);
 
   const server = http.createServer(async (req, res) => {
-    cors(res, allowedOrigin);
+    const origin = req.headers.origin as string | undefined;
+    cors(res, origin !== undefined && clients.has(origin) ? origin : allowedOrigin);
 
     if (req.method === 'OPTIONS') {
       res.writeHead(204).end();
@@ -419,18 +457,29 @@ export function startRelayServer(realm: string, port: number): RelayClient {
     }
 
     const url = req.url ?? '/';
+    const [pathname, query = ''] = url.split('?', 2);
+    const requestedRealm = new URLSearchParams(query).get('realm');
 
     // ── GET /setup ──────────────────────────────────────────────────────────
-    if (req.method === 'GET' && url === '/setup') {
-      const html = buildSetupPage(realm, port);
+    if (req.method === 'GET' && pathname === '/setup') {
+      if (!clientForRealm(requestedRealm)) {
+        res.writeHead(404).end();
+        return;
+      }
+      const html = buildSetupPage(requestedRealm ?? realm, port);
       res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
       res.end(html);
       return;
     }
 
     // ── GET /relay/status ────────────────────────────────────────────────────
-    if (req.method === 'GET' && url === '/relay/status') {
-      const body = JSON.stringify({ active: client.isActive, realmUser: client.currentUser });
+    if (req.method === 'GET' && pathname === '/relay/status') {
+      const target = clientForRealm(requestedRealm);
+      if (!target) {
+        res.writeHead(404).end();
+        return;
+      }
+      const body = JSON.stringify({ active: target.isActive, realmUser: target.currentUser });
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(body);
       return;
@@ -442,14 +491,13 @@ export function startRelayServer(realm: string, port: number): RelayClient {
     // web pages: a same-process shutdown (no Origin header) is always accepted;
     // a cross-site request carrying a non-QB Origin is rejected with 403.
     if (req.method === 'POST' && url === '/relay/shutdown') {
-      const origin = req.headers.origin as string | undefined;
-      if (!isOriginAllowed(origin, allowedOrigin)) {
+      if (!isOriginAllowed(origin, clients)) {
         sendForbidden(res);
         return;
       }
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ ok: true }));
-      client.shutdown();
+      for (const realmClient of clients.values()) realmClient.shutdown();
       setImmediate(() => server.close());
       console.error('QB Pipeline relay server: received shutdown signal — closing to allow restart.');
       return;
@@ -457,7 +505,11 @@ export function startRelayServer(realm: string, port: number): RelayClient {
 
     // ── GET /relay/pending ────────────────────────────────────────────────────
     if (req.method === 'GET' && url === '/relay/pending') {
-      client.registerLongPoll(res);
+      if (!isOriginAllowed(origin, clients)) {
+        sendForbidden(res);
+        return;
+      }
+      (clients.get(origin ?? allowedOrigin) ?? client).registerLongPoll(res);
       return;
     }
 
@@ -466,7 +518,7 @@ export function startRelayServer(realm: string, port: number): RelayClient {
       try {
         const body = await readBody(req) as { csrfToken: string; realm: string };
         if (body?.csrfToken && body?.realm) {
-          client.receiveHello(body.csrfToken, body.realm);
+          (clients.get(origin ?? `https://${body.realm}`) ?? client).receiveHello(body.csrfToken, body.realm);
         }
         res.writeHead(204).end();
       } catch {
@@ -478,14 +530,16 @@ export function startRelayServer(realm: string, port: number): RelayClient {
     // ── POST /relay/result/:id ────────────────────────────────────────────────
     const resultMatch = url.match(/^\/relay\/result\/([a-f0-9-]{36})$/);
     if (req.method === 'POST' && resultMatch) {
-      const origin = req.headers.origin as string | undefined;
-      if (!isOriginAllowed(origin, allowedOrigin)) {
+      if (!isOriginAllowed(origin, clients)) {
         sendForbidden(res);
         return;
       }
       try {
         const result = await readBody(req) as RelayResult;
-        client.receiveResult(resultMatch[1], result);
+        const target = origin !== undefined
+          ? clients.get(origin)
+          : [...clients.values()].find(c => c.hasPending(resultMatch[1]));
+        (target ?? client).receiveResult(resultMatch[1], result);
         res.writeHead(204).end();
       } catch {
         res.writeHead(400).end();
@@ -1,5 +1,11 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { FilterSchema } from '../utils/filter.js';
+import { AGGREGATE_FUNCTIONS } from '../utils/aggregate.js';
+import { ExportOptionsSchema } from '../utils/export.js';
+import { SNAPSHOT_FORMATS } from '../quickbase/schemaSnapshot.js';
+import { DesiredSchemaSchema } from '../quickbase/schemaPlan.js';
+import { confirmationRequiredTools, destructiveTools } from '../utils/toolGuards.js';
 
 // Read the relay port at module load time so tool descriptions reference the
 // correct URL even when QB_RELAY_PORT overrides the default 3737.
@@ -98,6 +104,58 @@ const CreateTableSchema = z.object({
   description: z.string().max(1024).optional().describe('Table description')
 });
 
+const CloneTableSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID of the source table'),
+  confirm: z.literal(true).describe('Required confirmation for schema-modifying operations'),
+  tableId: z.string().min(3).max(64).describe('Table to clone'),
+  targetAppId: z.string().min(1).max(64).describe('Registered app to create the copy in'),
+  name: z.string().min(1).max(128).optional().describe('Name of the new table (defaults to the source name)'),
+  copyRecords: z.object({
+    where: z.string().max(5000).optional().describe('QuickBase query selecting the records to copy'),
+    filter: FilterSchema.optional().describe('Structured filter; ANDed with where when both are given'),
+    maxRecords: z.number().int().min(1).max(10000).default(1000).describe('Max records to copy (default 1000)')
+  }).strict().optional().describe('Also copy records from the source table')
+});
+
+const RefreshSchemaSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  tableId: z.string().min(3).max(64).optional().describe('Limit the refresh to one table')
+});
+
+const ExportSchemaSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  format: z.enum(SNAPSHOT_FORMATS).default('json').describe('Output format'),
+  tableIds: z.array(z.string().min(3).max(64)).min(1).max(500).optional().describe('Limit the snapshot to these tables'),
+  path: z.string().min(1).max(1024).optional().describe('File to write, relative to QB_EXPORT_DIR'),
+  overwrite: z.boolean().optional().describe('Replace the file if it already exists')
+});
+
+const DiffSchemaSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID (the "from" side)'),
+  compareAppId: z.string().min(1).max(64).optional().describe('Registered app to compare against'),
+  snapshotPath: z.string().min(1).max(1024).optional().describe('JSON snapshot file to compare against, relative to QB_EXPORT_DIR')
+}).refine(v => (v.compareAppId === undefined) !== (v.snapshotPath === undefined), {
+  message: 'Provide exactly one of compareAppId or snapshotPath'
+});
+
+const PlanSchemaSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  desired: DesiredSchemaSchema.optional().describe('Desired-state document'),
+  snapshotPath: z.string().min(1).max(1024).optional().describe('JSON snapshot to use as the desired state, relative to QB_EXPORT_DIR')
+}).refine(v => (v.desired === undefined) !== (v.snapshotPath === undefined), {
+  message: 'Provide exactly one of desired or snapshotPath'
+});
+
+const ApplySchemaSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  confirm: z.literal(true).describe('Required confirmation for schema-modifying operations'),
+  planId: z.string().min(1).max(64).describe('planId returned by quickbase_plan_schema'),
+  desired: DesiredSchemaSchema.optional().describe('The desired-state document that was planned'),
+  snapshotPath: z.string().min(1).max(1024).optional().describe('The snapshot that was planned, relative to QB_EXPORT_DIR')
+}).refine(v => (v.desired === undefined) !== (v.snapshotPath === undefined), {
+  message: 'Provide exactly one of desired or snapshotPath'
+});
+
 const CreateFieldSchema = z.object({
   appId: z.string().min(1).max(64).describe('QuickBase application ID'),
   confirm: z.literal(true).describe('Required confirmation for schema-modifying operations'),
@@ -119,14 +177,50 @@ const CreateFieldSchema = z.object({
 const QueryRecordsSchema = z.object({
   appId: z.string().min(1).max(64).describe('QuickBase application ID'),
   tableId: z.string().min(3).max(64).describe('Table ID to query'),
-  select: z.array(z.number()).optional().describe('Field IDs to select'),
+  select: z.array(z.union([z.number(), z.string().max(128)])).optional().describe('Field IDs (or labels when fieldNames is true) to select'),
   where: z.string().max(5000).optional().describe('QuickBase query filter'),
+  filter: FilterSchema.optional().describe('Structured filter; ANDed with where when both are given'),
   sortBy: z.array(z.object({
-    fieldId: z.number(),
+    fieldId: z.union([z.number(), z.string().max(128)]),
     order: z.enum(['ASC', 'DESC']).default('ASC')
   })).optional().describe('Sort criteria'),
-  top: z.number().int().min(1).max(1000).optional().describe('Max number of records'),
-  skip: z.number().int().min(0).max(100000).optional().describe('Number of records to skip')
+  fieldNames: z.boolean().optional().describe('Address fields by label and return rows keyed by label'),
+  top: z.number().int().min(1).max(1000).optional().describe('Max number of records to return (with maxRecords: per request)'),
+  skip: z.number().int().min(0).max(100000).optional().describe('Number of records to skip'),
+  maxRecords: z.number().int().min(1).max(10000).optional().describe('Max total records to return across pages (default 1000)'),
+  cursor: z.string().min(1).max(16384).optional().describe('Continuation token from a previous query (nextCursor)'),
+  export: ExportOptionsSchema.optional().describe('Write every matching row as CSV or JSONL instead of returning JSON')
+});
+
+const RunReportSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  tableId: z.string().min(3).max(64).describe('Table ID'),
+  reportId: z.string().min(1).max(64).optional().describe('Report ID'),
+  reportName: z.string().min(1).max(256).optional().describe('Report name (as listed by quickbase_get_reports)'),
+  fieldNames: z.boolean().optional().describe('Return rows keyed by column label'),
+  top: z.number().int().min(1).max(1000).optional().describe('Max number of records to return (with maxRecords: per request)'),
+  skip: z.number().int().min(0).max(100000).optional().describe('Number of report rows to skip'),
+  maxRecords: z.number().int().min(1).max(10000).optional().describe('Max total records to return across pages (default 1000)'),
+  export: ExportOptionsSchema.optional().describe('Write the report rows as CSV or JSONL instead of returning JSON')
+}).refine(v => (v.reportId === undefined) !== (v.reportName === undefined), {
+  message: 'Provide exactly one of reportId or reportName'
+});
+
+const AggregateRecordsSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  tableId: z.string().min(3).max(64).describe('Table ID to aggregate'),
+  groupBy: z.array(z.union([z.number().int(), z.string().max(128)])).max(10).optional().describe('Field IDs or labels to group by'),
+  metrics: z.array(z.object({
+    fn: z.enum(AGGREGATE_FUNCTIONS),
+    field: z.union([z.number().int(), z.string().max(128)]).optional(),
+    as: z.string().min(1).max(128).optional()
+  }).refine(m => m.fn === 'count' || m.field !== undefined, {
+    message: 'field is required for sum, avg, min and max'
+  })).min(1).max(20).describe('Metrics to compute per group'),
+  where: z.string().max(5000).optional().describe('QuickBase query filter'),
+  filter: FilterSchema.optional().describe('Structured filter; ANDed with where when both are given'),
+  maxRows: z.number().int().min(1).max(1_000_000).optional().describe('Stop scanning after this many rows (default 100000)'),
+  maxGroups: z.number().int().min(1).max(5000).optional().describe('Maximum groups to return (default 1000)')
 });
 
 const CreateRecordSchema = z.object({
@@ -135,7 +229,8 @@ const CreateRecordSchema = z.object({
   tableId: z.string().min(3).max(64).describe('Table ID to create record in'),
   fields: z.record(z.any())
     .superRefine((v, ctx) => validateFieldPayload(v, ctx))
-    .describe('Field values as fieldId: value pairs')
+    .describe('Field values as fieldId: value pairs'),
+  fieldNames: z.boolean().optional().describe('Treat the keys of fields as field labels instead of IDs')
 });
 
 const UpdateRecordSchema = z.object({
@@ -145,7 +240,8 @@ const UpdateRecordSchema = z.object({
   recordId: z.number().describe('Record ID to update'),
   fields: z.record(z.any())
     .superRefine((v, ctx) => validateFieldPayload(v, ctx))
-    .describe('Field values to update as fieldId: value pairs')
+    .describe('Field values to update as fieldId: value pairs'),
+  fieldNames: z.boolean().optional().describe('Treat the keys of fields as field labels instead of IDs')
 });
 
 const BulkCreateSchema = z.object({
@@ -154,14 +250,69 @@ const BulkCreateSchema = z.object({
   tableId: z.string().min(3).max(64).describe('Table ID'),
   records: z.array(z.object({
     fields: z.record(z.any()).superRefine((v, ctx) => validateFieldPayload(v, ctx))
-  })).max(250).describe('Array of records to create')
+  })).max(10000).describe('Array of records to create')
+});
+
+const UpsertRecordsSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  confirm: z.literal(true).describe('Required confirmation for data-modifying operations'),
+  tableId: z.string().min(3).max(64).describe('Table ID'),
+  mergeFieldId: z.number().int().describe('Unique field ID used to match existing records'),
+  records: z.array(z.object({
+    keyValue: z.union([z.string().max(10000), z.number(), z.boolean()]).describe('Value of the merge field for this record'),
+    fields: z.record(z.any()).superRefine((v, ctx) => validateFieldPayload(v, ctx))
+  })).min(1).max(250).describe('Array of records to insert or update')
+});
+
+const BulkUpdateRecordsSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  confirm: z.literal(true).describe('Required confirmation for data-modifying operations'),
+  tableId: z.string().min(3).max(64).describe('Table ID'),
+  records: z.array(z.object({
+    recordId: z.number().int().describe('Record ID to update'),
+    fields: z.record(z.any()).superRefine((v, ctx) => validateFieldPayload(v, ctx))
+  })).min(1).max(10000).describe('Array of record updates'),
+  expectedAffectedRows: z.number().int().nonnegative().optional().describe('Override for the app\'s affected-row limit: the record count the refusal reported')
+});
+
+const UndoSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  confirm: z.literal(true).describe('Required confirmation for data-modifying operations'),
+  operationId: z.string().min(1).max(64).describe('Undo operation ID returned by quickbase_update_record or quickbase_delete_record'),
+  force: z.boolean().optional().describe('Restore records even if they changed after the operation')
+});
+
+const ImportRecordsSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  confirm: z.literal(true).describe('Required confirmation for data-modifying operations'),
+  tableId: z.string().min(3).max(64).describe('Table ID'),
+  format: z.enum(['csv', 'jsonl']).describe('Format of data'),
+  data: z.string().min(1).max(10_000_000).describe('CSV (with a header row) or JSONL text'),
+  mapping: z.record(z.union([z.number().int(), z.string().max(128)])).optional()
+    .describe('Source column → field label or ID; defaults to matching column names to field labels'),
+  mergeField: z.union([z.number().int(), z.string().max(128)]).optional()
+    .describe('Unique field (label or ID) to upsert on'),
+  delimiter: z.string().length(1).optional().describe('CSV delimiter (default ",")'),
+  dryRun: z.boolean().optional().describe('Validate and report without writing'),
+  skipInvalidRows: z.boolean().optional().describe('Import the valid rows even when some rows fail validation')
+});
+
+const BulkDeleteRecordsSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  tableId: z.string().min(3).max(64).describe('Table ID'),
+  recordIds: z.array(z.number().int()).min(1).max(250).optional().describe('Record IDs to delete'),
+  filter: FilterSchema.optional().describe('Delete every record matching this filter instead of a list of IDs'),
+  expectedAffectedRows: z.number().int().nonnegative().optional().describe('Override for the app\'s affected-row limit: the record count the refusal reported')
+}).refine(v => (v.recordIds === undefined) !== (v.filter === undefined), {
+  message: 'Provide exactly one of recordIds or filter'
 });
 
 const SearchRecordsSchema = z.object({
   appId: z.string().min(1).max(64).describe('QuickBase application ID'),
   tableId: z.string().min(3).max(64).describe('Table ID to search'),
   searchTerm: z.string().min(1).max(200).describe('Text to search for'),
-  fieldIds: z.array(z.number()).optional().describe('Field IDs to search in')
+  fieldIds: z.array(z.number()).optional().describe('Field IDs to search in'),
+  filter: FilterSchema.optional().describe('Structured filter ANDed with the search')
 });
 
 const CreateRelationshipSchema = z.object({
@@ -222,6 +373,21 @@ const GetRelationshipDetailsSchema = z.object({
   includeFields: z.boolean().default(true).describe('Include related field details')
 });
 
+const GetAuditLogSchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  limit: z.number().int().min(1).max(1000).default(50).describe('Max entries to return, newest first (default 50)'),
+  tool: z.string().min(1).max(128).optional().describe('Only entries for this tool'),
+  tableId: z.string().min(1).max(64).optional().describe('Only entries for this table'),
+  outcome: z.enum(['success', 'error', 'denied']).optional().describe('Only entries with this outcome'),
+  since: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this ISO 8601 timestamp')
+});
+
+const ExplainPolicySchema = z.object({
+  appId: z.string().min(1).max(64).describe('QuickBase application ID'),
+  tool: z.string().min(1).max(128).optional().describe('Only explain the decision for this tool'),
+  tableId: z.string().min(1).max(64).optional().describe('Evaluate the tools against this table\'s rules')
+});
+
 // ========== WEBHOOK SCHEMAS ==========
 
 const CreateWebhookSchema = z.object({
@@ -359,6 +525,24 @@ const StartImpersonationSchema = z.object({
   qbUserId: z.string().min(1)
 });
 
+const FILTER_DESCRIPTION =
+  'Structured filter instead of a raw where string. A condition is { "field": <ID or label>, "op": "EX", "value": "x" }; ' +
+  'op is one of CT, XCT, HAS, XHAS, EX, XEX, TV, SW, XSW, BF, OBF, AF, OAF, IR, XIR, LT, LTE, GT, GTE. ' +
+  'Combine with { "and": [...] }, { "or": [...] } and { "not": {...} }. Values are escaped automatically.';
+
+const EXPORT_PROPERTY = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['csv', 'jsonl'] },
+    path: { type: 'string', description: 'File to write, relative to QB_EXPORT_DIR (omit to return the export inline, up to 1 MB)' },
+    overwrite: { type: 'boolean', description: 'Replace the file if it already exists' },
+    maxRows: { type: 'number', description: 'Stop after this many rows (default 1000000)' }
+  },
+  required: ['format'],
+  description: 'Export mode: rows are flattened to { label: value } (multi-select joined with "; ", users as email, ' +
+    'addresses as one line, files as their URL) and every page is followed. CSV has a header row and opens directly in spreadsheet applications.'
+};
+
 // Injects appId into a tool's JSON Schema properties and required list
 function withAppId(tool: Tool): Tool {
   return {
@@ -374,6 +558,25 @@ function withAppId(tool: Tool): Tool {
   };
 }
 
+// Adds the dryRun flag to tools that can change something (import has its own)
+function withDryRun(tool: Tool): Tool {
+  const properties = (tool.inputSchema as any).properties ?? {};
+  if (!(confirmationRequiredTools.has(tool.name) || destructiveTools.has(tool.name)) || properties.dryRun) return tool;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...properties,
+        dryRun: {
+          type: 'boolean',
+          description: 'Validate against the live schema and return the exact API requests, and the records they would touch, without sending anything (confirm not needed)'
+        }
+      }
+    }
+  };
+}
+
 // Define all MCP tools
 const rawTools: Tool[] = [
   // ========== APPLICATION TOOLS ==========
@@ -407,6 +610,35 @@ const rawTools: Tool[] = [
     }
   },
 
+  {
+    name: 'quickbase_get_audit_log',
+    description: 'Read recent entries from the app\'s audit log, newest first. Every call to a tool that can change data or schema is logged (including refused calls) with its tool, table, redacted arguments, affected record IDs, outcome and duration. Requires QB_AUDIT_LOG or QB_APP_<id>_AUDIT_LOG.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Max entries to return (default 50, max 1000)' },
+        tool: { type: 'string', description: 'Only entries for this tool' },
+        tableId: { type: 'string', description: 'Only entries for this table' },
+        outcome: { type: 'string', enum: ['success', 'error', 'denied'], description: 'Only entries with this outcome' },
+        since: { type: 'string', description: 'Only entries at or after this ISO 8601 timestamp' }
+      },
+      required: []
+    }
+  },
+
+  {
+    name: 'quickbase_explain_policy',
+    description: 'Show the effective rules for an app: its readOnly, allowDestructive and maxAffectedRows settings, the allow/deny/table rules from the QB_POLICY_FILE policy and where each came from, and which tools are allowed or denied (and why). Pass tool for a single decision, tableId to apply that table\'s rules.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tool: { type: 'string', description: 'Only explain the decision for this tool' },
+        tableId: { type: 'string', description: 'Evaluate the tools against this table\'s rules' }
+      },
+      required: []
+    }
+  },
+
   // ========== TABLE TOOLS ==========
   {
     name: 'quickbase_create_table',
@@ -422,6 +654,30 @@ const rawTools: Tool[] = [
     }
   },
 
+  {
+    name: 'quickbase_clone_table',
+    description: 'Copy a table\'s structure into another registered app: a new table with the same fields, choices and formulas. Field-ID references in formulas are rewritten to the new IDs. Lookup and summary fields are skipped because the target has no matching relationship. With copyRecords, up to maxRecords matching records are copied too (formula values and file attachments excepted).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', description: 'Required confirmation for schema-modifying operations (must be true)' },
+        tableId: { type: 'string', description: 'Table to clone' },
+        targetAppId: { type: 'string', description: 'Registered app to create the copy in' },
+        name: { type: 'string', description: 'Name of the new table (defaults to the source name)' },
+        copyRecords: {
+          type: 'object',
+          description: 'Also copy records: { where?, filter?, maxRecords? (default 1000, max 10000) }',
+          properties: {
+            where: { type: 'string', description: 'QuickBase query selecting the records to copy' },
+            filter: { type: 'object', description: 'Structured filter (same shape as quickbase_query_records); ANDed with where' },
+            maxRecords: { type: 'number', description: 'Max records to copy (default 1000)' }
+          }
+        }
+      },
+      required: ['confirm', 'tableId', 'targetAppId']
+    }
+  },
+
   {
     name: 'quickbase_get_table_info',
     description: 'Get detailed information about a specific table',
@@ -459,6 +715,77 @@ const rawTools: Tool[] = [
     }
   },
 
+  {
+    name: 'quickbase_refresh_schema',
+    description: 'Discard cached table and field metadata so the next call re-reads it from QuickBase. Use after schema changes made outside this server.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tableId: { type: 'string', description: 'Only refresh this table (omit to refresh the whole app)' }
+      },
+      required: []
+    }
+  },
+
+  {
+    name: 'quickbase_export_schema',
+    description: 'Capture the app\'s schema as one deterministic JSON or YAML document: tables, fields (types, formulas, choices, properties), reports, relationships, webhooks and email notifications. Timestamps and usage counters are omitted and every list is sorted, so the output can be committed to git and diffed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: { type: 'string', enum: [...SNAPSHOT_FORMATS], description: 'Output format (default json)' },
+        tableIds: { type: 'array', items: { type: 'string' }, description: 'Only include these tables (omit for the whole app)' },
+        path: { type: 'string', description: 'File to write, relative to QB_EXPORT_DIR (omit to return the document inline)' },
+        overwrite: { type: 'boolean', description: 'Replace the file if it already exists' }
+      },
+      required: []
+    }
+  },
+
+  {
+    name: 'quickbase_diff_schema',
+    description: 'Compare this app\'s live schema with another registered app or with a JSON snapshot from quickbase_export_schema. Tables are matched by name and fields by label (not ID), so copies of an app (e.g. dev and prod) compare cleanly. Reports added, removed and changed tables, fields (type, formula, choices, required, unique) and relationships; "added" means present only in the compared app or snapshot.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        compareAppId: { type: 'string', description: 'Registered app to compare against (or use snapshotPath)' },
+        snapshotPath: { type: 'string', description: 'JSON snapshot file to compare against, relative to QB_EXPORT_DIR (or use compareAppId)' }
+      },
+      required: []
+    }
+  },
+
+  {
+    name: 'quickbase_plan_schema',
+    description: 'Compare the app with a desired-state document (tables by name, fields by label, relationships by table names) and return an ordered plan of the creates and updates needed to reach it, plus a planId. Nothing is changed and nothing is ever deleted: items missing from the desired state are listed as unmanaged, and differences QuickBase cannot change in place (such as a field type) are reported as warnings. A JSON snapshot from quickbase_export_schema can be used as the desired state.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        desired: {
+          type: 'object',
+          description: 'Desired state: { tables: [{ name, description?, singleRecordName?, fields: [{ label, fieldType, mode?, formula?, choices?, required?, unique? }] }], relationships?: [{ parentTable, childTable, foreignKeyField, lookupFields?: [{ parentField, label }] }] }'
+        },
+        snapshotPath: { type: 'string', description: 'JSON snapshot to use as the desired state, relative to QB_EXPORT_DIR (or use desired)' }
+      },
+      required: []
+    }
+  },
+
+  {
+    name: 'quickbase_apply_schema',
+    description: 'Execute a plan from quickbase_plan_schema. Pass the same desired state (or snapshotPath) and the planId; the plan is recomputed and applied only if it still matches. Each operation is checked against the app\'s safety settings before it runs, and execution stops at the first failure with a report of what was applied, what failed and what was not attempted.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', description: 'Required confirmation for schema-modifying operations (must be true)' },
+        planId: { type: 'string', description: 'planId returned by quickbase_plan_schema' },
+        desired: { type: 'object', description: 'The desired-state document that was planned' },
+        snapshotPath: { type: 'string', description: 'The snapshot that was planned, relative to QB_EXPORT_DIR' }
+      },
+      required: ['confirm', 'planId']
+    }
+  },
+
   {
     name: 'quickbase_create_field',
     description: 'Create a new field in a table',
@@ -517,31 +844,72 @@ const rawTools: Tool[] = [
   // ========== RECORD TOOLS ==========
   {
     name: 'quickbase_query_records',
-    description: 'Query records from a table with optional filtering and sorting',
+    description: 'Query records from a table with optional filtering and sorting. Follows QuickBase paging until maxRecords rows are collected and returns totalRecords, hasMore and a nextCursor token for fetching the next page. Pass export to get every matching row as CSV or JSONL instead.',
     inputSchema: {
       type: 'object',
       properties: {
         tableId: { type: 'string', description: 'Table ID to query' },
-        select: { type: 'array', items: { type: 'number' }, description: 'Field IDs to select' },
+        select: { type: 'array', items: { type: ['number', 'string'] }, description: 'Field IDs to select (or field labels when fieldNames is true)' },
         where: { type: 'string', description: 'QuickBase query filter (e.g., "{6.EX.\'John\'}")' },
+        filter: {
+          type: 'object',
+          description: FILTER_DESCRIPTION
+        },
         sortBy: { 
           type: 'array', 
           items: {
             type: 'object',
             properties: {
-              fieldId: { type: 'number' },
+              fieldId: { type: ['number', 'string'] },
               order: { type: 'string', enum: ['ASC', 'DESC'] }
             }
           },
           description: 'Sort criteria'
         },
-        top: { type: 'number', description: 'Max number of records' },
-        skip: { type: 'number', description: 'Number of records to skip' }
+        fieldNames: { type: 'boolean', description: 'If true, select and sortBy accept field labels, and rows are returned as { label: value } objects instead of { fieldId: { value } } cells' },
+        top: { type: 'number', description: 'Max number of records to return; with maxRecords, the max per request (QuickBase may return fewer)' },
+        skip: { type: 'number', description: 'Number of records to skip' },
+        maxRecords: { type: 'number', description: 'Max total records to return; pages are followed automatically until this cap is reached (default 1000, max 10000)' },
+        cursor: { type: 'string', description: 'Continuation token (nextCursor) from a previous call. When supplied, the original query is resumed and select/where/sortBy/skip are ignored.' },
+        export: EXPORT_PROPERTY
       },
       required: ['tableId']
     }
   },
 
+  {
+    name: 'quickbase_aggregate_records',
+    description: 'Count, sum, average, min or max field values, optionally grouped by one or more fields. Pages through every matching row server-side and returns one compact row per group, plus rowsScanned/totalRecords/complete so the figures can be sanity-checked.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tableId: { type: 'string', description: 'Table ID to aggregate' },
+        groupBy: { type: 'array', items: { type: ['number', 'string'] }, description: 'Field IDs or labels to group by (omit for one overall row)' },
+        metrics: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              fn: { type: 'string', enum: [...AGGREGATE_FUNCTIONS] },
+              field: { type: ['number', 'string'], description: 'Field ID or label (omit for a plain row count)' },
+              as: { type: 'string', description: 'Column name in the result (default e.g. "sum(Amount)")' }
+            },
+            required: ['fn']
+          },
+          description: 'Metrics to compute per group'
+        },
+        where: { type: 'string', description: 'QuickBase query filter' },
+        filter: {
+          type: 'object',
+          description: FILTER_DESCRIPTION
+        },
+        maxRows: { type: 'number', description: 'Stop scanning after this many rows (default 100000); complete is false when reached' },
+        maxGroups: { type: 'number', description: 'Maximum groups to return (default 1000)' }
+      },
+      required: ['tableId', 'metrics']
+    }
+  },
+
   {
     name: 'quickbase_get_record',
     description: 'Get a specific record by ID',
@@ -566,9 +934,10 @@ const rawTools: Tool[] = [
         tableId: { type: 'string', description: 'Table ID to create record in' },
         fields: { 
           type: 'object', 
-          description: 'Field values as fieldId: {value: actualValue} pairs',
+          description: 'Field values as fieldId: {value: actualValue} pairs (or label: value pairs when fieldNames is true)',
           additionalProperties: true
-        }
+        },
+        fieldNames: { type: 'boolean', description: 'If true, the keys of fields are field labels; unknown or ambiguous labels are rejected' }
       },
       required: ['confirm', 'tableId', 'fields']
     }
@@ -576,7 +945,7 @@ const rawTools: Tool[] = [
 
   {
     name: 'quickbase_update_record',
-    description: 'Update an existing record',
+    description: 'Update an existing record. The previous values are journaled first; the response includes an operationId for quickbase_undo.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -585,9 +954,10 @@ const rawTools: Tool[] = [
         recordId: { type: 'number', description: 'Record ID to update' },
         fields: { 
           type: 'object', 
-          description: 'Field values to update as fieldId: {value: actualValue} pairs',
+          description: 'Field values to update as fieldId: {value: actualValue} pairs (or label: value pairs when fieldNames is true)',
           additionalProperties: true
-        }
+        },
+        fieldNames: { type: 'boolean', description: 'If true, the keys of fields are field labels; unknown or ambiguous labels are rejected' }
       },
       required: ['confirm', 'tableId', 'recordId', 'fields']
     }
@@ -595,7 +965,7 @@ const rawTools: Tool[] = [
 
   {
     name: 'quickbase_delete_record',
-    description: 'Delete a record from a table',
+    description: 'Delete a record from a table. The record is journaled first; the response includes an operationId for quickbase_undo.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -606,9 +976,23 @@ const rawTools: Tool[] = [
     }
   },
 
+  {
+    name: 'quickbase_undo',
+    description: 'Undo a quickbase_update_record or quickbase_delete_record call using the operationId it returned. Updated fields get their previous values; deleted records are created again with new record IDs. Records that were changed after the operation (or deleted records that still exist) are skipped with a warning unless force is true. Computed fields and file attachments are not restored.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', description: 'Required confirmation for data-modifying operations (must be true)' },
+        operationId: { type: 'string', description: 'Undo operation ID returned by quickbase_update_record or quickbase_delete_record' },
+        force: { type: 'boolean', description: 'Restore records even if they changed after the operation' }
+      },
+      required: ['confirm', 'operationId']
+    }
+  },
+
   {
     name: 'quickbase_bulk_create_records',
-    description: 'Create multiple records at once',
+    description: 'Create multiple records at once. Large batches are sent in several requests; if some fail, the response lists the failed rows and chunks.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -622,13 +1006,107 @@ const rawTools: Tool[] = [
               fields: { type: 'object', additionalProperties: true }
             }
           },
-          description: 'Array of records to create'
+          description: 'Array of records to create (max 10000)'
         }
       },
       required: ['confirm', 'tableId', 'records']
     }
   },
 
+  {
+    name: 'quickbase_upsert_records',
+    description: 'Insert or update multiple records at once, matching existing records on a unique merge field. Returns the outcome of each record (created, updated, unchanged or error).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', description: 'Required confirmation for data-modifying operations (must be true)' },
+        tableId: { type: 'string', description: 'Table ID' },
+        mergeFieldId: { type: 'number', description: 'Unique field ID used to match existing records' },
+        records: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              keyValue: { description: 'Value of the merge field for this record' },
+              fields: { type: 'object', additionalProperties: true, description: 'Other field values as fieldId: {value: actualValue} pairs' }
+            },
+            required: ['keyValue', 'fields']
+          },
+          description: 'Array of records to insert or update (max 250)'
+        }
+      },
+      required: ['confirm', 'tableId', 'mergeFieldId', 'records']
+    }
+  },
+
+  {
+    name: 'quickbase_import_records',
+    description: 'Import CSV or JSONL text into a table. Columns are mapped to fields by label or ID, values are type-checked and coerced against the field definitions, and an optional merge field turns the import into an upsert. Errors are reported per source line. Use dryRun to validate first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', description: 'Required confirmation for data-modifying operations (must be true)' },
+        tableId: { type: 'string', description: 'Table ID' },
+        format: { type: 'string', enum: ['csv', 'jsonl'], description: 'Format of data' },
+        data: { type: 'string', description: 'CSV text with a header row, or one JSON object per line' },
+        mapping: {
+          type: 'object',
+          additionalProperties: { type: ['string', 'number'] },
+          description: 'Source column name → field label or ID. Omit to match column names to field labels; when given, unmapped columns are ignored.'
+        },
+        mergeField: { type: ['string', 'number'], description: 'Unique field (label or ID) used to match existing records; rows are upserted instead of created' },
+        delimiter: { type: 'string', description: 'CSV delimiter (default ",")' },
+        dryRun: { type: 'boolean', description: 'Parse, map and validate without writing; returns a preview and per-line errors (confirm not needed)' },
+        skipInvalidRows: { type: 'boolean', description: 'Write the valid rows even when some rows fail validation (default false: nothing is written)' }
+      },
+      required: ['confirm', 'tableId', 'format', 'data']
+    }
+  },
+
+  {
+    name: 'quickbase_bulk_update_records',
+    description: 'Update multiple existing records at once. Large batches are sent in several requests. Returns the updated and unchanged record IDs, errors by row, and any failed chunks.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirm: { type: 'boolean', description: 'Required confirmation for data-modifying operations (must be true)' },
+        tableId: { type: 'string', description: 'Table ID' },
+        records: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              recordId: { type: 'number', description: 'Record ID to update' },
+              fields: { type: 'object', additionalProperties: true, description: 'Field values to update as fieldId: {value: actualValue} pairs' }
+            },
+            required: ['recordId', 'fields']
+          },
+          description: 'Array of record updates (max 10000)'
+        },
+        expectedAffectedRows: { type: 'number', description: 'Only needed above the app\'s MAX_AFFECTED_ROWS limit: the record count the refusal reported, echoed back to confirm it' }
+      },
+      required: ['confirm', 'tableId', 'records']
+    }
+  },
+
+  {
+    name: 'quickbase_bulk_delete_records',
+    description: 'Delete multiple records, either by Record ID or by a structured filter (exactly one of recordIds or filter)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tableId: { type: 'string', description: 'Table ID' },
+        recordIds: { type: 'array', items: { type: 'number' }, description: 'Record IDs to delete (max 250)' },
+        filter: {
+          type: 'object',
+          description: FILTER_DESCRIPTION
+        },
+        expectedAffectedRows: { type: 'number', description: 'Only needed above the app\'s MAX_AFFECTED_ROWS limit: the record count the refusal reported, echoed back to confirm it' }
+      },
+      required: ['tableId']
+    }
+  },
+
   {
     name: 'quickbase_search_records',
     description: 'Search for records containing specific text',
@@ -637,7 +1115,11 @@ const rawTools: Tool[] = [
       properties: {
         tableId: { type: 'string', description: 'Table ID to search' },
         searchTerm: { type: 'string', description: 'Text to search for' },
-        fieldIds: { type: 'array', items: { type: 'number' }, description: 'Field IDs to search in' }
+        fieldIds: { type: 'array', items: { type: 'number' }, description: 'Field IDs to search in' },
+        filter: {
+          type: 'object',
+          description: FILTER_DESCRIPTION
+        }
       },
       required: ['tableId', 'searchTerm']
     }
@@ -686,14 +1168,20 @@ const rawTools: Tool[] = [
 
   {
     name: 'quickbase_run_report',
-    description: 'Run a specific report',
+    description: 'Run a saved report by ID or name. QuickBase applies the report\'s own filter, columns and sort order. Follows paging until maxRecords rows are collected and returns the report\'s fields, column labels, totalRecords, hasMore and nextSkip. Pass export to get the rows as CSV or JSONL keyed by field label.',
     inputSchema: {
       type: 'object',
       properties: {
-        reportId: { type: 'string', description: 'Report ID' },
-        tableId: { type: 'string', description: 'Table ID' }
+        reportId: { type: 'string', description: 'Report ID (or use reportName)' },
+        reportName: { type: 'string', description: 'Report name, matched exactly then case-insensitively (or use reportId)' },
+        tableId: { type: 'string', description: 'Table ID' },
+        fieldNames: { type: 'boolean', description: 'If true, rows are returned as { label: value } objects instead of { fieldId: { value } } cells' },
+        top: { type: 'number', description: 'Max number of records to return; with maxRecords, the max per request (QuickBase may return fewer)' },
+        skip: { type: 'number', description: 'Number of report rows to skip (pass the previous nextSkip to continue)' },
+        maxRecords: { type: 'number', description: 'Max total records to return; pages are followed automatically (default 1000, max 10000)' },
+        export: EXPORT_PROPERTY
       },
-      required: ['reportId', 'tableId']
+      required: ['tableId']
     }
   },
 
@@ -1070,7 +1558,7 @@ export const quickbaseTools: Tool[] = [
       required: []
     }
   },
-  ...rawTools.map(withAppId)
+  ...rawTools.map(withAppId).map(withDryRun)
 ];
 
 // Export schemas for validation
@@ -1078,11 +1566,24 @@ export {
   TableIdSchema,
   RecordIdSchema,
   CreateTableSchema,
+  CloneTableSchema,
   CreateFieldSchema,
+  RefreshSchemaSchema,
+  ExportSchemaSchema,
+  DiffSchemaSchema,
+  PlanSchemaSchema,
+  ApplySchemaSchema,
   QueryRecordsSchema,
+  RunReportSchema,
+  AggregateRecordsSchema,
   CreateRecordSchema,
   UpdateRecordSchema,
   BulkCreateSchema,
+  UpsertRecordsSchema,
+  BulkUpdateRecordsSchema,
+  BulkDeleteRecordsSchema,
+  UndoSchema,
+  ImportRecordsSchema,
   SearchRecordsSchema,
   CreateRelationshipSchema,
   CreateAdvancedRelationshipSchema,
@@ -1090,6 +1591,8 @@ export {
   ValidateRelationshipSchema,
   CreateJunctionTableSchema,
   GetRelationshipDetailsSchema,
+  GetAuditLogSchema,
+  ExplainPolicySchema,
   CreateWebhookSchema,
   ListWebhooksSchema,
   DeleteWebhookSchema,
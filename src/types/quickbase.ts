@@ -93,7 +93,13 @@ export const QuickBaseConfig = z.object({
   userToken: z.string(),
   appId: z.string(),
   timeout: z.number().default(30000),
-  maxRetries: z.number().default(3)
+  maxRetries: z.number().default(3),
+  /** Lifetime of cached table/field metadata in milliseconds; 0 disables the cache. */
+  schemaCacheTtlMs: z.number().optional(),
+  /** App token sent with every REST and legacy XML request, for apps that require one. */
+  appToken: z.string().optional(),
+  /** Authenticate REST requests with per-table temporary tokens from /auth/temporary/{dbid}. */
+  tempTokens: z.boolean().optional()
 });
 
 export type QuickBaseConfig = z.infer<typeof QuickBaseConfig>;
@@ -104,6 +110,44 @@ export interface AppConfig {
   name: string;
   readOnly: boolean;
   allowDestructive: boolean;
+  /** Audit log settings; absent when auditing is off for the app. */
+  audit?: AuditConfig;
+  /**
+   * Most records a bulk update or delete may touch without the caller echoing
+   * the count back in `expectedAffectedRows`; absent for no limit.
+   */
+  maxAffectedRows?: number;
+  /** Realm hostname for this app; absent to use QB_REALM. */
+  realm?: string;
+  /**
+   * Where this app's user token comes from (QB_APP_<id>_TOKEN_ENV, _TOKEN_FILE
+   * or _TOKEN_COMMAND); absent to use the server-wide source. The token itself
+   * is never kept in the registry.
+   */
+  tokenSource?: TokenSource;
+  /**
+   * QB_APP_<id>_TEMP_TOKENS: authenticate REST requests with temporary tokens
+   * scoped to the table (or app) each request touches, instead of the user token.
+   */
+  tempTokens?: boolean;
+}
+
+/**
+ * Where a user token is read from: an environment variable, a file (e.g. a
+ * Docker secret), the output of a shell command, or an HTTP token exchange.
+ * `value` is the variable name, path, command or URL, never the token.
+ */
+export interface TokenSource {
+  kind: 'env' | 'file' | 'command' | 'exchange';
+  value: string;
+  /** The setting that named the source, e.g. `QB_USER_TOKEN_FILE`. */
+  setting: string;
+}
+
+/** Where an app's audit entries go and how long they are kept. */
+export interface AuditConfig {
+  path: string;
+  retentionDays: number;
 }
 
 // Query Options
@@ -121,6 +165,174 @@ export const QueryOptions = z.object({
 
 export type QueryOptions = z.infer<typeof QueryOptions>;
 
+/** `metadata` block returned by `POST /records/query`. */
+export interface QueryMetadata {
+  totalRecords?: number;
+  numRecords?: number;
+  numFields?: number;
+  skip?: number;
+  top?: number;
+}
+
+/** A single page of query results, including the field list and paging metadata. */
+export interface RecordsPage {
+  data: any[];
+  fields: Array<{ id: number; label: string; type: string }>;
+  metadata: QueryMetadata;
+}
+
+/** Result of following `skip` across several query pages up to a row cap. */
+export interface PaginatedRecords {
+  data: any[];
+  fields: Array<{ id: number; label: string; type: string }>;
+  /** Total matching rows reported by QuickBase (undefined if the API omitted it). */
+  totalRecords?: number;
+  /** Skip offset to use for the next page. */
+  nextSkip: number;
+  /** True when more matching rows exist beyond `nextSkip`. */
+  hasMore: boolean;
+}
+
+/** Outcome of a single input row in a `POST /records` write. */
+export interface RecordWriteLineResult {
+  /** 1-based position of the row in the submitted batch (matches QuickBase `lineErrors` keys). */
+  line: number;
+  recordId: number | null;
+  status: 'created' | 'updated' | 'unchanged' | 'error';
+  errors?: string[];
+}
+
+/** Summary of a `POST /records` write built from the response `metadata` block. */
+export interface RecordWriteResult {
+  createdRecordIds: number[];
+  updatedRecordIds: number[];
+  unchangedRecordIds: number[];
+  lineErrors: Record<string, string[]>;
+  totalNumberOfRecordsProcessed: number;
+  records: RecordWriteLineResult[];
+}
+
+/** Tuning knobs for chunked `POST /records` writes. */
+export interface ChunkedWriteOptions {
+  /** Maximum rows per request. */
+  maxRecordsPerChunk?: number;
+  /** Maximum serialized JSON size of the `data` array per request, in bytes. */
+  maxBytesPerChunk?: number;
+  /** Number of chunk requests in flight at once. */
+  concurrency?: number;
+  /** Merge field for upserts; omitted for plain inserts/updates. */
+  mergeFieldId?: number;
+}
+
+/**
+ * Aggregate outcome of a chunked write. A failing chunk does not abort the
+ * write; its rows are counted in `failed` and described in `failedChunks`.
+ */
+export interface ChunkedWriteReport {
+  totalRecords: number;
+  chunkCount: number;
+  succeeded: number;
+  failed: number;
+  createdRecordIds: number[];
+  updatedRecordIds: number[];
+  unchangedRecordIds: number[];
+  /** Row-level errors keyed by 1-based position in the full input. */
+  lineErrors: Record<string, string[]>;
+  failedChunks: Array<{ chunk: number; firstLine: number; recordCount: number; error: string }>;
+}
+
+/** Result of a server-side group-by over every matching row of a table. */
+export interface AggregateReport {
+  /** One object per group, keyed by group-by and metric column names. */
+  rows: Array<Record<string, unknown>>;
+  /** Number of distinct groups found (may exceed `rows.length` when capped). */
+  groupCount: number;
+  /** Rows read from QuickBase and folded into the groups. */
+  rowsScanned: number;
+  /** Matching rows reported by QuickBase (undefined if the API omitted it). */
+  totalRecords?: number;
+  /** True when every matching row was scanned, i.e. the figures are not partial. */
+  complete: boolean;
+}
+
+/** Report entry as listed by `GET /reports`. */
+export interface ReportSummary {
+  id: string;
+  name: string;
+  type?: string;
+  description?: string;
+}
+
+// ========== SCHEMA SNAPSHOTS ==========
+
+/** A field as captured in a schema snapshot. `formula` and `choices` are lifted out of `properties`. */
+export interface SnapshotField {
+  id: number;
+  label: string;
+  fieldType: string;
+  mode?: string;
+  required?: boolean;
+  unique?: boolean;
+  fieldHelp?: string;
+  formula?: string;
+  choices?: string[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SnapshotReport {
+  id: string;
+  name: string;
+  type?: string;
+  description?: string;
+  query?: Record<string, unknown>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SnapshotTable {
+  id: string;
+  name: string;
+  alias?: string;
+  description?: string;
+  singleRecordName?: string;
+  pluralRecordName?: string;
+  keyFieldId?: number;
+  fields: SnapshotField[];
+  reports: SnapshotReport[];
+}
+
+export interface SnapshotRelationship {
+  id: number;
+  parentTableId: string;
+  childTableId: string;
+  foreignKeyFieldId?: number;
+  isCrossApp?: boolean;
+  lookupFieldIds: number[];
+  summaryFieldIds: number[];
+}
+
+/** A webhook or email notification, as listed by `GET /apps/{id}/events`. */
+export interface SnapshotEvent {
+  type: string;
+  name: string;
+  tableId?: string;
+  isActive?: boolean;
+  owner?: string;
+}
+
+/**
+ * Point-in-time description of an application's schema. Volatile values
+ * (timestamps, usage counters, sizes) are left out and every list is sorted,
+ * so capturing an unchanged app twice yields identical documents.
+ */
+export interface SchemaSnapshot {
+  snapshotVersion: 1;
+  app: { id: string; name?: string; description?: string };
+  tables: SnapshotTable[];
+  relationships: SnapshotRelationship[];
+  webhooks: SnapshotEvent[];
+  notifications: SnapshotEvent[];
+}
+
 // ========== PIPELINES (Unofficial API) ==========
 
 // Pipeline IDs are large integers that may exceed Number.MAX_SAFE_INTEGER in
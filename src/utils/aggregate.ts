@@ -0,0 +1,158 @@
+/** Aggregate functions supported by `quickbase_aggregate_records`. */
+export const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'] as const;
+
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+/** A group-by column: the field to read and the name it is reported under. */
+export interface GroupColumn {
+  fieldId: number;
+  name: string;
+}
+
+/** A metric column. `fieldId` is omitted for a plain row `count`. */
+export interface MetricColumn {
+  fn: AggregateFunction;
+  fieldId?: number;
+  name: string;
+}
+
+interface MetricState {
+  count: number;
+  numeric: number;
+  sum: number;
+  min: number | string | undefined;
+  max: number | string | undefined;
+}
+
+interface Group {
+  key: unknown[];
+  rows: number;
+  metrics: MetricState[];
+}
+
+/**
+ * Incremental group-by accumulator. Rows are fed one query page at a time so
+ * a large table can be summarized without holding every row in memory.
+ *
+ * Blank values are skipped by every metric except a field-less `count`;
+ * `count` of a field counts its non-blank values. `sum` and `avg` use only
+ * numeric values. `min` and `max` compare numbers numerically and anything
+ * else (dates, text) as strings.
+ */
+export class Aggregator {
+  private groups = new Map<string, Group>();
+  private scanned = 0;
+
+  constructor(private readonly groupBy: GroupColumn[], private readonly metrics: MetricColumn[]) {}
+
+  /** Total rows added so far; equals the sum of every group's row count. */
+  get rowCount(): number {
+    return this.scanned;
+  }
+
+  get groupCount(): number {
+    return this.groups.size;
+  }
+
+  /** Fold a page of `{ fid: { value } }` rows into the running totals. */
+  add(rows: any[]): void {
+    for (const row of rows) {
+      this.scanned++;
+      const key = this.groupBy.map(column => groupValue(cellValue(row, column.fieldId)));
+      const id = JSON.stringify(key);
+      let group = this.groups.get(id);
+      if (!group) {
+        group = {
+          key,
+          rows: 0,
+          metrics: this.metrics.map(() => ({ count: 0, numeric: 0, sum: 0, min: undefined, max: undefined }))
+        };
+        this.groups.set(id, group);
+      }
+      group.rows++;
+      this.metrics.forEach((metric, index) => {
+        if (metric.fieldId === undefined) return;
+        accumulate(group!.metrics[index], cellValue(row, metric.fieldId));
+      });
+    }
+  }
+
+  /**
+   * Build the result table, one object per group keyed by column name,
+   * sorted by group key. At most `maxGroups` groups are returned.
+   */
+  result(maxGroups = Infinity): Array<Record<string, unknown>> {
+    return [...this.groups.values()]
+      .sort((a, b) => compareKeys(a.key, b.key))
+      .slice(0, maxGroups)
+      .map(group => {
+        const out: Record<string, unknown> = {};
+        this.groupBy.forEach((column, i) => { out[column.name] = group.key[i]; });
+        this.metrics.forEach((metric, i) => { out[metric.name] = finish(metric, group.metrics[i], group.rows); });
+        return out;
+      });
+  }
+}
+
+function cellValue(row: any, fieldId: number): unknown {
+  const cell = row?.[fieldId] ?? row?.[String(fieldId)];
+  return cell !== null && typeof cell === 'object' && 'value' in cell ? cell.value : cell;
+}
+
+// User fields come back as { id, email, name }; multi-select values as arrays.
+function groupValue(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (Array.isArray(value)) return value.map(v => groupValue(v)).join('; ');
+  if (value !== null && typeof value === 'object') {
+    const user = value as { name?: string; email?: string };
+    return user.name || user.email || JSON.stringify(value);
+  }
+  return value;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function accumulate(state: MetricState, value: unknown): void {
+  if (isBlank(value)) return;
+  state.count++;
+  const comparable = typeof value === 'number' ? value : String(groupValue(value));
+  if (typeof value === 'number') {
+    state.numeric++;
+    state.sum += value;
+  }
+  if (state.min === undefined || compareValues(comparable, state.min) < 0) state.min = comparable;
+  if (state.max === undefined || compareValues(comparable, state.max) > 0) state.max = comparable;
+}
+
+function finish(metric: MetricColumn, state: MetricState, rows: number): unknown {
+  switch (metric.fn) {
+    case 'count':
+      return metric.fieldId === undefined ? rows : state.count;
+    case 'sum':
+      return state.sum;
+    case 'avg':
+      return state.numeric === 0 ? null : state.sum / state.numeric;
+    case 'min':
+      return state.min ?? null;
+    case 'max':
+      return state.max ?? null;
+  }
+}
+
+function compareValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function compareKeys(a: unknown[], b: unknown[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) continue;
+    if (a[i] === null) return 1;
+    if (b[i] === null) return -1;
+    const diff = compareValues(a[i] as number | string, b[i] as number | string);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
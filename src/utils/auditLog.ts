@@ -0,0 +1,131 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AuditConfig } from '../types/quickbase.js';
+
+export type AuditOutcome = 'success' | 'error' | 'denied';
+
+/** One line of the audit log. */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  appId?: string;
+  tableId?: string;
+  /** The call's arguments with secrets masked and long values shortened. */
+  args: unknown;
+  recordIds: number[];
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  appId?: string;
+  tool?: string;
+  tableId?: string;
+  outcome?: AuditOutcome;
+  /** Only entries at or after this ISO timestamp. */
+  since?: string;
+  limit: number;
+}
+
+const SENSITIVE_KEY = /token|password|secret|authorization|api[-_]?key/i;
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Copy tool arguments for the audit log: values under secret-looking keys are
+ * masked, long strings are cut and long arrays keep their first items plus a
+ * count, so an entry stays small even for bulk writes and imports.
+ */
+export function redactArgs(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… [${value.length - MAX_STRING_LENGTH} more characters]`
+      : value;
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redactArgs(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `… ${value.length - MAX_ARRAY_ITEMS} more items`] : items;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SENSITIVE_KEY.test(key) ? '[REDACTED]' : redactArgs(item, depth + 1)
+  ]));
+}
+
+/**
+ * Append-only JSONL audit log. Writes are serialized within the process.
+ * Entries older than the retention period are dropped when the log is first
+ * written to and then at most once a day, by rewriting the file.
+ */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+  private lastPrunedAt = 0;
+
+  constructor(private readonly config: AuditConfig) {}
+
+  get path(): string {
+    return this.config.path;
+  }
+
+  append(entry: AuditEntry): Promise<void> {
+    const write = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+      if (Date.now() - this.lastPrunedAt >= DAY_MS) await this.prune();
+      await fs.appendFile(this.config.path, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    });
+    // Keep the chain alive after a failed write; the caller still sees the error.
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /** Matching entries, newest first. A missing log file reads as empty. */
+  async read(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.queue;
+    const since = query.since ? Date.parse(query.since) : undefined;
+    return (await this.entries())
+      .filter(e =>
+        (query.appId === undefined || e.appId === query.appId) &&
+        (query.tool === undefined || e.tool === query.tool) &&
+        (query.tableId === undefined || e.tableId === query.tableId) &&
+        (query.outcome === undefined || e.outcome === query.outcome) &&
+        (since === undefined || Date.parse(e.timestamp) >= since))
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  private async entries(): Promise<AuditEntry[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.config.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A torn line from a crash mid-write; skip it.
+      }
+    }
+    return entries;
+  }
+
+  private async prune(): Promise<void> {
+    this.lastPrunedAt = Date.now();
+    const cutoff = this.lastPrunedAt - this.config.retentionDays * DAY_MS;
+    const entries = await this.entries();
+    const kept = entries.filter(e => Date.parse(e.timestamp) >= cutoff);
+    if (kept.length === entries.length) return;
+    const temporary = `${this.config.path}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, kept.map(e => `${JSON.stringify(e)}\n`).join(''), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(temporary, this.config.path);
+  }
+}
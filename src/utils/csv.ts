@@ -0,0 +1,77 @@
+/** One parsed CSV record and the 1-based line it started on. */
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain the delimiter, doubled quotes
+ * (`""`) and line breaks. Both LF and CRLF line endings are accepted. Blank
+ * lines are skipped.
+ *
+ * @throws {Error} when a quoted field is never closed.
+ */
+export function parseCsv(text: string, delimiter = ','): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let line = 1;
+  let rowLine = 1;
+  let inQuotes = false;
+  let quoteLine = 0;
+  let i = 0;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && cell === '') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${quoteLine}`);
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+  return rows;
+}
+
+/** Quote a CSV cell when it contains the delimiter, a double quote or a line break. */
+export function formatCsvCell(value: string, delimiter = ','): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
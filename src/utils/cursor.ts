@@ -0,0 +1,56 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { QueryOptions } from '../types/quickbase.js';
+
+/**
+ * State carried inside a record-query continuation token. The token is opaque
+ * to callers; it captures the original query so the next page can be fetched
+ * by passing the token back without repeating the filter arguments.
+ */
+export interface QueryCursor {
+  appId: string;
+  tableId: string;
+  skip: number;
+  options: Omit<QueryOptions, 'skip'>;
+}
+
+const CURSOR_VERSION = 1;
+
+/** Encode query state as an opaque, URL-safe continuation token. */
+export function encodeCursor(cursor: QueryCursor): string {
+  const payload = JSON.stringify({ v: CURSOR_VERSION, ...cursor });
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a continuation token produced by `encodeCursor`.
+ * @throws {McpError} InvalidParams if the token is malformed or from an incompatible version.
+ */
+export function decodeCursor(token: string): QueryCursor {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor: token could not be decoded.');
+  }
+
+  if (
+    !parsed ||
+    parsed.v !== CURSOR_VERSION ||
+    typeof parsed.appId !== 'string' ||
+    typeof parsed.tableId !== 'string' ||
+    typeof parsed.skip !== 'number' ||
+    !Number.isInteger(parsed.skip) ||
+    parsed.skip < 0 ||
+    typeof parsed.options !== 'object' ||
+    parsed.options === null
+  ) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor: token is malformed or from an incompatible version.');
+  }
+
+  return {
+    appId: parsed.appId,
+    tableId: parsed.tableId,
+    skip: parsed.skip,
+    options: parsed.options
+  };
+}
@@ -1,7 +1,9 @@
 import dotenv from 'dotenv';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { AppConfig } from '../types/quickbase.js';
+import type { AppConfig, AuditConfig, TokenSource } from '../types/quickbase.js';
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
 
 const TRUE_VALUES = new Set(['1', 'true', 'yes', 'y', 'on']);
 const FALSE_VALUES = new Set(['0', 'false', 'no', 'n', 'off']);
@@ -42,12 +44,104 @@ export function loadAppRegistry(): Map<string, AppConfig> {
       id,
       name: (process.env[key] ?? '').trim(),
       readOnly: envFlag(`QB_APP_${id}_READONLY`, true),
-      allowDestructive: envFlag(`QB_APP_${id}_ALLOW_DESTRUCTIVE`, false)
+      allowDestructive: envFlag(`QB_APP_${id}_ALLOW_DESTRUCTIVE`, false),
+      audit: loadAuditConfig(id),
+      maxAffectedRows: loadMaxAffectedRows(id),
+      realm: (process.env[`QB_APP_${id}_REALM`] ?? '').trim() || undefined,
+      tokenSource: tokenSourceFrom([
+        ['env', `QB_APP_${id}_TOKEN_ENV`],
+        ['file', `QB_APP_${id}_TOKEN_FILE`],
+        ['command', `QB_APP_${id}_TOKEN_COMMAND`]
+      ]),
+      tempTokens: envFlag(`QB_APP_${id}_TEMP_TOKENS`, false)
     });
   }
   return registry;
 }
 
+/**
+ * Audit log settings for an app: QB_APP_<id>_AUDIT_LOG, else QB_AUDIT_LOG
+ * (an empty per-app value turns auditing off for that app), with retention
+ * from QB_APP_<id>_AUDIT_RETENTION_DAYS or QB_AUDIT_RETENTION_DAYS.
+ * Returns undefined when no log path is configured.
+ */
+export function loadAuditConfig(appId?: string): AuditConfig | undefined {
+  const scoped = (key: string) => (appId ? process.env[`QB_APP_${appId}_${key}`] : undefined);
+  const logPath = (scoped('AUDIT_LOG') ?? process.env.QB_AUDIT_LOG ?? '').trim();
+  if (!logPath) return undefined;
+  const days = Number(scoped('AUDIT_RETENTION_DAYS') ?? process.env.QB_AUDIT_RETENTION_DAYS);
+  return {
+    path: path.resolve(logPath),
+    retentionDays: Number.isFinite(days) && days > 0 ? days : DEFAULT_AUDIT_RETENTION_DAYS
+  };
+}
+
+/**
+ * Affected-row limit for an app's bulk updates and deletes:
+ * QB_APP_<id>_MAX_AFFECTED_ROWS, else QB_MAX_AFFECTED_ROWS. Returns undefined
+ * (no limit) when neither is set to a positive integer.
+ */
+export function loadMaxAffectedRows(appId: string): number | undefined {
+  const raw = (process.env[`QB_APP_${appId}_MAX_AFFECTED_ROWS`] ?? process.env.QB_MAX_AFFECTED_ROWS ?? '').trim();
+  const limit = Number(raw);
+  return raw && Number.isInteger(limit) && limit > 0 ? limit : undefined;
+}
+
+// The one source among `settings` that is set; throws when several are.
+function tokenSourceFrom(settings: Array<[TokenSource['kind'], string]>): TokenSource | undefined {
+  const sources = settings.flatMap(([kind, setting]): TokenSource[] => {
+    const value = (process.env[setting] ?? '').trim();
+    return value ? [{ kind, value, setting }] : [];
+  });
+  if (sources.length > 1) {
+    throw new Error(`Set only one of ${sources.map(source => source.setting).join(', ')}.`);
+  }
+  return sources[0];
+}
+
+/**
+ * The server-wide user token source: QB_USER_TOKEN itself, or the file,
+ * command or token exchange named by QB_USER_TOKEN_FILE,
+ * QB_USER_TOKEN_COMMAND or QB_USER_TOKEN_EXCHANGE_URL.
+ */
+export function loadDefaultTokenSource(): TokenSource | undefined {
+  const source = tokenSourceFrom([
+    ['env', 'QB_USER_TOKEN'],
+    ['file', 'QB_USER_TOKEN_FILE'],
+    ['command', 'QB_USER_TOKEN_COMMAND'],
+    ['exchange', 'QB_USER_TOKEN_EXCHANGE_URL']
+  ]);
+  // QB_USER_TOKEN holds the token; the source names the variable.
+  return source?.kind === 'env' ? { ...source, value: 'QB_USER_TOKEN' } : source;
+}
+
+/**
+ * The realm and user token source an app's client uses: QB_APP_<id>_REALM,
+ * else QB_REALM, and the app's own token source, else the server-wide one.
+ * Environment variables are checked here; files, commands and exchanges are
+ * read when the token is first needed. Throws naming the setting that is missing.
+ * `appToken` is QB_APP_<id>_APP_TOKEN, kept here rather than in the registry
+ * like the user token.
+ */
+export function loadAppCredentials(app: AppConfig): { realm: string; tokenSource: TokenSource; appToken?: string } {
+  const realm = app.realm ?? (process.env.QB_REALM ?? '').trim();
+  if (!realm) {
+    throw new Error(`No realm for app ${app.id}. Set QB_REALM, or QB_APP_${app.id}_REALM for this app.`);
+  }
+  const tokenSource = app.tokenSource ?? loadDefaultTokenSource();
+  if (!tokenSource) {
+    throw new Error(
+      `No user token for app ${app.id}. Set QB_USER_TOKEN, or QB_APP_${app.id}_TOKEN_ENV for this app ` +
+      '(QB_USER_TOKEN_FILE, QB_USER_TOKEN_COMMAND and QB_USER_TOKEN_EXCHANGE_URL are alternatives).'
+    );
+  }
+  if (tokenSource.kind === 'env' && !(process.env[tokenSource.value] ?? '').trim()) {
+    throw new Error(`${tokenSource.setting} names ${tokenSource.value}, but ${tokenSource.value} is not set.`);
+  }
+  const appToken = (process.env[`QB_APP_${app.id}_APP_TOKEN`] ?? '').trim();
+  return appToken ? { realm, tokenSource, appToken } : { realm, tokenSource };
+}
+
 export function loadDotenv(callerUrl?: string): void {
   const first = dotenv.config();
   if (!first.error) return;
@@ -28,3 +28,25 @@ export function formatErrorForLog(error: unknown): string {
     return 'Unknown error';
   }
 }
+
+/**
+ * Remove credentials from a failed request before the error travels on, so
+ * logging or serialising it cannot leak them: the value of the Authorization
+ * header (its scheme is kept), the QB-App-Token header, and the `<usertoken>`
+ * and `<apptoken>` of legacy XML bodies. Returns the same error.
+ */
+export function scrubCredentials<T>(error: T): T {
+  if (!axios.isAxiosError(error) || !error.config) return error;
+  const config = error.config;
+  const authorization = config.headers?.Authorization;
+  if (typeof authorization === 'string') {
+    config.headers.Authorization = authorization.replace(/^(\S+)\s.*$/s, '$1 [REDACTED]');
+  }
+  if (config.headers?.['QB-App-Token']) {
+    config.headers['QB-App-Token'] = '[REDACTED]';
+  }
+  if (typeof config.data === 'string') {
+    config.data = config.data.replace(/<(usertoken|apptoken)>[^<]*<\/\1>/g, '<$1>[REDACTED]</$1>');
+  }
+  return error;
+}
@@ -0,0 +1,323 @@
+import { open, mkdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { formatCsvCell } from './csv.js';
+import type { RecordsPage } from '../types/quickbase.js';
+
+export const EXPORT_FORMATS = ['csv', 'jsonl'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/** Largest export that may be returned inline rather than written to a file. */
+export const MAX_INLINE_EXPORT_BYTES = 1_000_000;
+
+/** Row cap applied when the caller does not pass export.maxRows. */
+export const DEFAULT_MAX_EXPORT_ROWS = 1_000_000;
+
+/** Zod schema for the `export` argument of quickbase_query_records and quickbase_run_report. */
+export const ExportOptionsSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  path: z.string().min(1).max(1024).optional(),
+  overwrite: z.boolean().optional(),
+  maxRows: z.number().int().min(1).max(DEFAULT_MAX_EXPORT_ROWS).optional()
+}).strict();
+
+export type ExportOptions = z.infer<typeof ExportOptionsSchema>;
+
+/** A flattened cell: what a spreadsheet or JSON consumer can use directly. */
+export type FlatValue = string | number | boolean | null;
+
+/** An output column and the field it is read from. */
+export interface ExportColumn {
+  fieldId: number;
+  name: string;
+}
+
+export interface ExportSummary {
+  format: ExportFormat;
+  columns: string[];
+  rowsWritten: number;
+  /** Total matching rows reported by QuickBase (undefined if the API omitted it). */
+  totalRecords?: number;
+  /** False when the row cap stopped the export before the result set was exhausted. */
+  complete: boolean;
+  bytes: number;
+  /** Absolute path of the written file, when exporting to disk. */
+  path?: string;
+  /** The export itself, when returned inline. */
+  content?: string;
+}
+
+/** Fetch `top` rows starting `offset` rows into the result set. */
+export type PageFetcher = (offset: number, top: number) => Promise<RecordsPage>;
+
+const ADDRESS_PARTS = ['street1', 'street2', 'city', 'region', 'postalCode', 'country'];
+
+/**
+ * Reduce a QuickBase cell value to a scalar:
+ * - multi-select and multi-user lists are joined with "; "
+ * - users become their email (the form QuickBase accepts back on import),
+ *   falling back to name, then ID
+ * - addresses become their non-blank parts joined with ", "
+ * - file attachments become their download URL (or latest file name)
+ * Any other object is serialized as JSON.
+ */
+export function flattenValue(value: unknown): FlatValue {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) {
+    const parts = value.map(flattenValue).filter(v => v !== null && v !== '');
+    return parts.join('; ');
+  }
+  if (typeof value !== 'object') return value as FlatValue;
+
+  const obj = value as Record<string, any>;
+  if ('email' in obj || ('name' in obj && 'id' in obj && !('url' in obj))) {
+    return obj.email || obj.name || (obj.id !== undefined ? String(obj.id) : null);
+  }
+  if (ADDRESS_PARTS.some(part => part in obj)) {
+    return ADDRESS_PARTS.map(part => obj[part]).filter(v => v !== undefined && v !== null && v !== '').join(', ');
+  }
+  if ('url' in obj || 'versions' in obj) {
+    if (obj.url) return String(obj.url);
+    const versions: any[] = Array.isArray(obj.versions) ? obj.versions : [];
+    return versions.length > 0 ? versions[versions.length - 1]?.fileName ?? null : null;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Choose output columns for a page: the page's own field list when present,
+ * otherwise every field ID seen in the rows. Repeated labels are
+ * disambiguated with the field ID.
+ */
+export function exportColumns(page: RecordsPage): ExportColumn[] {
+  const fields = page.fields.length > 0
+    ? page.fields.map(f => ({ id: f.id, label: f.label }))
+    : [...new Set(page.data.flatMap(row => Object.keys(row ?? {})))]
+        .map(Number)
+        .filter(Number.isInteger)
+        .map(id => ({ id, label: String(id) }));
+
+  const counts = new Map<string, number>();
+  fields.forEach(f => counts.set(f.label, (counts.get(f.label) ?? 0) + 1));
+  return fields.map(f => ({ fieldId: f.id, name: counts.get(f.label)! > 1 ? `${f.label} (${f.id})` : f.label }));
+}
+
+/** Flatten one `{ fid: { value } }` row into `{ columnName: value }`. */
+export function flattenRow(columns: ExportColumn[], row: any): Record<string, FlatValue> {
+  const out: Record<string, FlatValue> = {};
+  for (const column of columns) {
+    const cell = row?.[column.fieldId] ?? row?.[String(column.fieldId)];
+    out[column.name] = flattenValue(cell !== null && typeof cell === 'object' && 'value' in cell ? cell.value : cell);
+  }
+  return out;
+}
+
+// Spreadsheet applications evaluate text cells starting with these characters
+// as formulas; prefixing a quote keeps exported data inert when opened.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: FlatValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return formatCsvCell(typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text);
+}
+
+/** CSV lines end in CRLF (RFC 4180), which spreadsheet applications expect. */
+function csvLine(values: FlatValue[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+interface ExportSink {
+  bytes: number;
+  write(chunk: string): Promise<void>;
+  finish(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+class InlineSink implements ExportSink {
+  bytes = 0;
+  readonly chunks: string[] = [];
+
+  async write(chunk: string): Promise<void> {
+    this.bytes += Buffer.byteLength(chunk);
+    if (this.bytes > MAX_INLINE_EXPORT_BYTES) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Export exceeds the ${MAX_INLINE_EXPORT_BYTES}-byte inline limit. Pass export.path to write it to a file, or narrow the query.`
+      );
+    }
+    this.chunks.push(chunk);
+  }
+
+  async finish(): Promise<void> {}
+  async abort(): Promise<void> {}
+}
+
+// Rows are written to `<path>.partial` and renamed into place only once the
+// export completes, so a failed export never leaves a truncated file behind.
+class FileSink implements ExportSink {
+  bytes = 0;
+  private readonly partial: string;
+
+  private constructor(private readonly target: string, private readonly handle: Awaited<ReturnType<typeof open>>) {
+    this.partial = `${target}.partial`;
+  }
+
+  static async create(target: string): Promise<FileSink> {
+    await mkdir(path.dirname(target), { recursive: true });
+    return new FileSink(target, await open(`${target}.partial`, 'w'));
+  }
+
+  async write(chunk: string): Promise<void> {
+    this.bytes += Buffer.byteLength(chunk);
+    await this.handle.write(chunk);
+  }
+
+  async finish(): Promise<void> {
+    await this.handle.close();
+    await rename(this.partial, this.target);
+  }
+
+  async abort(): Promise<void> {
+    await this.handle.close().catch(() => undefined);
+    await rm(this.partial, { force: true });
+  }
+}
+
+/** Largest file {@link readExportFile} will load. */
+export const MAX_READ_FILE_BYTES = 10 * 1024 * 1024;
+
+function pathInExportDir(requested: string, exportDir: string | undefined, disabledMessage: string): string {
+  if (!exportDir) throw new McpError(ErrorCode.InvalidRequest, disabledMessage);
+  const root = path.resolve(exportDir);
+  const target = path.resolve(root, requested);
+  const relative = path.relative(root, target);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new McpError(ErrorCode.InvalidParams, `Path "${requested}" must be a file inside ${root}.`);
+  }
+  return target;
+}
+
+/**
+ * Resolve a requested export path inside `exportDir`. Relative paths are
+ * taken relative to the directory; anything resolving outside it is refused.
+ *
+ * @throws {McpError} InvalidRequest when file exports are disabled (no export
+ *   directory), InvalidParams when the path escapes the directory or the file
+ *   exists and `overwrite` is not set.
+ */
+export async function resolveExportPath(requested: string, exportDir: string | undefined, overwrite = false): Promise<string> {
+  const target = pathInExportDir(
+    requested,
+    exportDir,
+    'Writing files is disabled. Set QB_EXPORT_DIR to allow it, or omit path to return the result inline.'
+  );
+  if (!overwrite && await stat(target).then(() => true, () => false)) {
+    throw new McpError(ErrorCode.InvalidParams, `File ${target} already exists; pass overwrite: true to replace it.`);
+  }
+  return target;
+}
+
+/**
+ * Read a text file from inside `exportDir` (e.g. a saved schema snapshot),
+ * with the same containment rules as {@link resolveExportPath}.
+ *
+ * @throws {McpError} InvalidRequest when no export directory is configured,
+ *   InvalidParams when the path escapes it, does not exist or is too large.
+ */
+export async function readExportFile(requested: string, exportDir: string | undefined): Promise<string> {
+  const target = pathInExportDir(requested, exportDir, 'Reading files is disabled. Set QB_EXPORT_DIR to allow it.');
+  const info = await stat(target).catch(() => undefined);
+  if (!info?.isFile()) {
+    throw new McpError(ErrorCode.InvalidParams, `File ${target} does not exist.`);
+  }
+  if (info.size > MAX_READ_FILE_BYTES) {
+    throw new McpError(ErrorCode.InvalidParams, `File ${target} is larger than ${MAX_READ_FILE_BYTES} bytes.`);
+  }
+  return readFile(target, 'utf8');
+}
+
+/**
+ * Write a complete text document (e.g. a schema snapshot) to a path from
+ * {@link resolveExportPath}, replacing any existing file atomically.
+ * Returns the number of bytes written.
+ */
+export async function writeExportFile(target: string, text: string): Promise<number> {
+  const sink = await FileSink.create(target);
+  try {
+    await sink.write(text);
+    await sink.finish();
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+  return sink.bytes;
+}
+
+/**
+ * Page through a result set and write every row as CSV (with a header row)
+ * or JSONL, flattening cells with {@link flattenValue}. Pages are followed
+ * until QuickBase reports no further rows or `maxRows` rows are written.
+ *
+ * @param fetchPage - Reads the next page of the result set.
+ * @param options.path - Absolute file to write (see {@link resolveExportPath});
+ *   omit to return the export inline in `content`.
+ */
+export async function exportRecords(
+  fetchPage: PageFetcher,
+  options: { format: ExportFormat; path?: string; maxRows?: number }
+): Promise<ExportSummary> {
+  const maxRows = options.maxRows ?? DEFAULT_MAX_EXPORT_ROWS;
+  const inline = options.path ? undefined : new InlineSink();
+  const sink: ExportSink = inline ?? await FileSink.create(options.path!);
+  let columns: ExportColumn[] | undefined;
+  let totalRecords: number | undefined;
+  let rowsWritten = 0;
+  let complete = false;
+
+  try {
+    // A UTF-8 byte-order mark makes spreadsheet applications detect the encoding.
+    if (options.format === 'csv' && !inline) await sink.write('\uFEFF');
+
+    while (rowsWritten < maxRows) {
+      const remaining = maxRows - rowsWritten;
+      const page = await fetchPage(rowsWritten, remaining);
+      if (typeof page.metadata.totalRecords === 'number') totalRecords = page.metadata.totalRecords;
+
+      if (!columns) {
+        columns = exportColumns(page);
+        if (options.format === 'csv') await sink.write(csvLine(columns.map(c => c.name)));
+      }
+
+      const rows = page.data.slice(0, remaining);
+      let chunk = '';
+      for (const row of rows) {
+        const flat = flattenRow(columns, row);
+        chunk += options.format === 'csv' ? csvLine(Object.values(flat)) : `${JSON.stringify(flat)}\n`;
+      }
+      if (chunk) await sink.write(chunk);
+      rowsWritten += rows.length;
+
+      if (rows.length === 0 || (totalRecords !== undefined && rowsWritten >= totalRecords)) {
+        complete = true;
+        break;
+      }
+    }
+    await sink.finish();
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+
+  return {
+    format: options.format,
+    columns: (columns ?? []).map(c => c.name),
+    rowsWritten,
+    totalRecords,
+    complete: complete || (totalRecords !== undefined && rowsWritten >= totalRecords),
+    bytes: sink.bytes,
+    ...(inline ? { content: inline.chunks.join('') } : { path: options.path })
+  };
+}
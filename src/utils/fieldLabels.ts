@@ -0,0 +1,105 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/** Minimal field shape needed for label ↔ ID resolution (as returned by GET /fields). */
+export interface FieldRef {
+  id: number;
+  label: string;
+}
+
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * Resolve field labels (or numeric IDs) to field IDs for a single table.
+ *
+ * Lookup order for each key: a numeric string or number that matches a field
+ * ID; an exact label match; then a case-insensitive label match. A key that
+ * matches more than one field is ambiguous. All unknown and ambiguous keys are
+ * collected and reported in a single McpError so the caller can fix them in
+ * one pass.
+ *
+ * @throws {McpError} InvalidParams listing every unknown or ambiguous label.
+ */
+export function resolveFieldIds(fields: FieldRef[], keys: Array<string | number>): number[] {
+  const unknown: string[] = [];
+  const ambiguous: string[] = [];
+
+  const ids = keys.map((key) => {
+    const matches = matchField(fields, key);
+    if (matches.length === 1) return matches[0].id;
+    if (matches.length === 0) unknown.push(String(key));
+    else ambiguous.push(`"${key}" (field IDs ${matches.map(f => f.id).join(', ')})`);
+    return NaN;
+  });
+
+  if (unknown.length > 0 || ambiguous.length > 0) {
+    const problems: string[] = [];
+    if (unknown.length > 0) {
+      const available = fields.slice(0, MAX_SUGGESTIONS).map(f => `"${f.label}"`).join(', ');
+      const more = fields.length > MAX_SUGGESTIONS ? `, … (${fields.length - MAX_SUGGESTIONS} more)` : '';
+      problems.push(
+        `Unknown field label(s): ${unknown.map(k => `"${k}"`).join(', ')}. Available labels: ${available}${more}.`
+      );
+    }
+    if (ambiguous.length > 0) {
+      problems.push(
+        `Ambiguous field label(s): ${ambiguous.join('; ')}. Use the numeric field ID instead.`
+      );
+    }
+    throw new McpError(ErrorCode.InvalidParams, problems.join(' '));
+  }
+
+  return ids;
+}
+
+/**
+ * Convert a label-keyed record (`{ "Name": "John" }`) into QuickBase's
+ * field-ID form (`{ "6": { value: "John" } }`). Values that are already
+ * wrapped as `{ value: ... }` are passed through unchanged.
+ */
+export function labelsToFieldValues(
+  fields: FieldRef[],
+  record: Record<string, unknown>
+): Record<string, { value: unknown }> {
+  const keys = Object.keys(record);
+  const ids = resolveFieldIds(fields, keys);
+  const result: Record<string, { value: unknown }> = {};
+  keys.forEach((key, index) => {
+    const raw = record[key];
+    const wrapped =
+      raw !== null && typeof raw === 'object' && !Array.isArray(raw) && 'value' in (raw as object)
+        ? (raw as { value: unknown })
+        : { value: raw };
+    result[String(ids[index])] = wrapped;
+  });
+  return result;
+}
+
+/**
+ * Map query result rows from `{ fid: { value } }` cells to `{ label: value }`
+ * objects. Cells for field IDs not present in `fields` keep their numeric key.
+ */
+export function rowsToLabels(fields: FieldRef[], rows: any[]): Array<Record<string, unknown>> {
+  const labels = new Map(fields.map(f => [String(f.id), f.label]));
+  return rows.map((row) => {
+    const out: Record<string, unknown> = {};
+    for (const [fid, cell] of Object.entries(row ?? {})) {
+      const value = cell !== null && typeof cell === 'object' && 'value' in (cell as object)
+        ? (cell as { value: unknown }).value
+        : cell;
+      out[labels.get(fid) ?? fid] = value;
+    }
+    return out;
+  });
+}
+
+function matchField(fields: FieldRef[], key: string | number): FieldRef[] {
+  const asString = String(key).trim();
+  if (/^\d+$/.test(asString)) {
+    const byId = fields.filter(f => f.id === Number(asString));
+    if (byId.length > 0) return byId;
+  }
+  const exact = fields.filter(f => f.label === asString);
+  if (exact.length > 0) return exact;
+  const lower = asString.toLowerCase();
+  return fields.filter(f => f.label.toLowerCase() === lower);
+}
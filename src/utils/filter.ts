@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FieldRef, resolveFieldIds } from './fieldLabels.js';
+
+/**
+ * QuickBase query comparison operators.
+ * See https://help.quickbase.com/api-guide/componentsquery.html
+ */
+export const FILTER_OPERATORS = [
+  'CT', 'XCT', 'HAS', 'XHAS', 'EX', 'XEX', 'TV', 'SW', 'XSW',
+  'BF', 'OBF', 'AF', 'OAF', 'IR', 'XIR', 'LT', 'LTE', 'GT', 'GTE'
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+// QuickBase has no NOT group operator, so `not` is compiled by swapping each
+// comparison for its complement (and applying De Morgan to and/or groups).
+// TV ("true value") has no complement.
+const NEGATED: Partial<Record<FilterOperator, FilterOperator>> = {
+  CT: 'XCT', XCT: 'CT',
+  HAS: 'XHAS', XHAS: 'HAS',
+  EX: 'XEX', XEX: 'EX',
+  SW: 'XSW', XSW: 'SW',
+  IR: 'XIR', XIR: 'IR',
+  BF: 'OAF', OAF: 'BF',
+  AF: 'OBF', OBF: 'AF',
+  LT: 'GTE', GTE: 'LT',
+  LTE: 'GT', GT: 'LTE'
+};
+
+const MAX_DEPTH = 16;
+const MAX_CONDITIONS = 500;
+
+export interface FilterCondition {
+  /** Field ID, or field label (resolved against the table's field list). */
+  field: number | string;
+  op: FilterOperator;
+  /** Comparison value; `null` compiles to an empty string (e.g. `EX` null matches blank fields). */
+  value: string | number | boolean | null;
+}
+
+export type FilterNode =
+  | FilterCondition
+  | { and: FilterNode[] }
+  | { or: FilterNode[] }
+  | { not: FilterNode };
+
+const FilterConditionSchema = z.object({
+  field: z.union([z.number().int().positive(), z.string().min(1).max(128)]),
+  op: z.enum(FILTER_OPERATORS),
+  value: z.union([z.string().max(1000), z.number(), z.boolean(), z.null()])
+}).strict();
+
+/** Zod schema for a filter tree, shared by every tool that accepts `filter`. */
+export const FilterSchema: z.ZodType<FilterNode> = z.lazy(() => z.union([
+  FilterConditionSchema,
+  z.object({ and: z.array(FilterSchema).min(1).max(100) }).strict(),
+  z.object({ or: z.array(FilterSchema).min(1).max(100) }).strict(),
+  z.object({ not: FilterSchema }).strict()
+]));
+
+/** Escape a value for use inside a single-quoted QuickBase query literal. */
+export function quoteQueryValue(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return `'${text.replace(/[\r\n]+/g, ' ').replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/** Field references in the filter that are labels rather than numeric IDs. */
+export function filterLabels(node: FilterNode): string[] {
+  const labels = new Set<string>();
+  walk(node, 0, (condition) => {
+    if (typeof condition.field === 'string' && !isNumericRef(condition.field)) {
+      labels.add(condition.field);
+    }
+  });
+  return [...labels];
+}
+
+/**
+ * Compile a filter tree into a QuickBase `where` clause.
+ *
+ * Field labels are resolved against `fields`; pass the table's field list
+ * whenever {@link filterLabels} returns anything. All unknown labels are
+ * reported in a single error.
+ *
+ * @throws {McpError} InvalidParams for unknown/ambiguous labels, a negated `TV`,
+ *   or a tree that is too deep or too large.
+ */
+export function compileFilter(node: FilterNode, fields: FieldRef[] = []): string {
+  const refs: Array<number | string> = [];
+  walk(node, 0, (condition) => refs.push(condition.field));
+  if (refs.length > MAX_CONDITIONS) {
+    throw new McpError(ErrorCode.InvalidParams, `Filter has ${refs.length} conditions; the limit is ${MAX_CONDITIONS}.`);
+  }
+
+  const labelRefs = refs.filter((ref): ref is string => typeof ref === 'string' && !isNumericRef(ref));
+  const resolvedIds = resolveFieldIds(fields, labelRefs);
+  const fieldIds = new Map(labelRefs.map((ref, i) => [ref, resolvedIds[i]]));
+  const toFieldId = (ref: number | string): number =>
+    typeof ref === 'number' || isNumericRef(ref) ? Number(ref) : fieldIds.get(ref)!;
+
+  const emit = (current: FilterNode, negate: boolean): string => {
+    if ('not' in current) return emit(current.not, !negate);
+    if ('and' in current || 'or' in current) {
+      const isAnd = 'and' in current;
+      const children = isAnd ? (current as { and: FilterNode[] }).and : (current as { or: FilterNode[] }).or;
+      // De Morgan: NOT (a AND b) == (NOT a) OR (NOT b)
+      const joiner = isAnd !== negate ? 'AND' : 'OR';
+      const parts = children.map(child => {
+        const clause = emit(child, negate);
+        return children.length > 1 && !isCondition(child) ? `(${clause})` : clause;
+      });
+      return parts.join(joiner);
+    }
+
+    const condition = current as FilterCondition;
+    const op = negate ? NEGATED[condition.op] : condition.op;
+    if (!op) {
+      throw new McpError(ErrorCode.InvalidParams, `Operator ${condition.op} cannot be used inside "not".`);
+    }
+    return `{${toFieldId(condition.field)}.${op}.${quoteQueryValue(condition.value)}}`;
+  };
+
+  return emit(node, false);
+}
+
+/**
+ * AND together optional where clauses, parenthesizing each when there is more
+ * than one. Returns undefined when every clause is empty.
+ */
+export function combineWhere(...clauses: Array<string | undefined>): string | undefined {
+  const present = clauses.filter((c): c is string => typeof c === 'string' && c.trim().length > 0);
+  if (present.length <= 1) return present[0];
+  return present.map(c => `(${c})`).join('AND');
+}
+
+function isNumericRef(ref: string): boolean {
+  return /^\d+$/.test(ref.trim());
+}
+
+function isCondition(node: FilterNode): node is FilterCondition {
+  return 'op' in node;
+}
+
+function walk(node: FilterNode, depth: number, visit: (condition: FilterCondition) => void): void {
+  if (depth > MAX_DEPTH) {
+    throw new McpError(ErrorCode.InvalidParams, `Filter is nested more than ${MAX_DEPTH} levels deep.`);
+  }
+  if ('not' in node) return walk(node.not, depth + 1, visit);
+  if ('and' in node) return node.and.forEach(child => walk(child, depth + 1, visit));
+  if ('or' in node) return node.or.forEach(child => walk(child, depth + 1, visit));
+  visit(node);
+}
@@ -0,0 +1,170 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { parseCsv } from './csv.js';
+import { resolveFieldIds } from './fieldLabels.js';
+import { coerceRecordValues, FieldDefinition } from './recordValidation.js';
+
+export type ImportFormat = 'csv' | 'jsonl';
+
+/** A source row that is ready to write, tagged with the line it came from. */
+export interface ImportRow {
+  line: number;
+  record: Record<string, { value: unknown }>;
+}
+
+/** Every problem found on one source line. */
+export interface ImportRowError {
+  line: number;
+  errors: string[];
+}
+
+export interface PreparedImport {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+  /** Source column → target field ID actually used. */
+  mapping: Record<string, number>;
+  rowsRead: number;
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  /** Source column (CSV header or JSONL key) → field label or ID. Defaults to matching columns by label. */
+  mapping?: Record<string, string | number>;
+  /** Field every row must have a value for (the upsert merge field). */
+  mergeFieldId?: number;
+  delimiter?: string;
+  maxRows?: number;
+}
+
+interface SourceRow {
+  line: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Parse CSV or JSONL text, map its columns onto a table's fields and coerce
+ * every value with the same rules as direct record writes. Rows with problems
+ * are collected in `errors` (by source line) instead of aborting the import.
+ *
+ * @throws {McpError} InvalidParams when the input cannot be parsed at all or
+ *   the column mapping refers to unknown columns or fields.
+ */
+export function prepareImport(text: string, fields: FieldDefinition[], options: ImportOptions): PreparedImport {
+  const { columns, rows: sourceRows } = options.format === 'csv'
+    ? readCsv(text, options.delimiter)
+    : readJsonl(text);
+
+  if (options.maxRows !== undefined && sourceRows.length > options.maxRows) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Import has ${sourceRows.length} rows; the limit is ${options.maxRows}. Split the file into smaller imports.`
+    );
+  }
+
+  const mapping = resolveMapping(columns, fields, options);
+  const errors: ImportRowError[] = [];
+  const rows: ImportRow[] = [];
+
+  for (const source of sourceRows) {
+    const raw: Record<string, { value: unknown }> = {};
+    for (const [column, fieldId] of Object.entries(mapping)) {
+      if (column in source.values) raw[String(fieldId)] = { value: source.values[column] };
+    }
+
+    const { record, problems } = coerceRecordValues(fields, raw, source.line);
+    const messages = problems.map(p => `"${p.label}": ${p.message}`);
+    if (options.mergeFieldId !== undefined) {
+      const key = record[String(options.mergeFieldId)]?.value;
+      if (key === undefined || key === null || key === '') {
+        messages.push('missing a value for the merge field');
+      }
+    }
+
+    if (messages.length > 0) {
+      errors.push({ line: source.line, errors: messages });
+    } else {
+      rows.push({ line: source.line, record });
+    }
+  }
+
+  return { rows, errors, mapping, rowsRead: sourceRows.length };
+}
+
+function readCsv(text: string, delimiter = ','): { columns: string[]; rows: SourceRow[] } {
+  let parsed;
+  try {
+    parsed = parseCsv(text, delimiter);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `CSV could not be parsed: ${(error as Error).message}`);
+  }
+  if (parsed.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'CSV is empty; the first line must be a header row.');
+  }
+
+  const [header, ...body] = parsed;
+  const columns = header.cells.map(c => c.trim());
+  const duplicate = columns.find((c, i) => columns.indexOf(c) !== i);
+  if (duplicate !== undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `CSV header repeats the column "${duplicate}".`);
+  }
+
+  const rows = body.map(({ line, cells }) => {
+    const values: Record<string, unknown> = {};
+    columns.forEach((column, i) => { if (i < cells.length) values[column] = cells[i]; });
+    return { line, values };
+  });
+  return { columns, rows };
+}
+
+function readJsonl(text: string): { columns: string[]; rows: SourceRow[] } {
+  const columns = new Set<string>();
+  const rows: SourceRow[] = [];
+  const bad: string[] = [];
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (content.trim() === '') return;
+    const line = index + 1;
+    try {
+      const value = JSON.parse(content);
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        bad.push(`line ${line}: expected a JSON object`);
+        return;
+      }
+      Object.keys(value).forEach(k => columns.add(k));
+      rows.push({ line, values: value });
+    } catch (error) {
+      bad.push(`line ${line}: ${(error as Error).message}`);
+    }
+  });
+
+  if (bad.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `JSONL could not be parsed (${bad.length} bad line(s)):\n- ${bad.slice(0, 20).join('\n- ')}`
+    );
+  }
+  return { columns: [...columns], rows };
+}
+
+function resolveMapping(
+  columns: string[],
+  fields: FieldDefinition[],
+  options: ImportOptions
+): Record<string, number> {
+  const entries: Array<[string, string | number]> = options.mapping
+    ? Object.entries(options.mapping)
+    : columns.map(column => [column, column]);
+
+  if (options.mapping && options.format === 'csv') {
+    const missing = entries.map(([column]) => column).filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Mapping refers to column(s) not in the CSV header: ${missing.map(c => `"${c}"`).join(', ')}. ` +
+        `Header columns: ${columns.map(c => `"${c}"`).join(', ')}.`
+      );
+    }
+  }
+
+  const ids = resolveFieldIds(fields, entries.map(([, target]) => target));
+  return Object.fromEntries(entries.map(([column], i) => [column, ids[i]]));
+}
@@ -0,0 +1,165 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { parseYaml } from './yaml.js';
+
+/** Tool names or globs (`*` matches any run of characters, `?` one character). */
+const ToolPatternsSchema = z.array(z.string().min(1)).optional();
+
+const TablePolicySchema = z.object({
+  /** Only tools that cannot change anything may touch the table. */
+  readOnly: z.boolean().optional(),
+  allow: ToolPatternsSchema,
+  deny: ToolPatternsSchema,
+  /** Field IDs or labels that record writes may not set. */
+  readOnlyFields: z.array(z.union([z.number().int().positive(), z.string().min(1)])).optional(),
+  /** Field ID or label → how its values are hidden in tool output. */
+  redact: z.record(z.enum(['mask', 'hash', 'drop'])).optional()
+}).strict();
+
+const RulesSchema = z.object({
+  allow: ToolPatternsSchema,
+  deny: ToolPatternsSchema,
+  tables: z.record(TablePolicySchema).optional()
+}).strict();
+
+const AppPolicySchema = RulesSchema.extend({
+  /** Roles from the file's `roles` section, applied before the entry's own rules. */
+  roles: z.array(z.string().min(1)).optional()
+}).strict();
+
+export const PolicySchema = z.object({
+  roles: z.record(RulesSchema).optional(),
+  /** Keyed by app ID; `"*"` applies to every app. */
+  apps: z.record(AppPolicySchema)
+}).strict().superRefine((policy, ctx) => {
+  for (const [appId, app] of Object.entries(policy.apps)) {
+    for (const role of app.roles ?? []) {
+      if (!policy.roles?.[role]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apps', appId, 'roles'], message: `Unknown role "${role}"` });
+      }
+    }
+  }
+});
+
+export type Policy = z.infer<typeof PolicySchema>;
+export type TablePolicy = z.infer<typeof TablePolicySchema>;
+
+/** A tool pattern and the part of the policy file it came from. */
+export interface PolicyRule {
+  pattern: string;
+  source: string;
+}
+
+/**
+ * The rules that apply to one app. Layers are applied in order: `"*"`, its
+ * roles, then the app's roles and the app's own entry. Deny rules from every
+ * layer add up; the last layer with an allow list decides it; a table's
+ * settings come from the last layer that mentions the table.
+ */
+export interface EffectivePolicy {
+  appId: string;
+  /** The layers that contributed, e.g. `["*", "role:analyst", "bq1"]`. */
+  sources: string[];
+  allow?: PolicyRule[];
+  deny: PolicyRule[];
+  tables: Record<string, TablePolicy & { source: string }>;
+}
+
+/**
+ * Read and validate a policy file. Files ending in .yaml or .yml are read as
+ * YAML, anything else as JSON. Throws with the file path and the first
+ * problem found, so a bad policy stops the server at start-up.
+ */
+export function loadPolicyFile(filePath: string): Policy {
+  let raw: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf8');
+    raw = /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Cannot read policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = PolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    throw new Error(`Invalid policy file ${path.basename(filePath)} at ${where}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/** The effective rules for `appId`, or undefined when the policy says nothing about it. */
+export function effectivePolicy(policy: Policy | undefined, appId: string): EffectivePolicy | undefined {
+  if (!policy) return undefined;
+  const layers: Array<[string, z.infer<typeof RulesSchema>]> = [];
+  for (const key of new Set(['*', appId])) {
+    const entry = policy.apps[key];
+    if (!entry) continue;
+    for (const role of entry.roles ?? []) layers.push([`role:${role}`, policy.roles?.[role] ?? {}]);
+    layers.push([key, entry]);
+  }
+  if (layers.length === 0) return undefined;
+
+  const effective: EffectivePolicy = { appId, sources: layers.map(([source]) => source), deny: [], tables: {} };
+  for (const [source, rules] of layers) {
+    const tag = (patterns: string[]) => patterns.map(pattern => ({ pattern, source }));
+    if (rules.allow) effective.allow = tag(rules.allow);
+    effective.deny.push(...tag(rules.deny ?? []));
+    for (const [tableId, table] of Object.entries(rules.tables ?? {})) {
+      effective.tables[tableId] = { ...table, source };
+    }
+  }
+  return effective;
+}
+
+// Arguments that name a table the tool reads or writes.
+const TABLE_ARGS = ['tableId', 'childTableId', 'parentTableId', 'table1Id', 'table2Id'];
+
+/** The table IDs a tool call's arguments name, in {@link TABLE_ARGS} order. */
+export function tableIdsInArgs(args: unknown): string[] {
+  const values = typeof args === 'object' && args !== null ? (args as Record<string, unknown>) : {};
+  return TABLE_ARGS.map(key => values[key]).filter((id): id is string => typeof id === 'string');
+}
+
+/** True when `name` matches the tool glob `pattern`. */
+export function matchesToolPattern(pattern: string, name: string): boolean {
+  const regex = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+/** The first rule whose pattern matches `name`. */
+export function findRule(rules: PolicyRule[], name: string): PolicyRule | undefined {
+  return rules.find(rule => matchesToolPattern(rule.pattern, name));
+}
+
+/**
+ * Why a record write to `fieldIds` of `tableId` is refused, or undefined when
+ * it is allowed. Read-only fields given by label are matched against `fields`
+ * case-insensitively.
+ */
+export function fieldWriteDenial(
+  policy: EffectivePolicy,
+  tableId: string,
+  fieldIds: number[],
+  fields: Array<{ id: number; label: string }>
+): string | undefined {
+  const rule = policy.tables[tableId];
+  if (!rule?.readOnlyFields?.length) return undefined;
+  const blocked = new Set<number>();
+  for (const entry of rule.readOnlyFields) {
+    if (typeof entry === 'number') {
+      blocked.add(entry);
+    } else {
+      const field = fields.find(f => f.label.toLowerCase() === entry.toLowerCase());
+      if (field) blocked.add(field.id);
+    }
+  }
+  const denied = [...new Set(fieldIds)].filter(id => blocked.has(id));
+  if (denied.length === 0) return undefined;
+  const names = denied.map(id => {
+    const label = fields.find(f => f.id === id)?.label;
+    return label ? `${id} "${label}"` : String(id);
+  });
+  return `Field${denied.length === 1 ? '' : 's'} ${names.join(', ')} of table ${tableId} ` +
+    `${denied.length === 1 ? 'is' : 'are'} read-only under the policy for app ${policy.appId} (${rule.source}). Nothing was written.`;
+}
@@ -0,0 +1,262 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/** Field definition as returned by `GET /fields`; only the members used for validation. */
+export interface FieldDefinition {
+  id: number;
+  label: string;
+  fieldType: string;
+  /** `formula`, `lookup` or `summary` for derived fields; empty/absent for stored fields. */
+  mode?: string;
+  properties?: {
+    choices?: string[];
+    allowNewChoices?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+/** One value that could not be written, reported against the field label. */
+export interface ValueProblem {
+  /** 1-based position of the record in the submitted batch. */
+  row: number;
+  fieldId: string;
+  label: string;
+  message: string;
+}
+
+type Cell = { value: unknown };
+type Coerce = (value: unknown, field: FieldDefinition) => { value: unknown } | { error: string };
+
+const MAX_REPORTED_PROBLEMS = 100;
+const DERIVED_MODES = new Set(['formula', 'lookup', 'summary']);
+
+const TRUE_WORDS = new Set(['true', 'yes', 'y', '1', 'on', 'checked']);
+const FALSE_WORDS = new Set(['false', 'no', 'n', '0', 'off', 'unchecked', '']);
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const show = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+const toNumber: Coerce = (value) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return { value };
+  if (typeof value === 'string') {
+    const trimmed = value.trim().replace(/,/g, '');
+    if (trimmed === '') return { value: null };
+    const n = Number(trimmed);
+    if (Number.isFinite(n)) return { value: n };
+  }
+  return { error: `expected a number, got ${show(value)}` };
+};
+
+const toCheckbox: Coerce = (value) => {
+  if (typeof value === 'boolean') return { value };
+  if (value === 1 || value === 0) return { value: value === 1 };
+  if (typeof value === 'string') {
+    const word = value.trim().toLowerCase();
+    if (TRUE_WORDS.has(word)) return { value: true };
+    if (FALSE_WORDS.has(word)) return { value: false };
+  }
+  return { error: `expected true/false (or yes/no), got ${show(value)}` };
+};
+
+const toDate: Coerce = (value) => {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed === '') return { value: null };
+    const datePart = ISO_DATETIME.test(trimmed) ? trimmed.slice(0, 10) : trimmed;
+    const match = ISO_DATE.exec(datePart);
+    if (match) {
+      const [, y, m, d] = match.map(Number);
+      const date = new Date(Date.UTC(y, m - 1, d));
+      if (date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d) {
+        return { value: datePart };
+      }
+    }
+  }
+  return { error: `expected an ISO date (YYYY-MM-DD), got ${show(value)}` };
+};
+
+// A date-time with an offset is sent as UTC. One without is sent as given, so
+// QuickBase reads it in the app's time zone rather than this server's.
+const toDateTime: Coerce = (value) => {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed === '') return { value: null };
+    if (ISO_DATETIME.test(trimmed) || ISO_DATE.test(trimmed)) {
+      const ms = Date.parse(trimmed.replace(' ', 'T'));
+      if (Number.isFinite(ms)) return { value: HAS_OFFSET.test(trimmed) ? new Date(ms).toISOString() : trimmed };
+    }
+  }
+  return { error: `expected an ISO 8601 date-time, got ${show(value)}` };
+};
+
+const toTimeOfDay: Coerce = (value) => {
+  if (typeof value === 'string' && TIME_OF_DAY.test(value.trim())) return { value: value.trim() };
+  return { error: `expected a time of day (HH:MM or HH:MM:SS), got ${show(value)}` };
+};
+
+const toText: Coerce = (value) => {
+  if (typeof value === 'string') return { value };
+  if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value) };
+  return { error: `expected text, got ${show(value)}` };
+};
+
+const toEmail: Coerce = (value, field) => {
+  const text = toText(value, field);
+  if ('error' in text) return text;
+  const email = (text.value as string).trim();
+  if (email === '' || EMAIL.test(email)) return { value: email };
+  return { error: `expected an email address, got ${show(value)}` };
+};
+
+const toChoice: Coerce = (value, field) => {
+  const text = toText(value, field);
+  if ('error' in text) return text;
+  return checkChoices([text.value as string], field) ?? text;
+};
+
+const toMultiChoice: Coerce = (value, field) => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? [value] : null;
+  if (!items || items.some(item => typeof item !== 'string')) {
+    return { error: `expected a list of strings, got ${show(value)}` };
+  }
+  return checkChoices(items as string[], field) ?? { value: items };
+};
+
+function checkChoices(values: string[], field: FieldDefinition): { error: string } | undefined {
+  const choices = field.properties?.choices;
+  if (!Array.isArray(choices) || choices.length === 0 || field.properties?.allowNewChoices !== false) return undefined;
+  const unknown = values.filter(v => v !== '' && !choices.includes(v));
+  if (unknown.length === 0) return undefined;
+  return {
+    error: `${unknown.map(show).join(', ')} is not one of the allowed choices (${choices.map(show).join(', ')})`
+  };
+}
+
+// Keyed by normalized field type. Both the REST API names (`text-multiple-choice`,
+// `timestamp`, `multitext`) and this server's own enum names (`text_choice`,
+// `datetime`, `multiselect`) are listed. Types not listed are passed through.
+const COERCERS: Record<string, Coerce> = {
+  numeric: toNumber,
+  currency: toNumber,
+  percent: toNumber,
+  rating: toNumber,
+  duration: toNumber,
+  recordid: toNumber,
+  checkbox: toCheckbox,
+  date: toDate,
+  datetime: toDateTime,
+  timestamp: toDateTime,
+  timeofday: toTimeOfDay,
+  email: toEmail,
+  text: toText,
+  textmultiline: toText,
+  richtext: toText,
+  phone: toText,
+  url: toText,
+  textchoice: toChoice,
+  textmultiplechoice: toChoice,
+  multiselect: toMultiChoice,
+  multitext: toMultiChoice
+};
+
+const normalizeType = (fieldType: string): string => fieldType.toLowerCase().replace(/[-_]/g, '');
+
+function isDerived(field: FieldDefinition): boolean {
+  return DERIVED_MODES.has(String(field.mode ?? '').toLowerCase()) ||
+    DERIVED_MODES.has(normalizeType(field.fieldType));
+}
+
+/**
+ * Check and coerce one record's `{ fieldId: { value } }` cells against the
+ * table's field definitions. Returns the coerced record plus any problems;
+ * `null` values are passed through untouched so callers can clear fields.
+ */
+export function coerceRecordValues(
+  fields: FieldDefinition[],
+  record: Record<string, unknown>,
+  row = 1
+): { record: Record<string, Cell>; problems: ValueProblem[] } {
+  const byId = new Map(fields.map(f => [String(f.id), f]));
+  const problems: ValueProblem[] = [];
+  const out: Record<string, Cell> = {};
+
+  for (const [fieldId, cell] of Object.entries(record)) {
+    const field = byId.get(fieldId);
+    const label = field?.label ?? `field ${fieldId}`;
+    const report = (message: string) => problems.push({ row, fieldId, label, message });
+
+    if (!field) {
+      report('field does not exist in this table');
+      continue;
+    }
+    if (isDerived(field)) {
+      report(`${field.mode || field.fieldType} fields are calculated by QuickBase and cannot be written`);
+      continue;
+    }
+    if (cell === null || typeof cell !== 'object' || Array.isArray(cell) || !('value' in cell)) {
+      report(`expected { "value": ... }, got ${show(cell)}`);
+      continue;
+    }
+
+    const { value } = cell as Cell;
+    const coerce = COERCERS[normalizeType(field.fieldType)];
+    if (value === null || !coerce) {
+      out[fieldId] = { ...(cell as Cell) };
+      continue;
+    }
+    const result = coerce(value, field);
+    if ('error' in result) {
+      report(result.error);
+    } else {
+      out[fieldId] = { ...(cell as Cell), value: result.value };
+    }
+  }
+
+  return { record: out, problems };
+}
+
+/**
+ * Validate a batch of records before a write. Returns the coerced records, or
+ * throws a single McpError listing every problem by row and field label.
+ *
+ * @throws {McpError} InvalidParams when any value fails validation.
+ */
+export function validateRecordsForWrite(
+  fields: FieldDefinition[],
+  records: Array<Record<string, unknown>>
+): Array<Record<string, Cell>> {
+  const problems: ValueProblem[] = [];
+  const coerced = records.map((record, index) => {
+    const result = coerceRecordValues(fields, record, index + 1);
+    problems.push(...result.problems);
+    return result.record;
+  });
+
+  if (problems.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, formatProblems(problems, records.length > 1));
+  }
+  return coerced;
+}
+
+function formatProblems(problems: ValueProblem[], withRows: boolean): string {
+  const lines = problems.slice(0, MAX_REPORTED_PROBLEMS).map(p =>
+    `${withRows ? `row ${p.row}, ` : ''}"${p.label}": ${p.message}`
+  );
+  const more = problems.length > MAX_REPORTED_PROBLEMS
+    ? `\n… and ${problems.length - MAX_REPORTED_PROBLEMS} more`
+    : '';
+  return `Record validation failed with ${problems.length} problem(s):\n- ${lines.join('\n- ')}${more}`;
+}
+
+/**
+ * A value read from a record in the form a write takes it back. Query results
+ * return users as `{ id, email, name, userName }`; writes take `{ id }`.
+ */
+export function writableValue(value: unknown): unknown {
+  const user = (v: any) => (v && typeof v === 'object' && typeof v.id === 'string' && 'email' in v ? { id: v.id } : v);
+  return Array.isArray(value) ? value.map(user) : user(value);
+}
@@ -0,0 +1,220 @@
+import { createHmac } from 'node:crypto';
+import type { FieldRef } from './fieldLabels.js';
+import type { EffectivePolicy } from './policy.js';
+
+export type RedactionMode = 'mask' | 'hash' | 'drop';
+
+/** The redacted fields of the tables one tool call touches. */
+export interface RedactionRules {
+  byId: Map<number, RedactionMode>;
+  /** Keyed by {@link normalizeLabel}. */
+  byLabel: Map<string, RedactionMode>;
+  /** HMAC key for `hash`, so equal values hash alike without being guessable from the hash. */
+  hashKey: string;
+}
+
+export const MASKED_VALUE = '[REDACTED]';
+
+// Values already hidden are left alone, so output redacted twice is unchanged.
+const HIDDEN_VALUE = /^\[(REDACTED|HASH:[0-9a-f]{16})\]$/;
+
+// Labels reach tool output with their case, spacing and punctuation changed
+// (e.g. "Home Email" as home_email in pipeline activity), so compare without them.
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * The tables whose `redact` rules apply to a call that names `tableIds`. A
+ * call that names no table, such as pipeline activity, gets every table in the
+ * policy, since its output can hold records from any of them.
+ */
+export function redactedTableIds(policy: EffectivePolicy | undefined, tableIds: string[]): string[] {
+  if (!policy) return [];
+  return (tableIds.length > 0 ? tableIds : Object.keys(policy.tables))
+    .filter(id => Object.keys(policy.tables[id]?.redact ?? {}).length > 0);
+}
+
+/**
+ * The redaction rules for a call that names `tableIds` (see
+ * {@link redactedTableIds}). A rule names a field by ID or by label, but
+ * output may key its values by either, so each rule is looked up in that
+ * table's entry of `fieldsByTable` and covers both. Undefined when nothing is
+ * redacted.
+ */
+export function redactionRules(
+  policy: EffectivePolicy | undefined,
+  tableIds: string[],
+  hashKey: string,
+  fieldsByTable: Record<string, FieldRef[]> = {}
+): RedactionRules | undefined {
+  const rules: RedactionRules = { byId: new Map(), byLabel: new Map(), hashKey };
+  for (const tableId of redactedTableIds(policy, tableIds)) {
+    const fields = fieldsByTable[tableId] ?? [];
+    for (const [rule, mode] of Object.entries(policy!.tables[tableId].redact!)) {
+      const isId = /^\d+$/.test(rule);
+      if (isId) rules.byId.set(Number(rule), mode);
+      else rules.byLabel.set(normalizeLabel(rule), mode);
+      const field = fields.find(f => (isId ? f.id === Number(rule) : normalizeLabel(f.label) === normalizeLabel(rule)));
+      if (field) {
+        rules.byId.set(field.id, mode);
+        rules.byLabel.set(normalizeLabel(field.label), mode);
+      }
+    }
+  }
+  return rules.byId.size + rules.byLabel.size > 0 ? rules : undefined;
+}
+
+function hide(value: unknown, mode: 'mask' | 'hash', hashKey: string): unknown {
+  if (typeof value === 'string' && HIDDEN_VALUE.test(value)) return value;
+  if (mode === 'mask') return MASKED_VALUE;
+  const digest = createHmac('sha256', hashKey).update(JSON.stringify(value ?? null)).digest('hex').slice(0, 16);
+  return `[HASH:${digest}]`;
+}
+
+function isCell(value: unknown): value is { value: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'value' in value;
+}
+
+// The mode for an `{ id: 7, value }` or `{ label: "SSN", value }` pair (or a
+// filter condition `{ field, op, value }`), if it names a redacted field.
+function pairMode(item: Record<string, unknown>, rules: RedactionRules): RedactionMode | undefined {
+  if (!('value' in item)) return undefined;
+  const id = item.id ?? item.fieldId ?? item.fid ?? item.field;
+  const label = item.label ?? item.name ?? item.fieldName ?? item.field;
+  const byId = typeof id === 'number' || (typeof id === 'string' && /^\d+$/.test(id)) ? rules.byId.get(Number(id)) : undefined;
+  return byId ?? (typeof label === 'string' ? rules.byLabel.get(normalizeLabel(label)) : undefined);
+}
+
+/**
+ * Tools whose output holds records keyed by field label (pipeline activity
+ * payloads). Only their output has values matched by label key; elsewhere a
+ * key such as a table's `name` or `description` is not a field.
+ */
+export const labelKeyedTools = new Set([
+  'quickbase_get_pipeline_activity'
+]);
+
+/**
+ * Copy `value` with the values of redacted fields hidden. Recognises:
+ * - QuickBase cells under a field-ID key: `{ "7": { "value": ... } }`
+ * - `{ id: 7, value }` and `{ label: "SSN", value }` pairs, and filter conditions
+ * - with `labelKeys`, any value under a key matching a redacted label
+ *   (label-keyed rows, records embedded in pipeline activity)
+ *
+ * `drop` removes the key (for a pair, its `value`); `mask` and `hash` replace the value.
+ */
+export function redactValue(value: unknown, rules: RedactionRules, labelKeys = false): unknown {
+  if (Array.isArray(value)) return value.map(item => redactValue(item, rules, labelKeys));
+  if (typeof value !== 'object' || value === null) return value;
+  const source = value as Record<string, unknown>;
+  const modeOfValue = pairMode(source, rules);
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(source)) {
+    const mode = key === 'value'
+      ? modeOfValue
+      : /^\d+$/.test(key)
+        ? (isCell(item) ? rules.byId.get(Number(key)) : undefined)
+        : labelKeys ? rules.byLabel.get(normalizeLabel(key)) : undefined;
+    if (!mode) {
+      result[key] = redactValue(item, rules, labelKeys);
+    } else if (mode !== 'drop') {
+      result[key] = key !== 'value' && isCell(item) ? { ...item, value: hide(item.value, mode, rules.hashKey) } : hide(item, mode, rules.hashKey);
+    }
+  }
+  return result;
+}
+
+/**
+ * Copy aggregate result `rows` with the columns computed from redacted fields
+ * hidden. Column names such as `max(Salary)` or a caller's `as` name do not
+ * match a field label, so {@link redactValue} cannot tie them to their field.
+ */
+export function redactColumns(
+  rows: Array<Record<string, unknown>>,
+  columns: Array<{ fieldId?: number; name: string }>,
+  rules: RedactionRules
+): Array<Record<string, unknown>> {
+  const hidden = columns.flatMap(({ fieldId, name }) => {
+    const mode = fieldId === undefined ? undefined : rules.byId.get(fieldId);
+    return mode ? [{ name, mode }] : [];
+  });
+  if (hidden.length === 0) return rows;
+  return rows.map(row => {
+    const result = { ...row };
+    for (const { name, mode } of hidden) {
+      if (!(name in result)) continue;
+      if (mode === 'drop') delete result[name];
+      else result[name] = hide(result[name], mode, rules.hashKey);
+    }
+    return result;
+  });
+}
+
+/**
+ * Redact a tool's text output. JSON documents and JSONL are redacted with
+ * {@link redactValue}; other text (messages, YAML, CSV) is returned as is,
+ * so record data must not reach a tool's output in those forms unredacted.
+ * Label-keyed rows must be redacted before they leave the tool unless
+ * `labelKeys` is set.
+ */
+export function redactToolOutput(text: string, rules: RedactionRules, labelKeys = false): string {
+  try {
+    const parsed = JSON.parse(text);
+    const redacted = redactValue(parsed, rules, labelKeys);
+    return JSON.stringify(redacted) === JSON.stringify(parsed) ? text : JSON.stringify(redacted, null, 2);
+  } catch {
+    // Not a single JSON document; it may be JSONL.
+  }
+  try {
+    return text
+      .split('\n')
+      .map(line => (line.trim() ? JSON.stringify(redactValue(JSON.parse(line), rules, labelKeys)) : line))
+      .join('\n');
+  } catch {
+    return text;
+  }
+}
+
+// A query clause on a field ID with a quoted value: {7.EX.'123-45-6789'}.
+const QUERY_CLAUSE = /\{(\s*'?(\d+)'?\s*\.\s*[A-Za-z]+\s*\.\s*)'([^']*)'(\s*)\}/g;
+
+function redactWhere(where: string, rules: RedactionRules): string {
+  return where.replace(QUERY_CLAUSE, (clause, head: string, id: string, value: string, tail: string) => {
+    const mode = rules.byId.get(Number(id));
+    if (!mode) return clause;
+    return `{${head}'${hide(value, mode === 'drop' ? 'mask' : mode, rules.hashKey)}'${tail}}`;
+  });
+}
+
+/**
+ * Copy a tool call's arguments with the values of redacted fields hidden, for
+ * the audit log. Besides what {@link redactValue} recognises, this covers
+ * label-keyed `fields` and `updates` (`fieldNames: true`), the clauses of
+ * `where` strings, upsert key values of a redacted merge field, and the text
+ * of an import, which is left out.
+ */
+export function redactCallArgs(args: unknown, rules: RedactionRules): unknown {
+  const source = typeof args === 'object' && args !== null ? (args as Record<string, unknown>) : {};
+  const mergeMode = typeof source.mergeFieldId === 'number' ? rules.byId.get(source.mergeFieldId) : undefined;
+  const walk = (value: unknown, key?: string): unknown => {
+    if (typeof value === 'string') return key === 'where' ? redactWhere(value, rules) : value;
+    if (Array.isArray(value)) return value.map(item => walk(item));
+    if (typeof value !== 'object' || value === null) return value;
+    if (key === 'fields' || key === 'updates') return redactValue(value, rules, true);
+    const result: Record<string, unknown> = {};
+    for (const [name, item] of Object.entries(value)) {
+      if (name === 'keyValue' && mergeMode) {
+        if (mergeMode !== 'drop') result[name] = hide(item, mergeMode, rules.hashKey);
+      } else {
+        result[name] = walk(item, name);
+      }
+    }
+    return result;
+  };
+  const redacted = walk(args) as Record<string, unknown>;
+  if (typeof redacted?.data === 'string') {
+    redacted.data = `[${redacted.data.length} characters not logged: the table has redacted fields]`;
+  }
+  return redactValue(redacted, rules);
+}
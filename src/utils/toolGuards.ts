@@ -1,9 +1,11 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { findRule, matchesToolPattern, tableIdsInArgs, type EffectivePolicy } from './policy.js';
 
 export const destructiveTools = new Set([
   'quickbase_delete_table',
   'quickbase_delete_field',
   'quickbase_delete_record',
+  'quickbase_bulk_delete_records',
   'quickbase_delete_webhook',
   'quickbase_delete_notification'
 ]);
@@ -13,9 +15,16 @@ export const readOnlyAllowedTools = new Set([
   'quickbase_get_app_info',
   'quickbase_get_tables',
   'quickbase_test_connection',
+  'quickbase_get_audit_log',
+  'quickbase_explain_policy',
   'quickbase_get_table_info',
   'quickbase_get_table_fields',
+  'quickbase_refresh_schema',
+  'quickbase_export_schema',
+  'quickbase_diff_schema',
+  'quickbase_plan_schema',
   'quickbase_query_records',
+  'quickbase_aggregate_records',
   'quickbase_get_record',
   'quickbase_search_records',
   'quickbase_get_relationships',
@@ -36,13 +45,28 @@ export const readOnlyAllowedTools = new Set([
   'quickbase_end_impersonation'
 ]);
 
+/**
+ * Tools that only read from the app and tables they name and write to another
+ * app (`targetAppId`). The guard treats the named app as read from; the
+ * handler checks the target app with `target: true`.
+ */
+export const crossAppTools = new Set([
+  'quickbase_clone_table'
+]);
+
 export const confirmationRequiredTools = new Set([
   'quickbase_create_table',
+  'quickbase_clone_table',
   'quickbase_create_field',
   'quickbase_update_field',
+  'quickbase_apply_schema',
   'quickbase_create_record',
   'quickbase_update_record',
+  'quickbase_undo',
   'quickbase_bulk_create_records',
+  'quickbase_upsert_records',
+  'quickbase_bulk_update_records',
+  'quickbase_import_records',
   'quickbase_create_relationship',
   'quickbase_create_advanced_relationship',
   'quickbase_create_lookup_field',
@@ -51,18 +75,70 @@ export const confirmationRequiredTools = new Set([
   'quickbase_create_notification'
 ]);
 
+/**
+ * True when the call asks for a dry run of a tool that can change something.
+ * Dry runs send no writes, so they skip the read-only, destructive and
+ * confirmation checks. The policy file still applies to them.
+ */
+export function isDryRunCall(name: string, args: unknown): boolean {
+  return (
+    typeof args === 'object' && args !== null && (args as any).dryRun === true &&
+    (confirmationRequiredTools.has(name) || destructiveTools.has(name))
+  );
+}
+
+/**
+ * Why the app's policy refuses the call, or undefined when it allows it.
+ * App-wide deny rules win over allow rules; a tool must then match the allow
+ * list (when there is one) and pass the rules of every table it names.
+ */
+export function policyDenial(policy: EffectivePolicy | undefined, name: string, args: unknown): string | undefined {
+  if (!policy) return undefined;
+  const app = `the policy for app ${policy.appId}`;
+
+  const denied = findRule(policy.deny, name);
+  if (denied) return `Tool "${name}" is denied by ${app} (deny rule "${denied.pattern}" in ${denied.source}).`;
+  if (policy.allow && !findRule(policy.allow, name)) {
+    return `Tool "${name}" is not in the allow list of ${app} (${[...new Set(policy.allow.map(r => r.source))].join(', ')}).`;
+  }
+
+  for (const tableId of tableIdsInArgs(args)) {
+    const table = policy.tables[tableId];
+    if (!table) continue;
+    const tableDenied = table.deny?.find(pattern => matchesToolPattern(pattern, name));
+    if (tableDenied) {
+      return `Tool "${name}" is denied for table ${tableId} by ${app} (deny rule "${tableDenied}" in ${table.source}).`;
+    }
+    if (table.allow && !table.allow.some(pattern => matchesToolPattern(pattern, name))) {
+      return `Tool "${name}" is not in the allow list for table ${tableId} in ${app} (${table.source}).`;
+    }
+    if (table.readOnly && !readOnlyAllowedTools.has(name) && !crossAppTools.has(name)) {
+      return `Table ${tableId} is read-only under ${app} (${table.source}), and "${name}" can change it.`;
+    }
+  }
+  return undefined;
+}
+
 export function assertToolAllowed(params: {
   name: string;
   args: unknown;
   readOnly: boolean;
   allowDestructive: boolean;
+  policy?: EffectivePolicy;
+  /** Set when checking the app a cross-app tool writes to, rather than the one it reads from. */
+  target?: boolean;
 }): void {
-  const { name, args, readOnly, allowDestructive } = params;
+  const { name, args, readOnly, allowDestructive, policy, target } = params;
+
+  const denial = policyDenial(policy, name, args);
+  if (denial) throw new McpError(ErrorCode.InvalidRequest, denial);
+
+  if (isDryRunCall(name, args)) return;
 
   const confirmed =
     typeof args === 'object' && args !== null && (args as any).confirm === true;
 
-  if (readOnly && !readOnlyAllowedTools.has(name)) {
+  if (readOnly && !readOnlyAllowedTools.has(name) && (target || !crossAppTools.has(name))) {
     throw new McpError(
       ErrorCode.InvalidRequest,
       `Server is running in read-only mode for this application. Tool "${name}" is not allowed.`
@@ -83,3 +159,34 @@ export function assertToolAllowed(params: {
     );
   }
 }
+
+/**
+ * Refuse a bulk update or delete that would touch more records than the app's
+ * `maxAffectedRows` limit, unless the caller echoes the count back in
+ * `expectedAffectedRows`. A given `expectedAffectedRows` must always match,
+ * so an override cannot carry over to a selection that has since grown.
+ */
+export function assertAffectedRowsAllowed(params: {
+  name: string;
+  count: number;
+  maxAffectedRows?: number;
+  expectedAffectedRows?: number;
+}): void {
+  const { name, count, maxAffectedRows, expectedAffectedRows } = params;
+
+  if (expectedAffectedRows !== undefined && expectedAffectedRows !== count) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Tool "${name}" would affect ${count} records, not the ${expectedAffectedRows} given in expectedAffectedRows. ` +
+      'The matching records have changed; check the selection again before re-running with the new count.'
+    );
+  }
+
+  if (maxAffectedRows !== undefined && count > maxAffectedRows && expectedAffectedRows === undefined) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Tool "${name}" would affect ${count} records, more than this application's limit of ${maxAffectedRows} ` +
+      `(QB_APP_<id>_MAX_AFFECTED_ROWS). Check the selection, then re-run with { "expectedAffectedRows": ${count}, ... } to proceed.`
+    );
+  }
+}
@@ -0,0 +1,298 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FILTER_OPERATORS, quoteQueryValue } from './filter.js';
+
+/** Field definition members the linter needs (as returned by `GET /fields`). */
+export interface LintField {
+  id: number;
+  label: string;
+  fieldType: string;
+}
+
+/** One problem found in a where clause. */
+export interface WhereIssue {
+  /** 0-based offset into the where string. */
+  position: number;
+  message: string;
+  /** Replacement for the offending condition, when one can be derived. */
+  suggestion?: string;
+}
+
+/** A `{fid.OP.value}` condition as written, with its span in the source string. */
+export interface WhereCondition {
+  start: number;
+  end: number;
+  text: string;
+  fieldRef: string;
+  op: string;
+  value: string;
+  quoted: boolean;
+}
+
+const KNOWN_OPERATORS = new Set<string>(FILTER_OPERATORS);
+
+// Operators agents commonly borrow from SQL or other query languages.
+const OPERATOR_ALIASES: Record<string, string> = {
+  EQ: 'EX', EQUALS: 'EX', IS: 'EX', '=': 'EX', '==': 'EX',
+  NE: 'XEX', NEQ: 'XEX', NOT: 'XEX', '!=': 'XEX', '<>': 'XEX',
+  CONTAINS: 'CT', LIKE: 'CT', NCT: 'XCT',
+  STARTSWITH: 'SW', BEGINSWITH: 'SW',
+  LE: 'LTE', GE: 'GTE', '<': 'LT', '<=': 'LTE', '>': 'GT', '>=': 'GTE',
+  BEFORE: 'BF', AFTER: 'AF', ONORBEFORE: 'OBF', ONORAFTER: 'OAF', IN: 'IR'
+};
+
+const DATE_OPERATORS = new Set(['BF', 'OBF', 'AF', 'OAF', 'IR', 'XIR']);
+const LIST_OPERATORS = new Set(['HAS', 'XHAS']);
+const CHECKBOX_OPERATORS = new Set(['EX', 'XEX', 'TV']);
+
+// Closest equivalent when a date operator is used on a non-date field, or vice versa.
+const DATE_TO_PLAIN: Record<string, string> = { BF: 'LT', OBF: 'LTE', AF: 'GT', OAF: 'GTE', IR: 'EX', XIR: 'XEX' };
+
+const MAX_LISTED_FIELDS = 10;
+
+/**
+ * Tokenize a QuickBase where clause into conditions, recording structural
+ * problems (unbalanced braces/parentheses, unterminated quotes, missing
+ * AND/OR) as issues rather than throwing.
+ */
+export function parseWhere(where: string): { conditions: WhereCondition[]; issues: WhereIssue[] } {
+  const conditions: WhereCondition[] = [];
+  const issues: WhereIssue[] = [];
+  const parens: number[] = [];
+  let i = 0;
+  let expectOperand = true;
+  let lastConnector = -1;
+
+  const skipSpace = () => {
+    while (i < where.length && /\s/.test(where[i])) i++;
+  };
+
+  while (true) {
+    skipSpace();
+    if (i >= where.length) break;
+    const ch = where[i];
+
+    if (expectOperand) {
+      if (ch === '(') {
+        parens.push(i++);
+        continue;
+      }
+      if (ch === '{') {
+        const condition = readCondition(where, i, issues);
+        if (!condition) return { conditions, issues };
+        conditions.push(condition);
+        i = condition.end;
+        expectOperand = false;
+        continue;
+      }
+      issues.push({ position: i, message: `Expected "{" or "(" at position ${i} but found "${ch}".` });
+      return { conditions, issues };
+    }
+
+    if (ch === ')') {
+      if (parens.length === 0) {
+        issues.push({ position: i, message: `Unbalanced ")" at position ${i}.` });
+      } else {
+        parens.pop();
+      }
+      i++;
+      continue;
+    }
+    const connector = /^(AND|OR)/i.exec(where.slice(i));
+    if (connector) {
+      lastConnector = i;
+      i += connector[0].length;
+      expectOperand = true;
+      continue;
+    }
+    issues.push({
+      position: i,
+      message: `Expected AND or OR at position ${i} but found "${ch}". Conditions must be joined explicitly, e.g. {6.EX.'a'}AND{7.EX.'b'}.`
+    });
+    expectOperand = true;
+  }
+
+  if (expectOperand && lastConnector >= 0) {
+    issues.push({ position: lastConnector, message: `Dangling AND/OR at position ${lastConnector} with no condition after it.` });
+  }
+  for (const open of parens) {
+    issues.push({ position: open, message: `Unbalanced "(" at position ${open}; add a matching ")".` });
+  }
+  return { conditions, issues };
+}
+
+function readCondition(where: string, start: number, issues: WhereIssue[]): WhereCondition | null {
+  let i = start + 1;
+  const firstDot = where.indexOf('.', i);
+  const secondDot = firstDot < 0 ? -1 : where.indexOf('.', firstDot + 1);
+  const close = where.indexOf('}', i);
+  if (firstDot < 0 || secondDot < 0 || (close >= 0 && close < secondDot)) {
+    const end = close >= 0 ? close + 1 : where.length;
+    issues.push({
+      position: start,
+      message: `Malformed condition "${where.slice(start, end)}"; expected {fieldId.OPERATOR.'value'}.`
+    });
+    return null;
+  }
+
+  const fieldRef = where.slice(i, firstDot).trim();
+  const op = where.slice(firstDot + 1, secondDot).trim();
+  i = secondDot + 1;
+
+  let value = '';
+  let quoted = false;
+  if (where[i] === "'") {
+    quoted = true;
+    i++;
+    while (i < where.length && where[i] !== "'") {
+      if (where[i] === '\\' && i + 1 < where.length) i++;
+      value += where[i++];
+    }
+    if (i >= where.length) {
+      issues.push({ position: start, message: `Unterminated quoted value in condition starting at position ${start}; close it with "'".` });
+      return null;
+    }
+    i++;
+    if (where[i] !== '}') {
+      issues.push({
+        position: i,
+        message: `Expected "}" after the quoted value at position ${i}. Quotes inside values must be escaped as \\'.`
+      });
+      return null;
+    }
+  } else {
+    const end = where.slice(i).search(/[{}]/);
+    if (end < 0 || where[i + end] === '{') {
+      issues.push({ position: start, message: `Missing "}" for the condition starting at position ${start}.` });
+      return null;
+    }
+    value = where.slice(i, i + end);
+    i += end;
+  }
+
+  return { start, end: i + 1, text: where.slice(start, i + 1), fieldRef, op, value, quoted };
+}
+
+/**
+ * Check a where clause against a table's field list: structure, field IDs,
+ * operator names, operator/field-type fit and value quoting.
+ */
+export function lintWhere(where: string, fields: LintField[]): { issues: WhereIssue[]; corrected?: string } {
+  const { conditions, issues } = parseWhere(where);
+  const structural = issues.length > 0;
+  const byId = new Map(fields.map(f => [String(f.id), f]));
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+  let fixable = !structural;
+
+  for (const condition of conditions) {
+    const problems: string[] = [];
+    let conditionFixable = true;
+    let fieldId = condition.fieldRef;
+    let op = condition.op.toUpperCase();
+
+    let field = byId.get(fieldId);
+    if (!field) {
+      const byLabel = fields.filter(f => f.label.toLowerCase() === condition.fieldRef.toLowerCase());
+      if (byLabel.length === 1) {
+        field = byLabel[0];
+        fieldId = String(field.id);
+        problems.push(`where clauses need field IDs, not labels ("${condition.fieldRef}" is field ${field.id})`);
+      } else {
+        problems.push(`unknown field ID "${condition.fieldRef}". Available: ${listFields(fields)}`);
+        conditionFixable = false;
+      }
+    }
+
+    if (!KNOWN_OPERATORS.has(op)) {
+      const alias = OPERATOR_ALIASES[op];
+      if (alias) {
+        problems.push(`unknown operator "${condition.op}"; QuickBase uses ${alias}`);
+        op = alias;
+      } else {
+        problems.push(`unknown operator "${condition.op}". Valid operators: ${FILTER_OPERATORS.join(', ')}`);
+        conditionFixable = false;
+      }
+    }
+
+    if (field && KNOWN_OPERATORS.has(op)) {
+      const replacement = operatorForType(op, field);
+      if (replacement !== op) {
+        const kind = `field ${field.id} ("${field.label}") is ${field.fieldType}`;
+        if (replacement) {
+          problems.push(`${op} does not apply here: ${kind}; use ${replacement}`);
+          op = replacement;
+        } else {
+          problems.push(`${op} does not apply here: ${kind}`);
+          conditionFixable = false;
+        }
+      }
+    }
+
+    if (!condition.quoted && !/^-?[\d.:-]*$/.test(condition.value.trim())) {
+      problems.push('text values must be in single quotes');
+    }
+
+    if (problems.length === 0) continue;
+    const message = `${condition.text}: ${problems.join('; ')}.`;
+    if (!conditionFixable) {
+      fixable = false;
+      issues.push({ position: condition.start, message });
+      continue;
+    }
+    const text = `{${fieldId}.${op}.${quoteQueryValue(condition.value)}}`;
+    issues.push({ position: condition.start, message, suggestion: text });
+    replacements.push({ start: condition.start, end: condition.end, text });
+  }
+
+  let corrected: string | undefined;
+  if (fixable && replacements.length > 0) {
+    corrected = where;
+    for (const r of [...replacements].reverse()) {
+      corrected = corrected.slice(0, r.start) + r.text + corrected.slice(r.end);
+    }
+  }
+  issues.sort((a, b) => a.position - b.position);
+  return { issues, corrected };
+}
+
+/**
+ * Lint a where clause and throw one McpError listing every problem (with a
+ * corrected clause when every problem has an unambiguous fix).
+ *
+ * @throws {McpError} InvalidParams when the clause has any issue.
+ */
+export function assertValidWhere(where: string, fields: LintField[]): void {
+  const { issues, corrected } = lintWhere(where, fields);
+  if (issues.length === 0) return;
+
+  const lines = issues.map(issue =>
+    issue.suggestion && !corrected ? `${issue.message} Did you mean ${issue.suggestion}?` : issue.message
+  );
+  const hint = corrected ? `\nDid you mean: ${corrected}` : '';
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid where clause (${issues.length} problem(s)):\n- ${lines.join('\n- ')}${hint}`
+  );
+}
+
+/**
+ * Return `op` when it suits the field's type, a better-fitting operator when
+ * there is an obvious one, or undefined when there is no sensible substitute.
+ */
+function operatorForType(op: string, field: LintField): string | undefined {
+  const type = field.fieldType.toLowerCase().replace(/[-_]/g, '');
+  const isDate = type === 'date' || type === 'timestamp' || type === 'datetime';
+  const isList = type === 'multitext' || type === 'multiselect' || type === 'multiuser';
+
+  if (type === 'checkbox') {
+    if (CHECKBOX_OPERATORS.has(op)) return op;
+    return op.startsWith('X') ? 'XEX' : 'EX';
+  }
+  if (DATE_OPERATORS.has(op) && !isDate) return DATE_TO_PLAIN[op];
+  if (LIST_OPERATORS.has(op) && !isList) return op === 'HAS' ? 'CT' : 'XCT';
+  return op;
+}
+
+function listFields(fields: LintField[]): string {
+  const shown = fields.slice(0, MAX_LISTED_FIELDS).map(f => `${f.id} ("${f.label}")`).join(', ');
+  return fields.length > MAX_LISTED_FIELDS ? `${shown}, … (${fields.length - MAX_LISTED_FIELDS} more)` : shown;
+}
@@ -0,0 +1,238 @@
+// Plain scalars that YAML would read back as something other than a string.
+const RESERVED = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+const PLAIN = /^[A-Za-z_][\w .\/()#-]*$/;
+
+function formatKey(key: string): string {
+  return PLAIN.test(key) && !RESERVED.test(key) && !/ #|\s$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatString(text: string, indent: string): string {
+  if (PLAIN.test(text) && !RESERVED.test(text) && !/ #|\s$/.test(text)) return text;
+  // Multi-line text (formulas, descriptions) reads best as a literal block.
+  if (text.includes('\n') && !text.endsWith('\n') && !/^\s/.test(text) && !/[\r\t]|[ ]\n/.test(text)) {
+    return `|-\n${text.split('\n').map(line => (line ? `${indent}  ${line}` : '')).join('\n')}`;
+  }
+  return JSON.stringify(text);
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length === 0
+    : value !== null && typeof value === 'object' && Object.keys(value).length === 0;
+}
+
+function isCollection(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !isEmptyCollection(value);
+}
+
+function formatScalar(value: unknown, indent: string): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  if (typeof value === 'string') return formatString(value, indent);
+  return String(value);
+}
+
+function emit(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (!isCollection(item)) return [`${indent}- ${formatScalar(item, indent)}`];
+      const [first, ...rest] = emit(item, `${indent}  `);
+      return [`${indent}- ${first.slice(indent.length + 2)}`, ...rest];
+    });
+  }
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) => {
+    const label = `${indent}${formatKey(key)}:`;
+    return isCollection(item)
+      ? [label, ...emit(item, `${indent}  `)]
+      : [`${label} ${formatScalar(item, indent)}`];
+  });
+}
+
+/**
+ * Serialize JSON-compatible data as block-style YAML. Output depends only on
+ * the input (keys keep their insertion order), so equal inputs produce
+ * byte-identical documents. Strings are left plain when that is unambiguous,
+ * written as literal blocks when they span lines, and JSON-quoted otherwise.
+ */
+export function toYaml(value: unknown): string {
+  if (!isCollection(value)) return `${formatScalar(value, '')}\n`;
+  return `${emit(value, '').join('\n')}\n`;
+}
+
+interface YamlLine {
+  /** Index into the raw lines, for block scalars and error messages. */
+  raw: number;
+  indent: number;
+  text: string;
+}
+
+const MAPPING_LINE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-[\]{},][^:#]*?|-[^\s:#][^:#]*?)\s*:(?:\s+(.*))?$/;
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+class YamlReader {
+  private pos = 0;
+
+  constructor(private readonly rawLines: string[], private readonly lines: YamlLine[]) {}
+
+  read(): unknown {
+    if (this.lines.length === 0) return null;
+    const value = this.block(this.lines[0].indent);
+    if (this.pos < this.lines.length) this.fail(this.lines[this.pos], 'unexpected indentation');
+    return value;
+  }
+
+  private fail(line: YamlLine, message: string): never {
+    throw new Error(`YAML line ${line.raw + 1}: ${message}`);
+  }
+
+  private isItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  private block(indent: number): unknown {
+    return this.isItem(this.lines[this.pos].text) ? this.sequence(indent) : this.mapping(indent);
+  }
+
+  // The value after "key:" or "-" when nothing follows on the same line.
+  private nested(indent: number, allowSameIndentSequence: boolean): unknown {
+    const next = this.lines[this.pos];
+    if (next && next.indent > indent) return this.block(next.indent);
+    if (next && allowSameIndentSequence && next.indent === indent && this.isItem(next.text)) return this.sequence(indent);
+    return null;
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (this.pos < this.lines.length && this.lines[this.pos].indent === indent && this.isItem(this.lines[this.pos].text)) {
+      const line = this.lines[this.pos];
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.pos++;
+        items.push(this.nested(indent, false));
+      } else if (this.isItem(rest) || MAPPING_LINE.test(rest)) {
+        // "- key: value" starts a block whose indentation is the column after "- ".
+        this.lines[this.pos] = { ...line, indent: indent + line.text.length - rest.length, text: rest };
+        items.push(this.block(this.lines[this.pos].indent));
+      } else {
+        this.pos++;
+        items.push(this.scalar(rest, line, indent));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    while (this.pos < this.lines.length && this.lines[this.pos].indent === indent) {
+      const line = this.lines[this.pos];
+      const match = MAPPING_LINE.exec(line.text);
+      if (!match) this.fail(line, `expected "key: value", found "${line.text}"`);
+      const key = /^["']/.test(match[1]) ? String(this.quoted(match[1], line).value) : match[1];
+      if (Object.prototype.hasOwnProperty.call(map, key)) this.fail(line, `duplicate key "${key}"`);
+      this.pos++;
+      const rest = (match[2] ?? '').trim();
+      map[key] = rest && !rest.startsWith('#') ? this.scalar(rest, line, indent) : this.nested(indent, true);
+      const next = this.lines[this.pos];
+      if (next && next.indent > indent) this.fail(next, 'unexpected indentation');
+    }
+    return map;
+  }
+
+  private scalar(text: string, line: YamlLine, indent: number): unknown {
+    if (text === '|' || text === '|-') return this.blockScalar(line, indent, text === '|');
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const { value, rest } = this.quoted(text, line);
+      if (rest.trim() && !rest.trim().startsWith('#')) this.fail(line, `unexpected text after quoted string: "${rest.trim()}"`);
+      return value;
+    }
+    if (text.startsWith('[')) return this.flowSequence(text, line);
+    if (text.startsWith('{')) {
+      if (!/^\{\s*\}\s*(#.*)?$/.test(text)) this.fail(line, 'flow mappings other than {} are not supported');
+      return {};
+    }
+    return this.plain(text.replace(/\s+#.*$/, '').trim());
+  }
+
+  private plain(text: string): unknown {
+    if (/^(null|Null|NULL|~)?$/.test(text)) return null;
+    if (/^(true|True|TRUE)$/.test(text)) return true;
+    if (/^(false|False|FALSE)$/.test(text)) return false;
+    if (NUMBER.test(text)) return Number(text);
+    return text;
+  }
+
+  private quoted(text: string, line: YamlLine): { value: string; rest: string } {
+    if (text.startsWith('"')) {
+      const match = /^"(?:[^"\\]|\\.)*"/.exec(text);
+      if (!match) this.fail(line, 'unterminated double-quoted string');
+      try {
+        return { value: JSON.parse(match[0]), rest: text.slice(match[0].length) };
+      } catch {
+        this.fail(line, `invalid escape in ${match[0]}`);
+      }
+    }
+    const match = /^'((?:[^']|'')*)'/.exec(text);
+    if (!match) this.fail(line, 'unterminated single-quoted string');
+    return { value: match[1].replace(/''/g, "'"), rest: text.slice(match[0].length) };
+  }
+
+  private flowSequence(text: string, line: YamlLine): unknown[] {
+    const items: unknown[] = [];
+    let rest = text.slice(1).trimStart();
+    while (!rest.startsWith(']')) {
+      if (!rest) this.fail(line, 'unterminated flow sequence');
+      let item: unknown;
+      if (rest.startsWith('"') || rest.startsWith("'")) {
+        const quoted = this.quoted(rest, line);
+        item = quoted.value;
+        rest = quoted.rest.trimStart();
+      } else {
+        const end = rest.search(/[,\]]/);
+        if (end < 0) this.fail(line, 'unterminated flow sequence');
+        item = this.plain(rest.slice(0, end).trim());
+        rest = rest.slice(end);
+      }
+      items.push(item);
+      if (rest.startsWith(',')) rest = rest.slice(1).trimStart();
+      else if (!rest.startsWith(']')) this.fail(line, 'expected "," or "]" in flow sequence');
+    }
+    if (rest.slice(1).trim() && !rest.slice(1).trim().startsWith('#')) this.fail(line, 'unexpected text after flow sequence');
+    return items;
+  }
+
+  // A literal block: the raw lines indented deeper than the key, with the common indent removed.
+  private blockScalar(line: YamlLine, indent: number, keepNewline: boolean): string {
+    const body: string[] = [];
+    let raw = line.raw + 1;
+    for (; raw < this.rawLines.length; raw++) {
+      const text = this.rawLines[raw];
+      if (text.trim() && text.length - text.trimStart().length <= indent) break;
+      body.push(text);
+    }
+    while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+    const margin = Math.min(...body.filter(l => l.trim()).map(l => l.length - l.trimStart().length));
+    while (this.pos < this.lines.length && this.lines[this.pos].raw < raw) this.pos++;
+    const value = body.map(l => l.slice(margin)).join('\n');
+    return keepNewline && body.length > 0 ? `${value}\n` : value;
+  }
+}
+
+/**
+ * Parse the block-style YAML subset that {@link toYaml} writes and people
+ * write by hand for configuration: nested mappings and `-` sequences,
+ * plain, quoted and literal-block (`|`, `|-`) scalars, `[a, b]` sequences of
+ * scalars and comments. Anchors, tags, multiple documents and flow mappings
+ * are not supported and raise an error naming the line.
+ */
+export function parseYaml(text: string): unknown {
+  const rawLines = text.replace(/^﻿/, '').split(/\r?\n/);
+  const lines: YamlLine[] = [];
+  rawLines.forEach((line, raw) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || (lines.length === 0 && trimmed === '---')) return;
+    if (/^\t/.test(line)) throw new Error(`YAML line ${raw + 1}: tabs are not allowed for indentation`);
+    lines.push({ raw, indent: line.length - line.trimStart().length, text: trimmed });
+  });
+  return new YamlReader(rawLines, lines).read();
+}
@@ -0,0 +1,59 @@
+import { Aggregator } from '../src/utils/aggregate';
+
+describe('Aggregator', () => {
+  const row = (status: unknown, amount: unknown, due?: string) => ({
+    '7': { value: status },
+    '8': { value: amount },
+    ...(due ? { '9': { value: due } } : {})
+  });
+
+  it('computes count, sum, avg, min and max per group', () => {
+    const aggregator = new Aggregator(
+      [{ fieldId: 7, name: 'Status' }],
+      [
+        { fn: 'count', name: 'count' },
+        { fn: 'sum', fieldId: 8, name: 'sum(Amount)' },
+        { fn: 'avg', fieldId: 8, name: 'avg(Amount)' },
+        { fn: 'min', fieldId: 9, name: 'min(Due)' },
+        { fn: 'max', fieldId: 8, name: 'max(Amount)' }
+      ]
+    );
+    aggregator.add([row('Open', 10, '2026-03-01'), row('Closed', 5, '2026-01-01')]);
+    aggregator.add([row('Open', 30, '2026-02-01'), row('Open', null)]);
+
+    expect(aggregator.rowCount).toBe(4);
+    expect(aggregator.result()).toEqual([
+      { Status: 'Closed', count: 1, 'sum(Amount)': 5, 'avg(Amount)': 5, 'min(Due)': '2026-01-01', 'max(Amount)': 5 },
+      { Status: 'Open', count: 3, 'sum(Amount)': 40, 'avg(Amount)': 20, 'min(Due)': '2026-02-01', 'max(Amount)': 30 }
+    ]);
+  });
+
+  it('counts non-blank values when count names a field', () => {
+    const aggregator = new Aggregator([], [{ fn: 'count', fieldId: 8, name: 'count(Amount)' }]);
+    aggregator.add([row('a', 1), row('b', null), row('c', '')]);
+    expect(aggregator.result()).toEqual([{ 'count(Amount)': 1 }]);
+  });
+
+  it('groups blanks together and sorts them last', () => {
+    const aggregator = new Aggregator([{ fieldId: 7, name: 'Status' }], [{ fn: 'count', name: 'n' }]);
+    aggregator.add([row('', 1), row('B', 1), row(null, 1), row('A', 1)]);
+    expect(aggregator.result()).toEqual([
+      { Status: 'A', n: 1 },
+      { Status: 'B', n: 1 },
+      { Status: null, n: 2 }
+    ]);
+  });
+
+  it('flattens user and multi-select values into group keys', () => {
+    const aggregator = new Aggregator([{ fieldId: 7, name: 'Owner' }], [{ fn: 'count', name: 'n' }]);
+    aggregator.add([row({ id: '1', name: 'Ada', email: 'ada@example.com' }, 0), row(['x', 'y'], 0)]);
+    expect(aggregator.result().map(r => r.Owner)).toEqual(['Ada', 'x; y']);
+  });
+
+  it('caps the number of groups returned but reports the full group count', () => {
+    const aggregator = new Aggregator([{ fieldId: 7, name: 'Status' }], [{ fn: 'count', name: 'n' }]);
+    aggregator.add([row('a', 1), row('b', 1), row('c', 1)]);
+    expect(aggregator.result(2)).toHaveLength(2);
+    expect(aggregator.groupCount).toBe(3);
+  });
+});
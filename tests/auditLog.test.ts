@@ -0,0 +1,95 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AuditEntry, AuditLog, redactArgs } from '../src/utils/auditLog';
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    tool: 'quickbase_update_record',
+    appId: 'bapp',
+    tableId: 'btbl',
+    args: {},
+    recordIds: [1],
+    outcome: 'success',
+    durationMs: 12,
+    ...overrides
+  };
+}
+
+describe('redactArgs', () => {
+  it('masks secret-looking keys at any depth', () => {
+    expect(redactArgs({
+      appId: 'bapp',
+      headers: { Authorization: 'QB-USER-TOKEN abc', 'X-Api-Key': 'k' },
+      userToken: 'abc',
+      password: 'p'
+    })).toEqual({
+      appId: 'bapp',
+      headers: { Authorization: '[REDACTED]', 'X-Api-Key': '[REDACTED]' },
+      userToken: '[REDACTED]',
+      password: '[REDACTED]'
+    });
+  });
+
+  it('shortens long strings and arrays', () => {
+    const result = redactArgs({ data: 'x'.repeat(600), records: Array.from({ length: 25 }, (_, i) => i) }) as any;
+    expect(result.data).toBe(`${'x'.repeat(500)}… [100 more characters]`);
+    expect(result.records).toHaveLength(21);
+    expect(result.records[20]).toBe('… 5 more items');
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qb-audit-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends JSONL entries, creating the directory, and reads them newest first', async () => {
+    const file = path.join(dir, 'logs', 'audit.jsonl');
+    const log = new AuditLog({ path: file, retentionDays: 30 });
+    await log.append(entry({ recordIds: [1] }));
+    await log.append(entry({ tool: 'quickbase_delete_record', recordIds: [2] }));
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).recordIds).toEqual([1]);
+    expect((await log.read({ limit: 10 })).map(e => e.recordIds[0])).toEqual([2, 1]);
+  });
+
+  it('filters by app, tool, table, outcome and time', async () => {
+    const log = new AuditLog({ path: path.join(dir, 'audit.jsonl'), retentionDays: 30 });
+    await log.append(entry({ timestamp: '2026-10-01T00:00:00.000Z' }));
+    await log.append(entry({ appId: 'bother' }));
+    await log.append(entry({ tool: 'quickbase_create_record', outcome: 'denied' }));
+    await log.append(entry({ tableId: 'bother' }));
+
+    expect(await log.read({ appId: 'bother', limit: 10 })).toHaveLength(1);
+    expect(await log.read({ tool: 'quickbase_create_record', limit: 10 })).toHaveLength(1);
+    expect(await log.read({ outcome: 'denied', limit: 10 })).toHaveLength(1);
+    expect(await log.read({ tableId: 'btbl', appId: 'bapp', limit: 10 })).toHaveLength(2);
+    expect(await log.read({ since: '2026-10-02T00:00:00Z', limit: 10 })).toHaveLength(3);
+    expect(await log.read({ limit: 2 })).toHaveLength(2);
+  });
+
+  it('drops entries past the retention period and skips torn lines', async () => {
+    const file = path.join(dir, 'audit.jsonl');
+    const old = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString();
+    fs.writeFileSync(file, `${JSON.stringify(entry({ timestamp: old }))}\n{"timestamp":"20`);
+    const log = new AuditLog({ path: file, retentionDays: 7 });
+    await log.append(entry({ recordIds: [9] }));
+
+    const entries = await log.read({ limit: 10 });
+    expect(entries.map(e => e.recordIds)).toEqual([[9]]);
+    expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('reads a missing log as empty', async () => {
+    const log = new AuditLog({ path: path.join(dir, 'none.jsonl'), retentionDays: 7 });
+    expect(await log.read({ limit: 10 })).toEqual([]);
+  });
+});
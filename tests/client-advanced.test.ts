@@ -195,14 +195,15 @@ describe('QuickBaseClient - Advanced Methods', () => {
             data: [
               { recordId: 1, fields: { 3: 'John' } },
               { recordId: 2, fields: { 3: 'Jane' } }
-            ]
+            ],
+            metadata: { totalRecords: 2 }
           }
         });
 
         const result = await client.runReport('report1', 'bux123');
 
-        expect(Array.isArray(result)).toBe(true);
-        expect(result.length).toBe(2);
+        expect(Array.isArray(result.data)).toBe(true);
+        expect(result.data.length).toBe(2);
       });
     });
 
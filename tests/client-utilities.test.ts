@@ -78,26 +78,81 @@ describe('QuickBaseClient - Utility and Advanced Methods', () => {
       });
     });
 
+    describe('findReport', () => {
+      const reports = [
+        { id: '1', name: 'All Records' },
+        { id: '2', name: 'Active Only' },
+        { id: '3', name: 'active only' }
+      ];
+
+      beforeEach(() => {
+        mockAxiosInstance.get.mockResolvedValue({ data: reports });
+      });
+
+      it('matches by ID, then exact name', async () => {
+        await expect(client.findReport('bux123', '1')).resolves.toEqual(reports[0]);
+        await expect(client.findReport('bux123', 'Active Only')).resolves.toEqual(reports[1]);
+      });
+
+      it('matches names case-insensitively when there is no exact match', async () => {
+        await expect(client.findReport('bux123', 'all records')).resolves.toEqual(reports[0]);
+      });
+
+      it('rejects ambiguous and unknown names', async () => {
+        await expect(client.findReport('bux123', 'ACTIVE ONLY')).rejects.toThrow(/matches 2 reports/);
+        await expect(client.findReport('bux123', 'Missing')).rejects.toThrow(/Available reports: "All Records" \(1\)/);
+      });
+    });
+
     describe('runReport', () => {
-      it('should run a report and return data', async () => {
+      it('runs the report with the report-run endpoint and returns its fields', async () => {
         const mockReportData = {
           data: [
             { 3: { value: 1 }, 4: { value: 'John' } },
             { 3: { value: 2 }, 4: { value: 'Jane' } }
-          ]
+          ],
+          fields: [{ id: 3, label: 'Record ID#', type: 'recordid' }, { id: 4, label: 'Name', type: 'text' }],
+          metadata: { totalRecords: 2, numRecords: 2, skip: 0 }
         };
         mockAxiosInstance.post.mockResolvedValue({ data: mockReportData });
 
         const result = await client.runReport('rep1', 'bux123');
 
         expect(mockAxiosInstance.post).toHaveBeenCalledWith(
-          '/records/query',
-          expect.objectContaining({
-            from: 'bux123',
-            options: { reportId: 'rep1' }
-          })
+          '/reports/rep1/run',
+          {},
+          { params: { tableId: 'bux123', top: 1000 } }
         );
-        expect(result).toHaveLength(2);
+        expect(result.data).toHaveLength(2);
+        expect(result.fields.map(f => f.label)).toEqual(['Record ID#', 'Name']);
+        expect(result.hasMore).toBe(false);
+      });
+
+      it('follows skip across pages up to maxRecords', async () => {
+        const row = (id: number) => ({ 3: { value: id } });
+        mockAxiosInstance.post
+          .mockResolvedValueOnce({ data: { data: [row(1), row(2)], fields: [], metadata: { totalRecords: 5 } } })
+          .mockResolvedValueOnce({ data: { data: [row(3), row(4)], fields: [], metadata: { totalRecords: 5 } } });
+
+        const result = await client.runReport('rep1', 'bux123', { maxRecords: 4 });
+
+        expect(mockAxiosInstance.post).toHaveBeenLastCalledWith(
+          '/reports/rep1/run',
+          {},
+          { params: { tableId: 'bux123', skip: 2, top: 2 } }
+        );
+        expect(result.data).toHaveLength(4);
+        expect(result).toMatchObject({ totalRecords: 5, nextSkip: 4, hasMore: true });
+      });
+
+      it('returns a single page when only top is given', async () => {
+        const row = (id: number) => ({ 3: { value: id } });
+        mockAxiosInstance.post.mockResolvedValueOnce({ data: { data: [row(1), row(2)], fields: [], metadata: { totalRecords: 5 } } });
+
+        const result = await client.runReport('rep1', 'bux123', { top: 2 });
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ nextSkip: 2, hasMore: true });
       });
 
       it('should handle empty report results', async () => {
@@ -105,7 +160,8 @@ describe('QuickBaseClient - Utility and Advanced Methods', () => {
 
         const result = await client.runReport('rep2', 'bux123');
 
-        expect(result).toEqual([]);
+        expect(result.data).toEqual([]);
+        expect(result.hasMore).toBe(false);
       });
     });
   });
@@ -171,6 +227,19 @@ describe('QuickBaseClient - Utility and Advanced Methods', () => {
         // Verify the call was made (sanitization is internal)
       });
 
+      it('should escape the term and AND an extra where clause', async () => {
+        mockAxiosInstance.post.mockResolvedValue({ data: { data: [] } });
+
+        await client.searchRecords('bux123', "O'Brien", [4, 5], "{7.EX.'Open'}");
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+          '/records/query',
+          expect.objectContaining({
+            where: "({4.CT.'O\\'Brien'}OR{5.CT.'O\\'Brien'})AND({7.EX.'Open'})"
+          })
+        );
+      });
+
       it('should limit search term length', async () => {
         mockAxiosInstance.post.mockResolvedValue({ data: { data: [] } });
 
@@ -228,6 +297,33 @@ describe('QuickBaseClient - Utility and Advanced Methods', () => {
         );
       });
 
+      it('should classify created and updated records from metadata', async () => {
+        mockAxiosInstance.post.mockResolvedValue({
+          data: {
+            data: [{ 3: { value: 7 } }, { 3: { value: 8 } }],
+            metadata: {
+              createdRecordIds: [8],
+              updatedRecordIds: [7],
+              unchangedRecordIds: [],
+              lineErrors: {}
+            }
+          }
+        });
+
+        const result = await client.upsertRecords('bux123', 4, [
+          { keyValue: 'john@example.com', data: { 5: { value: 'John' } } },
+          { keyValue: 'jane@example.com', data: { 5: { value: 'Jane' } } }
+        ]);
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+          '/records',
+          expect.objectContaining({ fieldsToReturn: [3] })
+        );
+        expect(result.records.map(r => r.status)).toEqual(['updated', 'created']);
+        expect(result.createdRecordIds).toEqual([8]);
+        expect(result.totalNumberOfRecordsProcessed).toBe(2);
+      });
+
       it('should handle empty upsert', async () => {
         mockAxiosInstance.post.mockResolvedValue({ data: { data: [] } });
 
@@ -238,6 +334,107 @@ describe('QuickBaseClient - Utility and Advanced Methods', () => {
     });
   });
 
+  describe('Chunked Writes', () => {
+    const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ 6: { value: `row ${i + 1}` } }));
+
+    it('should split rows by record count and aggregate created IDs', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { metadata: { createdRecordIds: [1, 2] } } })
+        .mockResolvedValueOnce({ data: { metadata: { createdRecordIds: [3, 4] } } })
+        .mockResolvedValueOnce({ data: { metadata: { createdRecordIds: [5] } } });
+
+      const report = await client.writeRecordsChunked('bux123', rows(5), { maxRecordsPerChunk: 2 });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+      expect(report.chunkCount).toBe(3);
+      expect(report.createdRecordIds).toEqual([1, 2, 3, 4, 5]);
+      expect(report.succeeded).toBe(5);
+      expect(report.failed).toBe(0);
+    });
+
+    it('should split rows by serialized payload size', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { metadata: { createdRecordIds: [] } } });
+      const big = Array.from({ length: 4 }, () => ({ 6: { value: 'x'.repeat(100) } }));
+
+      const report = await client.writeRecordsChunked('bux123', big, { maxBytesPerChunk: 200 });
+
+      expect(report.chunkCount).toBe(4);
+      expect(mockAxiosInstance.post.mock.calls[0][1].data).toHaveLength(1);
+    });
+
+    it('should report a failing chunk without aborting the remaining chunks', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { metadata: { createdRecordIds: [1, 2] } } })
+        .mockRejectedValueOnce(new Error('Request too large'))
+        .mockResolvedValueOnce({ data: { metadata: { createdRecordIds: [5] } } });
+
+      const report = await client.createRecords(
+        'bux123',
+        rows(5).map(fields => ({ fields })),
+        { maxRecordsPerChunk: 2, concurrency: 1 }
+      );
+
+      expect(report.succeeded).toBe(3);
+      expect(report.failed).toBe(2);
+      expect(report.createdRecordIds).toEqual([1, 2, 5]);
+      expect(report.failedChunks).toEqual([
+        { chunk: 2, firstLine: 3, recordCount: 2, error: 'Request too large' }
+      ]);
+    });
+
+    it('should offset line errors to positions in the full input', async () => {
+      mockAxiosInstance.post
+        .mockResolvedValueOnce({ data: { metadata: { updatedRecordIds: [10, 11] } } })
+        .mockResolvedValueOnce({
+          data: { metadata: { updatedRecordIds: [12], lineErrors: { '2': ['Bad value'] } } }
+        });
+
+      const report = await client.updateRecords(
+        'bux123',
+        [10, 11, 12, 13].map(recordId => ({ recordId, updates: { 6: { value: 'x' } } })),
+        { maxRecordsPerChunk: 2, concurrency: 1 }
+      );
+
+      expect(mockAxiosInstance.post.mock.calls[0][1].data[0]).toEqual(
+        expect.objectContaining({ '3': { value: 10 } })
+      );
+      expect(report.lineErrors).toEqual({ '4': ['Bad value'] });
+      expect(report.updatedRecordIds).toEqual([10, 11, 12]);
+      expect(report.succeeded).toBe(3);
+      expect(report.failed).toBe(1);
+    });
+
+    it('should pass mergeFieldId through for chunked upserts', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { metadata: {} } });
+
+      await client.writeRecordsChunked('bux123', rows(1), { mergeFieldId: 6 });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/records',
+        expect.objectContaining({ to: 'bux123', mergeFieldId: 6, fieldsToReturn: [3] })
+      );
+    });
+
+    it('should put the key value on the merge field for upsertRecordsChunked', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { metadata: { createdRecordIds: [5], updatedRecordIds: [2] } } });
+
+      const report = await client.upsertRecordsChunked('bux123', 8, [
+        { keyValue: 'a@example.com', data: { 6: { value: 'A' } } },
+        { keyValue: 'b@example.com', data: { 6: { value: 'B' } } }
+      ]);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/records', expect.objectContaining({
+        mergeFieldId: 8,
+        data: [
+          { 8: { value: 'a@example.com' }, 6: { value: 'A' } },
+          { 8: { value: 'b@example.com' }, 6: { value: 'B' } }
+        ]
+      }));
+      expect(report.createdRecordIds).toEqual([5]);
+      expect(report.updatedRecordIds).toEqual([2]);
+    });
+  });
+
   describe('Error Handling and Edge Cases', () => {
     it('should handle API errors gracefully in testConnection', async () => {
       mockAxiosInstance.get.mockRejectedValue(
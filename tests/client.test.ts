@@ -1,4 +1,6 @@
 import { QuickBaseClient } from '../src/quickbase/client';
+import { DryRunRecorder } from '../src/quickbase/dryRun';
+import { UndoJournal } from '../src/quickbase/undoJournal';
 import { QuickBaseConfig, QuickBaseField, QuickBaseRecord } from '../src/types/quickbase';
 import axios from 'axios';
 
@@ -212,6 +214,75 @@ describe('QuickBaseClient', () => {
       });
     });
 
+    describe('schema cache', () => {
+      it('should serve repeat field lookups from cache', async () => {
+        const mockFields = [{ id: 6, label: 'Name', fieldType: 'text' }];
+        mockAxiosInstance.get.mockResolvedValue({ data: mockFields });
+
+        await client.getTableFields('bux123');
+        const result = await client.getTableFields('bux123');
+
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+        expect(result).toEqual(mockFields);
+      });
+
+      it('should refetch fields after a field in the table changes', async () => {
+        mockAxiosInstance.get.mockResolvedValue({ data: [{ id: 6, label: 'Name', fieldType: 'text' }] });
+        mockAxiosInstance.post.mockResolvedValue({});
+
+        await client.getTableFields('bux123');
+        await client.updateField('bux123', 6, { label: 'Full Name' });
+        await client.getTableFields('bux123');
+
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      });
+
+      it('should refetch the table list after a table is created or deleted', async () => {
+        mockAxiosInstance.get.mockResolvedValue({ data: [] });
+        mockAxiosInstance.post.mockResolvedValue({ data: { id: 'bnew' } });
+        mockAxiosInstance.delete.mockResolvedValue({});
+
+        await client.getAppTables();
+        await client.createTable({ name: 'Tasks' });
+        await client.getAppTables();
+        await client.deleteTable('bnew');
+        await client.getAppTables();
+
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+      });
+
+      it('should not cache failed lookups', async () => {
+        mockAxiosInstance.get
+          .mockRejectedValueOnce(new Error('boom'))
+          .mockResolvedValueOnce({ data: { id: 'bux123', name: 'Tasks' } });
+
+        await expect(client.getTableInfo('bux123')).rejects.toThrow('boom');
+        await expect(client.getTableInfo('bux123')).resolves.toEqual({ id: 'bux123', name: 'Tasks' });
+      });
+
+      it('should drop everything on invalidateSchema()', async () => {
+        mockAxiosInstance.get.mockResolvedValue({ data: [] });
+
+        await client.getAppTables();
+        await client.getTableFields('bux123');
+        client.invalidateSchema();
+        await client.getAppTables();
+        await client.getTableFields('bux123');
+
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(4);
+      });
+
+      it('should bypass the cache when the TTL is 0', async () => {
+        const uncached = new QuickBaseClient({ ...mockConfig, schemaCacheTtlMs: 0 });
+        mockAxiosInstance.get.mockResolvedValue({ data: [] });
+
+        await uncached.getTableFields('bux123');
+        await uncached.getTableFields('bux123');
+
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      });
+    });
+
     describe('createField', () => {
       it('should create a basic text field', async () => {
         mockAxiosInstance.post.mockResolvedValue({ data: { id: 42 } });
@@ -351,6 +422,189 @@ describe('QuickBaseClient', () => {
       });
     });
 
+    describe('getRecordsPage', () => {
+      it('should return rows, fields and metadata', async () => {
+        mockAxiosInstance.post.mockResolvedValue({
+          data: {
+            data: [{ 3: { value: 1 } }],
+            fields: [{ id: 3, label: 'Record ID#', type: 'recordid' }],
+            metadata: { totalRecords: 5, numRecords: 1, skip: 0, top: 1 }
+          }
+        });
+
+        const page = await client.getRecordsPage('bux123', { top: 1 });
+
+        expect(page.data).toHaveLength(1);
+        expect(page.fields[0].label).toBe('Record ID#');
+        expect(page.metadata.totalRecords).toBe(5);
+      });
+
+      it('should default missing fields and metadata', async () => {
+        mockAxiosInstance.post.mockResolvedValue({ data: {} });
+
+        const page = await client.getRecordsPage('bux123');
+
+        expect(page).toEqual({ data: [], fields: [], metadata: {} });
+      });
+    });
+
+    describe('countRecords', () => {
+      it('should read totalRecords from a one-row query', async () => {
+        mockAxiosInstance.post.mockResolvedValue({
+          data: { data: [{ 3: { value: 1 } }], metadata: { totalRecords: 812 } }
+        });
+
+        expect(await client.countRecords('bux123', "{7.EX.'Closed'}")).toBe(812);
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith('/records/query', {
+          from: 'bux123', select: [3], where: "{7.EX.'Closed'}", top: 1
+        });
+      });
+    });
+
+    describe('getRecordIds', () => {
+      it('should page through every matching record', async () => {
+        mockAxiosInstance.post
+          .mockResolvedValueOnce({ data: { data: [{ 3: { value: 4 } }, { 3: { value: 9 } }], metadata: { totalRecords: 3 } } })
+          .mockResolvedValueOnce({ data: { data: [{ 3: { value: 12 } }], metadata: { totalRecords: 3 } } });
+
+        expect(await client.getRecordIds('bux123', "{7.EX.'Closed'}")).toEqual([4, 9, 12]);
+        expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(2, '/records/query', {
+          from: 'bux123', select: [3], where: "{7.EX.'Closed'}", skip: 2, top: 1000
+        });
+      });
+    });
+
+    describe('getRecordsPaginated', () => {
+      const pageOf = (ids: number[], totalRecords?: number) => ({
+        data: {
+          data: ids.map(id => ({ 3: { value: id } })),
+          fields: [{ id: 3, label: 'Record ID#', type: 'recordid' }],
+          metadata: totalRecords === undefined ? {} : { totalRecords, numRecords: ids.length }
+        }
+      });
+
+      it('should follow skip until all records are collected', async () => {
+        mockAxiosInstance.post
+          .mockResolvedValueOnce(pageOf([1, 2], 5))
+          .mockResolvedValueOnce(pageOf([3, 4], 5))
+          .mockResolvedValueOnce(pageOf([5], 5));
+
+        const result = await client.getRecordsPaginated('bux123', { where: '{6.EX.1}' }, 100);
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+        expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(
+          2,
+          '/records/query',
+          expect.objectContaining({ where: '{6.EX.1}', skip: 2, top: 98 })
+        );
+        expect(result.data).toHaveLength(5);
+        expect(result.totalRecords).toBe(5);
+        expect(result.hasMore).toBe(false);
+        expect(result.nextSkip).toBe(5);
+      });
+
+      it('should stop at maxRecords and report hasMore', async () => {
+        mockAxiosInstance.post
+          .mockResolvedValueOnce(pageOf([1, 2], 10))
+          .mockResolvedValueOnce(pageOf([3], 10));
+
+        const result = await client.getRecordsPaginated('bux123', { top: 2 }, 3);
+
+        expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(
+          2,
+          '/records/query',
+          expect.objectContaining({ skip: 2, top: 1 })
+        );
+        expect(result.data).toHaveLength(3);
+        expect(result.hasMore).toBe(true);
+        expect(result.nextSkip).toBe(3);
+      });
+
+      it('should return a single page when only top is given', async () => {
+        mockAxiosInstance.post.mockResolvedValueOnce(pageOf([1, 2, 3], 100));
+
+        const result = await client.getRecordsPaginated('bux123', { top: 3 });
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith('/records/query', { from: 'bux123', top: 3 });
+        expect(result.data).toHaveLength(3);
+        expect(result.hasMore).toBe(true);
+        expect(result.nextSkip).toBe(3);
+      });
+
+      it('should start from the supplied skip offset', async () => {
+        mockAxiosInstance.post.mockResolvedValueOnce(pageOf([11, 12], 12));
+
+        const result = await client.getRecordsPaginated('bux123', { skip: 10 }, 50);
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+          '/records/query',
+          expect.objectContaining({ skip: 10 })
+        );
+        expect(result.hasMore).toBe(false);
+        expect(result.nextSkip).toBe(12);
+      });
+
+      it('should stop on an empty page when totalRecords is missing', async () => {
+        mockAxiosInstance.post
+          .mockResolvedValueOnce(pageOf([1, 2]))
+          .mockResolvedValueOnce(pageOf([]));
+
+        const result = await client.getRecordsPaginated('bux123', {}, 100);
+
+        expect(result.data).toHaveLength(2);
+        expect(result.totalRecords).toBeUndefined();
+        expect(result.hasMore).toBe(false);
+      });
+    });
+
+    describe('aggregateRecords', () => {
+      it('should page through every matching row and report a row-count check', async () => {
+        mockAxiosInstance.post
+          .mockResolvedValueOnce({
+            data: {
+              data: [{ 7: { value: 'Open' }, 8: { value: 10 } }, { 7: { value: 'Closed' }, 8: { value: 5 } }],
+              metadata: { totalRecords: 3 }
+            }
+          })
+          .mockResolvedValueOnce({
+            data: { data: [{ 7: { value: 'Open' }, 8: { value: 20 } }], metadata: { totalRecords: 3 } }
+          });
+
+        const report = await client.aggregateRecords(
+          'bux123',
+          [{ fieldId: 7, name: 'Status' }],
+          [{ fn: 'sum', fieldId: 8, name: 'total' }],
+          { where: "{8.GT.'0'}" }
+        );
+
+        expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(2, '/records/query', expect.objectContaining({
+          select: [7, 8],
+          where: "{8.GT.'0'}",
+          skip: 2
+        }));
+        expect(report).toEqual({
+          rows: [{ Status: 'Closed', total: 5 }, { Status: 'Open', total: 30 }],
+          groupCount: 2,
+          rowsScanned: 3,
+          totalRecords: 3,
+          complete: true
+        });
+      });
+
+      it('should mark the report incomplete when maxRows is reached', async () => {
+        mockAxiosInstance.post.mockResolvedValue({
+          data: { data: [{ 3: { value: 1 } }, { 3: { value: 2 } }], metadata: { totalRecords: 50 } }
+        });
+
+        const report = await client.aggregateRecords('bux123', [], [{ fn: 'count', name: 'count' }], { maxRows: 2 });
+
+        expect(report.rows).toEqual([{ count: 2 }]);
+        expect(report.complete).toBe(false);
+        expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+      });
+    });
+
     describe('getRecord', () => {
       it('should fetch a single record by ID', async () => {
         const mockRecord = { 3: { value: 42 }, 4: { value: 'John' } };
@@ -448,7 +702,7 @@ describe('QuickBaseClient', () => {
 
         const result = await client.createRecords('bux123', records);
 
-        expect(result).toEqual([42, 43]);
+        expect(result.createdRecordIds).toEqual([42, 43]);
       });
 
       it('should create multiple records when IDs are returned in metadata', async () => {
@@ -462,7 +716,7 @@ describe('QuickBaseClient', () => {
         ];
 
         const result = await client.createRecords('bux123', records);
-        expect(result).toEqual([42, 43]);
+        expect(result.createdRecordIds).toEqual([42, 43]);
       });
 
       it('should return an empty array when no Record IDs are returned', async () => {
@@ -476,7 +730,7 @@ describe('QuickBaseClient', () => {
         ];
 
         const result = await client.createRecords('bux123', records);
-        expect(result).toEqual([]);
+        expect(result.createdRecordIds).toEqual([]);
       });
     });
 
@@ -499,6 +753,59 @@ describe('QuickBaseClient', () => {
       });
     });
 
+    describe('undo journal', () => {
+      it('snapshots the updated fields before an update and returns an operation ID', async () => {
+        const journal = new UndoJournal();
+        client.setUndoJournal(journal);
+        mockAxiosInstance.post
+          .mockResolvedValueOnce({ data: { data: [{ 2: { value: '2026-10-19T09:00:00Z' }, 6: { value: 'Jane' } }] } })
+          .mockResolvedValueOnce({ data: { data: [{ 2: { value: '2026-10-19T10:00:00Z' }, 3: { value: 42 } }] } });
+
+        const operationId = await client.updateRecord('bux123', 42, { 6: { value: 'Janet' }, 7: { value: 3 } });
+
+        expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(1, '/records/query', expect.objectContaining({
+          from: 'bux123', select: [2, 6, 7], where: '{3.EX.42}'
+        }));
+        expect(mockAxiosInstance.post).toHaveBeenNthCalledWith(2, '/records', expect.objectContaining({ fieldsToReturn: [2] }));
+        expect(await journal.get(operationId!)).toMatchObject({
+          appId: 'bux123',
+          tableId: 'bux123',
+          action: 'update',
+          records: [{
+            recordId: 42,
+            fields: { 6: { value: 'Jane' }, 7: { value: null } },
+            modifiedAfter: '2026-10-19T10:00:00Z',
+            written: { 6: { value: 'Janet' }, 7: { value: 3 } }
+          }]
+        });
+      });
+
+      it('snapshots every field before a delete', async () => {
+        const journal = new UndoJournal();
+        client.setUndoJournal(journal);
+        mockAxiosInstance.get.mockResolvedValue({ data: [{ id: 3 }, { id: 6 }] });
+        mockAxiosInstance.post.mockResolvedValue({ data: { data: [{ 3: { value: 42 }, 6: { value: 'Jane' } }] } });
+        mockAxiosInstance.delete.mockResolvedValue({});
+
+        const operationId = await client.deleteRecord('bux123', 42);
+
+        expect(mockAxiosInstance.post).toHaveBeenCalledWith('/records/query', expect.objectContaining({ select: [3, 6] }));
+        expect((await journal.get(operationId!))?.records).toEqual([
+          { recordId: 42, fields: { 3: { value: 42 }, 6: { value: 'Jane' } } }
+        ]);
+      });
+
+      it('journals nothing when the record does not exist', async () => {
+        const journal = new UndoJournal();
+        client.setUndoJournal(journal);
+        mockAxiosInstance.get.mockResolvedValue({ data: [{ id: 3 }] });
+        mockAxiosInstance.post.mockResolvedValue({ data: { data: [] } });
+        mockAxiosInstance.delete.mockResolvedValue({});
+
+        await expect(client.deleteRecord('bux123', 42)).resolves.toBeUndefined();
+      });
+    });
+
     describe('updateRecords', () => {
       it('should update multiple records', async () => {
         mockAxiosInstance.post.mockResolvedValue({});
@@ -515,10 +822,38 @@ describe('QuickBaseClient', () => {
             data: expect.arrayContaining([
               expect.objectContaining({ '3': { value: 42 } }),
               expect.objectContaining({ '3': { value: 43 } })
-            ])
+            ]),
+            fieldsToReturn: [3]
           })
         );
       });
+
+      it('should report outcomes including line errors', async () => {
+        mockAxiosInstance.post.mockResolvedValue({
+          data: {
+            data: [{ 3: { value: 42 } }, { 3: { value: 44 } }],
+            metadata: {
+              createdRecordIds: [],
+              updatedRecordIds: [42],
+              unchangedRecordIds: [44],
+              lineErrors: { '2': ['Incompatible value for field with ID "6".'] },
+              totalNumberOfRecordsProcessed: 3
+            }
+          }
+        });
+
+        const result = await client.updateRecords('bux123', [
+          { recordId: 42, updates: { 6: { value: 'a' } } },
+          { recordId: 43, updates: { 6: { value: 'b' } } },
+          { recordId: 44, updates: { 6: { value: 'c' } } }
+        ]);
+
+        expect(result.updatedRecordIds).toEqual([42]);
+        expect(result.unchangedRecordIds).toEqual([44]);
+        expect(result.lineErrors).toEqual({ '2': ['Incompatible value for field with ID "6".'] });
+        expect(result.succeeded).toBe(2);
+        expect(result.failed).toBe(1);
+      });
     });
 
     describe('deleteRecord', () => {
@@ -555,6 +890,25 @@ describe('QuickBaseClient', () => {
           })
         );
       });
+
+      it('should return the number of deleted records', async () => {
+        mockAxiosInstance.delete.mockResolvedValue({ data: { numberDeleted: 3 } });
+
+        await expect(client.deleteRecords('bux123', [42, 43, 44])).resolves.toBe(3);
+      });
+    });
+
+    describe('deleteRecordsWhere', () => {
+      it('should delete records matching a where clause', async () => {
+        mockAxiosInstance.delete.mockResolvedValue({ data: { numberDeleted: 7 } });
+
+        const result = await client.deleteRecordsWhere('bux123', "{7.EX.'Void'}");
+
+        expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/records', {
+          data: { from: 'bux123', where: "{7.EX.'Void'}" }
+        });
+        expect(result).toBe(7);
+      });
     });
   });
 
@@ -830,6 +1184,158 @@ describe('QuickBaseClient', () => {
     });
   });
 
+  describe('Dry run', () => {
+    it('reads the matching records instead of deleting them', async () => {
+      const recorder = new DryRunRecorder();
+      client.setDryRunRecorder(recorder);
+      mockAxiosInstance.post.mockResolvedValue({ data: { data: [{ 3: { value: 1 } }, { 3: { value: 2 } }], metadata: { totalRecords: 2 } } });
+
+      expect(await client.deleteRecords('bux123', [1, 2, 3])).toBe(2);
+      expect(mockAxiosInstance.delete).not.toHaveBeenCalled();
+      expect(recorder.requests).toEqual([
+        { method: 'DELETE', url: '/records', body: { from: 'bux123', where: '{3.EX.1}OR{3.EX.2}OR{3.EX.3}' } }
+      ]);
+      expect(recorder.affectedRecords[0]).toMatchObject({ operation: 'delete', count: 2, sample: [1, 2] });
+    });
+
+    it('records legacy XML calls with the user token masked', async () => {
+      const recorder = new DryRunRecorder();
+      client.setDryRunRecorder(recorder);
+
+      await client.deleteNotification('bux123', 'notif789');
+
+      expect(jest.mocked(axios.post)).not.toHaveBeenCalled();
+      expect(recorder.requests).toHaveLength(1);
+      expect(recorder.requests[0].url).toBe('https://example.quickbase.com/db/bux123?a=API_DeleteNotification');
+      expect(recorder.requests[0].body).toContain('<usertoken>[REDACTED]</usertoken>');
+      expect(recorder.requests[0].body).not.toContain('token123');
+    });
+  });
+
+  describe('Credential providers', () => {
+    const unauthorized = (body: string) => Object.assign(new Error('Request failed with status code 401'), {
+      response: { status: 401 },
+      config: { headers: {}, data: body }
+    });
+
+    afterEach(() => {
+      jest.mocked(axios.isAxiosError).mockReset();
+    });
+
+    it('sends the provider token in legacy XML calls and retries a 401 once with a refreshed token', async () => {
+      const credentials = {
+        description: 'test',
+        getToken: jest.fn().mockResolvedValue('old-token'),
+        refresh: jest.fn().mockResolvedValue('new-token')
+      };
+      const { userToken, ...rest } = mockConfig;
+      client = new QuickBaseClient({ ...rest, credentials });
+      jest.mocked(axios.isAxiosError).mockReturnValue(true);
+      jest.mocked(axios.post)
+        .mockImplementationOnce(async (_url, body) => { throw unauthorized(body as string); })
+        .mockResolvedValueOnce({ data: '<errcode>0</errcode>' } as any);
+
+      await client.deleteNotification('bux123', 'notif789');
+
+      const bodies = jest.mocked(axios.post).mock.calls.map(call => call[1] as string);
+      expect(bodies[0]).toContain('<usertoken>old-token</usertoken>');
+      expect(bodies[1]).toContain('<usertoken>new-token</usertoken>');
+      expect(credentials.refresh).toHaveBeenCalledWith('old-token');
+      // No fixed Authorization header; the request interceptor adds the provider's token.
+      expect(mockedAxios.create.mock.calls.at(-1)![0]!.headers).not.toHaveProperty('Authorization');
+    });
+
+    it('sends the app token as a header and in legacy XML bodies', async () => {
+      client = new QuickBaseClient({ ...mockConfig, appToken: 'app-token' });
+      jest.mocked(axios.post).mockResolvedValueOnce({ data: '<errcode>0</errcode>' } as any);
+
+      await client.deleteNotification('bux123', 'notif789');
+
+      expect(mockedAxios.create.mock.calls.at(-1)![0]!.headers).toMatchObject({ 'QB-App-Token': 'app-token' });
+      expect(jest.mocked(axios.post).mock.calls[0][1]).toContain('<usertoken>token123</usertoken>\n  <apptoken>app-token</apptoken>');
+    });
+
+    it('authorizes each REST request with a temporary token for the table it touches', async () => {
+      client = new QuickBaseClient({ ...mockConfig, tempTokens: true });
+      const authorize = mockAxiosInstance.interceptors.request.use.mock.calls.at(-1)[0];
+      mockAxiosInstance.get.mockImplementation(async (url: string) => ({ data: { temporaryAuthorization: `temp-${url.split('/').pop()}` } }));
+      const authorization = async (request: any) => (await authorize({ headers: {}, ...request })).headers.Authorization;
+
+      expect(await authorization({ url: '/records/query', data: { from: 'btbl1' } })).toBe('QB-TEMP-TOKEN temp-btbl1');
+      expect(await authorization({ url: '/fields', params: { tableId: 'btbl2' } })).toBe('QB-TEMP-TOKEN temp-btbl2');
+      expect(await authorization({ url: '/tables/btbl3/relationship' })).toBe('QB-TEMP-TOKEN temp-btbl3');
+      expect(await authorization({ url: '/apps/bux123/events' })).toBe('QB-TEMP-TOKEN temp-bux123');
+      // Temporary tokens are fetched with the user token, and reused.
+      expect(await authorization({ url: '/auth/temporary/btbl1' })).toBe('QB-USER-TOKEN token123');
+      expect(await authorization({ url: '/records', data: { to: 'btbl1' } })).toBe('QB-TEMP-TOKEN temp-btbl1');
+      expect(mockAxiosInstance.get.mock.calls.map((call: any[]) => call[0]))
+        .toEqual(['/auth/temporary/btbl1', '/auth/temporary/btbl2', '/auth/temporary/btbl3', '/auth/temporary/bux123']);
+    });
+
+    it('keeps the table\'s temporary token when a records call is retried after its body was serialised', async () => {
+      let issued = 0;
+      const instance: any = jest.fn(async (request: any) => ({ config: await authorize(request) }));
+      Object.assign(instance, mockAxiosInstance, {
+        get: jest.fn(async (url: string) => ({ data: { temporaryAuthorization: `${url.split('/').pop()}-${++issued}` } }))
+      });
+      mockedAxios.create.mockReturnValue(instance);
+      client = new QuickBaseClient({ ...mockConfig, tempTokens: true, maxRetries: 1 });
+      const authorize = instance.interceptors.request.use.mock.calls.at(-1)[0];
+      const onError = instance.interceptors.response.use.mock.calls.at(-1)[1];
+      jest.mocked(axios.isAxiosError).mockReturnValue(true);
+      // Axios turns the body into JSON before sending, so a retry sees a string.
+      const sent = async (request: any) => {
+        const config = await authorize({ headers: {}, ...request });
+        return { ...config, data: JSON.stringify(config.data) };
+      };
+
+      const config = await sent({ url: '/records/query', data: { from: 'btbl1' } });
+      expect(config.headers.Authorization).toBe('QB-TEMP-TOKEN btbl1-1');
+
+      const retried = await onError({ config, response: { status: 429 } });
+      expect(retried.config.headers.Authorization).toBe('QB-TEMP-TOKEN btbl1-1');
+
+      // A rejected token is dropped for the same table and fetched again.
+      const rejected = await sent({ url: '/records', data: { to: 'btbl1' } });
+      const refreshed = await onError({ config: rejected, response: { status: 401 } });
+      expect(refreshed.config.headers.Authorization).toBe('QB-TEMP-TOKEN btbl1-2');
+      expect(instance.get.mock.calls.map((call: any[]) => call[0])).toEqual(['/auth/temporary/btbl1', '/auth/temporary/btbl1']);
+    });
+
+    it('throws the 401 with the token scrubbed when the provider has no other token', async () => {
+      jest.mocked(axios.isAxiosError).mockReturnValue(true);
+      jest.mocked(axios.post).mockImplementationOnce(async (_url, body) => { throw unauthorized(body as string); });
+
+      const error = await client.deleteNotification('bux123', 'notif789').catch(e => e);
+
+      expect(jest.mocked(axios.post)).toHaveBeenCalledTimes(1);
+      expect(error.config.data).toContain('<usertoken>[REDACTED]</usertoken>');
+      expect(error.config.data).not.toContain('token123');
+    });
+  });
+
+  describe('Field write guard', () => {
+    it('passes the written field IDs, but not the record ID, to the guard before writing', async () => {
+      const guard = jest.fn().mockResolvedValue(undefined);
+      client.setFieldWriteGuard(guard);
+      mockAxiosInstance.post.mockResolvedValue({ data: { metadata: {} } });
+
+      await client.updateRecords('bux123', [{ recordId: 1, updates: { 6: { value: 'a' } } }, { recordId: 2, updates: { 7: { value: 'b' } } }]);
+      await client.upsertRecords('bux123', 8, [{ keyValue: 'k', data: { 6: { value: 'c' } } }]);
+
+      expect(guard).toHaveBeenNthCalledWith(1, 'bux123', [6, 7]);
+      expect(guard).toHaveBeenNthCalledWith(2, 'bux123', [6, 8]);
+    });
+
+    it('sends nothing when the guard refuses', async () => {
+      client.setFieldWriteGuard(jest.fn().mockRejectedValue(new Error('Field 6 is read-only')));
+
+      await expect(client.createRecord('bux123', { fields: { 6: { value: 'a' } } })).rejects.toThrow('read-only');
+      await expect(client.createRecords('bux123', [{ fields: { 6: { value: 'a' } } }])).rejects.toThrow('read-only');
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+  });
+
   describe('validateWebhookUrl (SSRF validation)', () => {
     describe('Valid URLs', () => {
       it('should accept valid https webhook URLs', () => {
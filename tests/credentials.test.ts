@@ -0,0 +1,136 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import axios from 'axios';
+import {
+  CommandCredentialProvider,
+  createCredentialProvider,
+  EnvCredentialProvider,
+  ExchangeCredentialProvider,
+  FileCredentialProvider,
+  TemporaryTokenCache
+} from '../src/quickbase/credentials';
+
+const node = (script: string) => `"${process.execPath}" -e "${script}"`;
+
+describe('credential providers', () => {
+  const originalEnv = { ...process.env };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qb-credentials-'));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('caches an environment token and reads the variable again on refresh', async () => {
+    process.env.QB_TEST_TOKEN = 'first';
+    const provider = new EnvCredentialProvider('QB_TEST_TOKEN');
+    expect(await provider.getToken()).toBe('first');
+
+    process.env.QB_TEST_TOKEN = 'second';
+    expect(await provider.getToken()).toBe('first');
+    expect(await provider.refresh('first')).toBe('second');
+
+    delete process.env.QB_TEST_TOKEN;
+    await expect(provider.refresh()).rejects.toThrow('QB_TEST_TOKEN is not set.');
+  });
+
+  it('reads a token file, trimmed, and names the file when it cannot', async () => {
+    const file = path.join(dir, 'qb_token');
+    fs.writeFileSync(file, 'file-token\n');
+    expect(await new FileCredentialProvider(file).getToken()).toBe('file-token');
+
+    const missing = path.join(dir, 'missing');
+    await expect(new FileCredentialProvider(missing).getToken()).rejects.toThrow(`Cannot read user token file ${missing}`);
+
+    fs.writeFileSync(file, '  \n');
+    await expect(new FileCredentialProvider(file).getToken()).rejects.toThrow(`The file ${file} gave an empty user token.`);
+  });
+
+  it('uses the output of a token command without echoing it in errors', async () => {
+    const provider = new CommandCredentialProvider(node("process.stdout.write('cmd-token')"), 'QB_USER_TOKEN_COMMAND');
+    expect(await provider.getToken()).toBe('cmd-token');
+    expect(provider.description).toBe('command from QB_USER_TOKEN_COMMAND');
+
+    const failing = new CommandCredentialProvider(node("console.log('leaked'); process.exit(3)"), 'QB_USER_TOKEN_COMMAND');
+    await expect(failing.getToken()).rejects.toThrow(
+      new Error('The user token command from QB_USER_TOKEN_COMMAND failed with exit code 3.')
+    );
+  });
+
+  it('exchanges for an expiring token and fetches a new one when it is about to expire', async () => {
+    const post = jest.spyOn(axios, 'post')
+      .mockResolvedValueOnce({ data: { token: 'short-lived', expiresIn: 30 } })
+      .mockResolvedValueOnce({ data: { token: 'next', expiresIn: 3600 } });
+    const provider = new ExchangeCredentialProvider('https://broker.example.com/qb?key=secret', 'prod.quickbase.com', 'Bearer abc');
+
+    expect(await provider.getToken()).toBe('short-lived');
+    // 30 seconds is inside the expiry margin, so the next call exchanges again.
+    expect(await provider.getToken()).toBe('next');
+    expect(await provider.getToken()).toBe('next');
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post).toHaveBeenCalledWith(
+      'https://broker.example.com/qb?key=secret',
+      { realm: 'prod.quickbase.com' },
+      expect.objectContaining({ headers: { Authorization: 'Bearer abc' } })
+    );
+    expect(provider.description).toBe('token exchange https://broker.example.com/qb');
+
+    post.mockResolvedValueOnce({ data: { error: 'nope' } });
+    await expect(provider.refresh()).rejects.toThrow('answered without a "token" string');
+  });
+
+  it('fetches once for concurrent refreshes of the same rejected token', async () => {
+    process.env.QB_TEST_TOKEN = 'old';
+    const provider = new EnvCredentialProvider('QB_TEST_TOKEN');
+    await provider.getToken();
+    process.env.QB_TEST_TOKEN = 'new';
+
+    expect(await Promise.all([provider.refresh('old'), provider.refresh('old')])).toEqual(['new', 'new']);
+    // A later 401 for the old token gets the replacement without another fetch.
+    process.env.QB_TEST_TOKEN = 'newer';
+    expect(await provider.refresh('old')).toBe('new');
+  });
+
+  it('builds the provider for each token source', () => {
+    expect(createCredentialProvider({ kind: 'env', value: 'QB_USER_TOKEN', setting: 'QB_USER_TOKEN' }, 'r').description)
+      .toBe('environment variable QB_USER_TOKEN');
+    expect(createCredentialProvider({ kind: 'file', value: '/run/secrets/qb', setting: 'QB_USER_TOKEN_FILE' }, 'r'))
+      .toBeInstanceOf(FileCredentialProvider);
+    expect(createCredentialProvider({ kind: 'command', value: 'x', setting: 'QB_APP_b_TOKEN_COMMAND' }, 'r').description)
+      .toBe('command from QB_APP_b_TOKEN_COMMAND');
+    expect(createCredentialProvider({ kind: 'exchange', value: 'https://b.example.com', setting: 'QB_USER_TOKEN_EXCHANGE_URL' }, 'r'))
+      .toBeInstanceOf(ExchangeCredentialProvider);
+  });
+});
+
+describe('TemporaryTokenCache', () => {
+  it('fetches one token per dbid and shares concurrent fetches', async () => {
+    const fetchToken = jest.fn(async (dbid: string) => `temp-${dbid}`);
+    const cache = new TemporaryTokenCache(fetchToken);
+
+    expect(await Promise.all([cache.get('btbl1'), cache.get('btbl1'), cache.get('btbl2')]))
+      .toEqual(['temp-btbl1', 'temp-btbl1', 'temp-btbl2']);
+    expect(await cache.get('btbl1')).toBe('temp-btbl1');
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches again once a token nears expiry or was rejected', async () => {
+    let n = 0;
+    const fetchToken = jest.fn(async () => `temp-${++n}`);
+    // A lifetime inside the expiry margin makes every cached token stale.
+    expect(await new TemporaryTokenCache(fetchToken, 1000).get('btbl')).toBe('temp-1');
+
+    const cache = new TemporaryTokenCache(fetchToken);
+    expect(await cache.get('btbl')).toBe('temp-2');
+    cache.invalidate('btbl', 'temp-1'); // already replaced; kept
+    expect(await cache.get('btbl')).toBe('temp-2');
+    cache.invalidate('btbl', 'temp-2');
+    expect(await cache.get('btbl')).toBe('temp-3');
+  });
+});
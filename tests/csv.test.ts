@@ -0,0 +1,35 @@
+import { parseCsv } from '../src/utils/csv';
+
+describe('parseCsv', () => {
+  it('parses a header and rows with their line numbers', () => {
+    expect(parseCsv('Name,Amount\nAda,10\r\nGrace,20\n')).toEqual([
+      { line: 1, cells: ['Name', 'Amount'] },
+      { line: 2, cells: ['Ada', '10'] },
+      { line: 3, cells: ['Grace', '20'] }
+    ]);
+  });
+
+  it('handles quoted delimiters, doubled quotes and embedded line breaks', () => {
+    const rows = parseCsv('Name,Notes\n"Smith, J","said ""hi""\nthen left"\nLee,ok');
+    expect(rows).toEqual([
+      { line: 1, cells: ['Name', 'Notes'] },
+      { line: 2, cells: ['Smith, J', 'said "hi"\nthen left'] },
+      { line: 4, cells: ['Lee', 'ok'] }
+    ]);
+  });
+
+  it('skips blank lines, strips a BOM and supports other delimiters', () => {
+    expect(parseCsv('\uFEFFa;b\n\n1;2', ';')).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 3, cells: ['1', '2'] }
+    ]);
+  });
+
+  it('keeps empty trailing cells', () => {
+    expect(parseCsv('a,b,c\n1,,')[1].cells).toEqual(['1', '', '']);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a\n"open')).toThrow(/Unterminated quoted field starting on line 2/);
+  });
+});
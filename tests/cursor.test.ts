@@ -0,0 +1,34 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { decodeCursor, encodeCursor, QueryCursor } from '../src/utils/cursor';
+
+describe('query cursor tokens', () => {
+  const cursor: QueryCursor = {
+    appId: 'bkhxfnzby',
+    tableId: 'bux123',
+    skip: 250,
+    options: { where: "{6.CT.'O\\'Brien'}", select: [3, 6], sortBy: [{ fieldId: 6, order: 'ASC' }] }
+  };
+
+  it('round-trips query state', () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('produces a URL-safe opaque token', () => {
+    expect(encodeCursor(cursor)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects tokens that are not valid JSON', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(McpError);
+    expect(() => decodeCursor('not-a-cursor')).toThrow(/could not be decoded/);
+  });
+
+  it('rejects tokens with a missing or invalid skip', () => {
+    const token = Buffer.from(JSON.stringify({ v: 1, appId: 'a', tableId: 't', skip: -1, options: {} })).toString('base64url');
+    expect(() => decodeCursor(token)).toThrow(/malformed/);
+  });
+
+  it('rejects tokens from an unknown version', () => {
+    const token = Buffer.from(JSON.stringify({ ...cursor, v: 99 })).toString('base64url');
+    expect(() => decodeCursor(token)).toThrow(/incompatible version/);
+  });
+});
@@ -0,0 +1,89 @@
+import { DryRunRecorder } from '../src/quickbase/dryRun';
+
+describe('DryRunRecorder', () => {
+  function fakeHttp() {
+    return Object.assign(jest.fn(), {
+      get: jest.fn(async (url: string) => ({ data: url === '/fields' ? [{ id: 6, label: 'Name' }] : [{ id: 'btbl', name: 'Tasks' }] })),
+      post: jest.fn().mockResolvedValue({
+        data: { data: [{ 3: { value: 4 } }, { 3: { value: 9 } }], metadata: { totalRecords: 37 } }
+      }),
+      put: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn()
+    });
+  }
+
+  it('sends reads and records writes with placeholder responses', async () => {
+    const http = fakeHttp();
+    const recorder = new DryRunRecorder();
+    const wrapped = recorder.wrap(http as any);
+
+    await wrapped.post('/records/query', { from: 'btbl' });
+    const created = await wrapped.post('/records', { to: 'btbl', data: [{ 6: { value: 'A' } }] });
+    await wrapped.post('/fields/6', { tableId: 'btbl', label: 'Title' });
+
+    expect(http.post).toHaveBeenCalledTimes(1);
+    expect(created.data.metadata.createdRecordIds).toEqual([]);
+    expect(recorder.requests).toEqual([
+      { method: 'POST', url: '/records', body: { to: 'btbl', data: [{ 6: { value: 'A' } }] } },
+      { method: 'POST', url: '/fields/6', body: { tableId: 'btbl', label: 'Title' } }
+    ]);
+    expect(recorder.affectedRecords).toEqual([{ tableId: 'btbl', operation: 'create', count: 1, sample: [] }]);
+  });
+
+  it('resolves a delete to the records its where clause matches now', async () => {
+    const http = fakeHttp();
+    const recorder = new DryRunRecorder();
+    const response = await recorder.wrap(http as any).delete('/records', { data: { from: 'btbl', where: "{7.EX.'Done'}" } });
+
+    expect(http.post).toHaveBeenCalledWith('/records/query', { from: 'btbl', where: "{7.EX.'Done'}", select: [3], top: 10 });
+    expect(http.delete).not.toHaveBeenCalled();
+    expect(response.data).toEqual({ numberDeleted: 37 });
+    expect(recorder.affectedRecords).toEqual([
+      { tableId: 'btbl', operation: 'delete', where: "{7.EX.'Done'}", count: 37, sample: [4, 9] }
+    ]);
+  });
+
+  it('adds up chunked updates and shortens large bodies', async () => {
+    const recorder = new DryRunRecorder();
+    const wrapped = recorder.wrap(fakeHttp() as any);
+    const rows = (from: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ 3: { value: from + i }, 6: { value: 'x' } }));
+
+    await wrapped.post('/records', { to: 'btbl', data: rows(1, 25), fieldsToReturn: [3] });
+    await wrapped.post('/records', { to: 'btbl', data: rows(26, 5), fieldsToReturn: [3] });
+
+    expect((recorder.requests[0].body as any).data).toHaveLength(20);
+    expect(recorder.requests[0].omittedRows).toBe(5);
+    expect(recorder.requests[1].omittedRows).toBeUndefined();
+    expect(recorder.affectedRecords).toEqual([
+      { tableId: 'btbl', operation: 'update', count: 30, sample: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] }
+    ]);
+  });
+
+  it('shows tables and fields created earlier in the run to later reads', async () => {
+    const http = fakeHttp();
+    const recorder = new DryRunRecorder();
+    const wrapped = recorder.wrap(http as any);
+
+    const table = await wrapped.post('/tables', { appId: 'bapp', name: 'Invoices' });
+    const field = await wrapped.post('/fields', { tableId: table.data.id, label: 'Amount', fieldType: 'currency' });
+    await wrapped.post('/fields', { tableId: 'btbl', label: 'Invoice', fieldType: 'numeric' });
+
+    expect(table.data.id).toBe('dryrun_table_1');
+    expect(field.data.id).toBe(-2);
+    expect((await wrapped.get('/tables', { params: { appId: 'bapp' } })).data).toEqual([
+      { id: 'btbl', name: 'Tasks' },
+      { id: 'dryrun_table_1', name: 'Invoices' }
+    ]);
+    expect((await wrapped.get('/fields', { params: { tableId: 'dryrun_table_1' } })).data).toEqual([
+      { id: -2, label: 'Amount', fieldType: 'currency' }
+    ]);
+    expect((await wrapped.get('/fields', { params: { tableId: 'btbl' } })).data).toEqual([
+      { id: 6, label: 'Name' },
+      { id: -3, label: 'Invoice', fieldType: 'numeric' }
+    ]);
+    // Only the two live reads reached the network.
+    expect(http.get).toHaveBeenCalledTimes(2);
+  });
+});
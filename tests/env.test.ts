@@ -2,7 +2,7 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { pathToFileURL } from 'node:url';
-import { envFlag, loadAppRegistry, loadDotenv } from '../src/utils/env';
+import { envFlag, loadAppCredentials, loadAppRegistry, loadAuditConfig, loadDefaultTokenSource, loadDotenv, loadMaxAffectedRows } from '../src/utils/env';
 
 describe('env helpers', () => {
   const originalCwd = process.cwd();
@@ -125,3 +125,154 @@ describe('loadAppRegistry', () => {
     expect(registry.has('abc')).toBe(false);
   });
 });
+
+describe('loadAuditConfig', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('is off when no log path is configured', () => {
+    delete process.env.QB_AUDIT_LOG;
+    expect(loadAuditConfig('abc')).toBeUndefined();
+    expect(loadAuditConfig()).toBeUndefined();
+  });
+
+  it('uses the global path and retention, resolved to an absolute path', () => {
+    process.env.QB_AUDIT_LOG = 'logs/audit.jsonl';
+    delete process.env.QB_AUDIT_RETENTION_DAYS;
+    expect(loadAuditConfig('abc')).toEqual({ path: path.resolve('logs/audit.jsonl'), retentionDays: 90 });
+    process.env.QB_AUDIT_RETENTION_DAYS = '30';
+    expect(loadAuditConfig()).toEqual({ path: path.resolve('logs/audit.jsonl'), retentionDays: 30 });
+  });
+
+  it('lets an app override the path and retention, or turn auditing off', () => {
+    process.env.QB_AUDIT_LOG = '/var/log/qb/audit.jsonl';
+    process.env.QB_APP_abc_AUDIT_LOG = '/var/log/qb/abc.jsonl';
+    process.env.QB_APP_abc_AUDIT_RETENTION_DAYS = '365';
+    process.env.QB_APP_off_AUDIT_LOG = '';
+    process.env.QB_APP_abc_NAME = 'Audited';
+
+    expect(loadAuditConfig('abc')).toEqual({ path: '/var/log/qb/abc.jsonl', retentionDays: 365 });
+    expect(loadAuditConfig('off')).toBeUndefined();
+    expect(loadAppRegistry().get('abc')!.audit).toEqual({ path: '/var/log/qb/abc.jsonl', retentionDays: 365 });
+  });
+});
+
+describe('loadMaxAffectedRows', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('is unlimited unless a positive integer is configured', () => {
+    delete process.env.QB_MAX_AFFECTED_ROWS;
+    expect(loadMaxAffectedRows('abc')).toBeUndefined();
+    process.env.QB_MAX_AFFECTED_ROWS = '-5';
+    expect(loadMaxAffectedRows('abc')).toBeUndefined();
+    process.env.QB_MAX_AFFECTED_ROWS = '2.5';
+    expect(loadMaxAffectedRows('abc')).toBeUndefined();
+  });
+
+  it('prefers the per-app limit, where an empty value lifts the global one', () => {
+    process.env.QB_MAX_AFFECTED_ROWS = '500';
+    process.env.QB_APP_abc_MAX_AFFECTED_ROWS = '50';
+    process.env.QB_APP_open_MAX_AFFECTED_ROWS = '';
+    process.env.QB_APP_abc_NAME = 'Limited';
+
+    expect(loadMaxAffectedRows('abc')).toBe(50);
+    expect(loadMaxAffectedRows('other')).toBe(500);
+    expect(loadMaxAffectedRows('open')).toBeUndefined();
+    expect(loadAppRegistry().get('abc')!.maxAffectedRows).toBe(50);
+  });
+});
+
+describe('loadAppCredentials', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('uses QB_REALM and QB_USER_TOKEN unless the app overrides them', () => {
+    process.env.QB_REALM = 'prod.quickbase.com';
+    process.env.QB_USER_TOKEN = 'prod-token';
+    process.env.QB_SANDBOX_TOKEN = 'sandbox-token';
+    process.env.QB_APP_prod_NAME = 'Production';
+    process.env.QB_APP_sbx_NAME = 'Sandbox';
+    process.env.QB_APP_sbx_REALM = ' sandbox.quickbase.com ';
+    process.env.QB_APP_sbx_TOKEN_ENV = 'QB_SANDBOX_TOKEN';
+
+    const registry = loadAppRegistry();
+    const sandboxToken = { kind: 'env', value: 'QB_SANDBOX_TOKEN', setting: 'QB_APP_sbx_TOKEN_ENV' };
+    expect(registry.get('sbx')).toMatchObject({ realm: 'sandbox.quickbase.com', tokenSource: sandboxToken });
+    expect(registry.get('prod')!.realm).toBeUndefined();
+    expect(loadAppCredentials(registry.get('prod')!)).toEqual({
+      realm: 'prod.quickbase.com',
+      tokenSource: { kind: 'env', value: 'QB_USER_TOKEN', setting: 'QB_USER_TOKEN' }
+    });
+    expect(loadAppCredentials(registry.get('sbx')!)).toEqual({ realm: 'sandbox.quickbase.com', tokenSource: sandboxToken });
+  });
+
+  it('reads tokens from files, commands and exchanges', () => {
+    process.env.QB_REALM = 'prod.quickbase.com';
+    delete process.env.QB_USER_TOKEN;
+    process.env.QB_USER_TOKEN_FILE = '/run/secrets/qb_token';
+    process.env.QB_APP_prod_NAME = 'Production';
+    process.env.QB_APP_sbx_NAME = 'Sandbox';
+    process.env.QB_APP_sbx_TOKEN_COMMAND = 'op read op://dev/qb/token';
+
+    const registry = loadAppRegistry();
+    expect(loadAppCredentials(registry.get('prod')!).tokenSource)
+      .toEqual({ kind: 'file', value: '/run/secrets/qb_token', setting: 'QB_USER_TOKEN_FILE' });
+    expect(loadAppCredentials(registry.get('sbx')!).tokenSource)
+      .toEqual({ kind: 'command', value: 'op read op://dev/qb/token', setting: 'QB_APP_sbx_TOKEN_COMMAND' });
+
+    delete process.env.QB_USER_TOKEN_FILE;
+    process.env.QB_USER_TOKEN_EXCHANGE_URL = 'https://broker.example.com/qb-token';
+    expect(loadDefaultTokenSource()).toEqual({
+      kind: 'exchange', value: 'https://broker.example.com/qb-token', setting: 'QB_USER_TOKEN_EXCHANGE_URL'
+    });
+  });
+
+  it('reads the app token and temp-token mode per app', () => {
+    process.env.QB_REALM = 'prod.quickbase.com';
+    process.env.QB_USER_TOKEN = 'prod-token';
+    process.env.QB_APP_prod_NAME = 'Production';
+    process.env.QB_APP_prod_APP_TOKEN = ' app-token ';
+    process.env.QB_APP_prod_TEMP_TOKENS = 'true';
+    process.env.QB_APP_sbx_NAME = 'Sandbox';
+
+    const registry = loadAppRegistry();
+    expect(registry.get('prod')!.tempTokens).toBe(true);
+    expect(registry.get('sbx')!.tempTokens).toBe(false);
+    expect(registry.get('prod')).not.toHaveProperty('appToken');
+    expect(loadAppCredentials(registry.get('prod')!).appToken).toBe('app-token');
+    expect(loadAppCredentials(registry.get('sbx')!)).not.toHaveProperty('appToken');
+  });
+
+  it('refuses more than one token source', () => {
+    process.env.QB_USER_TOKEN = 'prod-token';
+    process.env.QB_USER_TOKEN_COMMAND = 'op read op://dev/qb/token';
+    expect(() => loadDefaultTokenSource()).toThrow('Set only one of QB_USER_TOKEN, QB_USER_TOKEN_COMMAND.');
+
+    process.env.QB_APP_sbx_NAME = 'Sandbox';
+    process.env.QB_APP_sbx_TOKEN_ENV = 'QB_SANDBOX_TOKEN';
+    process.env.QB_APP_sbx_TOKEN_FILE = '/run/secrets/sandbox';
+    expect(() => loadAppRegistry()).toThrow('Set only one of QB_APP_sbx_TOKEN_ENV, QB_APP_sbx_TOKEN_FILE.');
+  });
+
+  it('names the missing setting', () => {
+    delete process.env.QB_REALM;
+    delete process.env.QB_USER_TOKEN;
+    delete process.env.QB_SANDBOX_TOKEN;
+    const app = { id: 'sbx', name: 'Sandbox', readOnly: true, allowDestructive: false };
+
+    expect(() => loadAppCredentials(app)).toThrow('Set QB_REALM, or QB_APP_sbx_REALM');
+    expect(() => loadAppCredentials({ ...app, realm: 'sandbox.quickbase.com' })).toThrow('Set QB_USER_TOKEN, or QB_APP_sbx_TOKEN_ENV');
+    expect(() => loadAppCredentials({ ...app, realm: 'sandbox.quickbase.com', tokenSource: { kind: 'env', value: 'QB_SANDBOX_TOKEN', setting: 'QB_APP_sbx_TOKEN_ENV' } }))
+      .toThrow('QB_APP_sbx_TOKEN_ENV names QB_SANDBOX_TOKEN, but QB_SANDBOX_TOKEN is not set.');
+  });
+});
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { formatErrorForLog } from '../src/utils/errors';
+import { formatErrorForLog, scrubCredentials } from '../src/utils/errors';
 
 describe('formatErrorForLog', () => {
   describe('Axios errors', () => {
@@ -244,3 +244,34 @@ describe('formatErrorForLog', () => {
     });
   });
 });
+
+describe('scrubCredentials', () => {
+  it('masks the Authorization header and XML user tokens of a failed request', () => {
+    const error = new axios.AxiosError('Request failed with status code 401', 'ERR_BAD_REQUEST', {
+      headers: new axios.AxiosHeaders({ Authorization: 'QB-USER-TOKEN b12345_secret' }),
+      data: '<qdbapi>\n  <usertoken>b12345_secret</usertoken>\n</qdbapi>'
+    } as any);
+
+    expect(scrubCredentials(error)).toBe(error);
+    expect(error.config!.headers.Authorization).toBe('QB-USER-TOKEN [REDACTED]');
+    expect(error.config!.data).toBe('<qdbapi>\n  <usertoken>[REDACTED]</usertoken>\n</qdbapi>');
+    expect(JSON.stringify(error.toJSON())).not.toContain('b12345_secret');
+  });
+
+  it('masks app tokens in headers and XML bodies', () => {
+    const error = new axios.AxiosError('Request failed', 'ERR_BAD_REQUEST', {
+      headers: new axios.AxiosHeaders({ 'QB-App-Token': 'app_secret' }),
+      data: '<qdbapi>\n  <usertoken>u</usertoken>\n  <apptoken>app_secret</apptoken>\n</qdbapi>'
+    } as any);
+
+    scrubCredentials(error);
+    expect(error.config!.headers['QB-App-Token']).toBe('[REDACTED]');
+    expect(error.config!.data).toBe('<qdbapi>\n  <usertoken>[REDACTED]</usertoken>\n  <apptoken>[REDACTED]</apptoken>\n</qdbapi>');
+  });
+
+  it('leaves other errors alone', () => {
+    const error = new Error('QB-USER-TOKEN x');
+    expect(scrubCredentials(error)).toBe(error);
+    expect(scrubCredentials('text')).toBe('text');
+  });
+});
@@ -0,0 +1,204 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  exportColumns,
+  exportRecords,
+  flattenValue,
+  MAX_INLINE_EXPORT_BYTES,
+  PageFetcher,
+  readExportFile,
+  resolveExportPath
+} from '../src/utils/export';
+import { RecordsPage } from '../src/types/quickbase';
+
+const fields = [
+  { id: 3, label: 'Record ID#', type: 'recordid' },
+  { id: 6, label: 'Name', type: 'text' },
+  { id: 7, label: 'Tags', type: 'multitext' }
+];
+
+function pagesOf(rows: any[], pageSize: number): { fetch: PageFetcher; calls: Array<[number, number]> } {
+  const calls: Array<[number, number]> = [];
+  const fetch: PageFetcher = async (offset, top) => {
+    calls.push([offset, top]);
+    const page: RecordsPage = {
+      data: rows.slice(offset, offset + Math.min(top, pageSize)),
+      fields,
+      metadata: { totalRecords: rows.length }
+    };
+    return page;
+  };
+  return { fetch, calls };
+}
+
+const row = (id: number, name: string, tags: string[] = []) => ({
+  3: { value: id },
+  6: { value: name },
+  7: { value: tags }
+});
+
+describe('flattenValue', () => {
+  it('joins multi-select values', () => {
+    expect(flattenValue(['a', 'b', ''])).toBe('a; b');
+  });
+
+  it('reduces users to their email, falling back to name', () => {
+    expect(flattenValue({ id: '1.ab', email: 'ada@example.com', name: 'Ada' })).toBe('ada@example.com');
+    expect(flattenValue({ id: '1.ab', name: 'Ada' })).toBe('Ada');
+    expect(flattenValue([{ email: 'a@x.io' }, { email: 'b@x.io' }])).toBe('a@x.io; b@x.io');
+  });
+
+  it('puts addresses on one line', () => {
+    expect(flattenValue({ street1: '1 Main St', street2: '', city: 'Springfield', region: 'IL', postalCode: '62701', country: 'US' }))
+      .toBe('1 Main St, Springfield, IL, 62701, US');
+  });
+
+  it('uses the URL of file attachments, or the latest file name', () => {
+    expect(flattenValue({ url: 'https://x/files/1', versions: [{ fileName: 'a.pdf' }] })).toBe('https://x/files/1');
+    expect(flattenValue({ versions: [{ fileName: 'a.pdf' }, { fileName: 'b.pdf' }] })).toBe('b.pdf');
+  });
+
+  it('passes scalars through and serializes other objects', () => {
+    expect(flattenValue(12.5)).toBe(12.5);
+    expect(flattenValue(true)).toBe(true);
+    expect(flattenValue(undefined)).toBeNull();
+    expect(flattenValue({ other: 1 })).toBe('{"other":1}');
+  });
+});
+
+describe('exportColumns', () => {
+  it('derives columns from row keys when the page has no field list', () => {
+    const columns = exportColumns({ data: [{ 6: { value: 'a' } }, { 9: { value: 1 } }], fields: [], metadata: {} });
+    expect(columns).toEqual([{ fieldId: 6, name: '6' }, { fieldId: 9, name: '9' }]);
+  });
+
+  it('disambiguates repeated labels with the field ID', () => {
+    const columns = exportColumns({
+      data: [],
+      fields: [{ id: 6, label: 'Name', type: 'text' }, { id: 8, label: 'Name', type: 'text' }],
+      metadata: {}
+    });
+    expect(columns.map(c => c.name)).toEqual(['Name (6)', 'Name (8)']);
+  });
+});
+
+describe('exportRecords', () => {
+  it('follows pagination and returns inline CSV with a header row', async () => {
+    const rows = [row(1, 'Ada', ['x', 'y']), row(2, 'Grace, Hopper'), row(3, '=SUM(A1)')];
+    const { fetch, calls } = pagesOf(rows, 2);
+
+    const summary = await exportRecords(fetch, { format: 'csv' });
+
+    expect(calls).toEqual([[0, 1_000_000], [2, 999_998]]);
+    expect(summary).toMatchObject({ rowsWritten: 3, totalRecords: 3, complete: true });
+    expect(summary.content).toBe(
+      'Record ID#,Name,Tags\r\n1,Ada,x; y\r\n2,"Grace, Hopper",\r\n3,\'=SUM(A1),\r\n'
+    );
+  });
+
+  it('writes JSONL keyed by label', async () => {
+    const { fetch } = pagesOf([row(1, 'Ada', ['x'])], 10);
+    const summary = await exportRecords(fetch, { format: 'jsonl' });
+    expect(summary.content).toBe('{"Record ID#":1,"Name":"Ada","Tags":"x"}\n');
+  });
+
+  it('stops at maxRows and reports the export as incomplete', async () => {
+    const { fetch } = pagesOf([row(1, 'a'), row(2, 'b'), row(3, 'c')], 2);
+    const summary = await exportRecords(fetch, { format: 'jsonl', maxRows: 2 });
+    expect(summary.rowsWritten).toBe(2);
+    expect(summary.complete).toBe(false);
+  });
+
+  it('refuses inline exports over the size limit', async () => {
+    const big = 'x'.repeat(1000);
+    const rows = Array.from({ length: Math.ceil(MAX_INLINE_EXPORT_BYTES / 1000) + 1 }, (_, i) => row(i, big));
+    const { fetch } = pagesOf(rows, 500);
+    await expect(exportRecords(fetch, { format: 'csv' })).rejects.toThrow(/inline limit/);
+  });
+
+  describe('to a file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'qb-export-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes CSV with a byte-order mark and returns a summary', async () => {
+      const target = await resolveExportPath('out/people.csv', dir);
+      const { fetch } = pagesOf([row(1, 'Ada')], 10);
+
+      const summary = await exportRecords(fetch, { format: 'csv', path: target });
+
+      expect(summary).toMatchObject({ path: target, rowsWritten: 1, complete: true, columns: ['Record ID#', 'Name', 'Tags'] });
+      expect(summary.content).toBeUndefined();
+      expect(await readFile(target, 'utf8')).toBe('\uFEFFRecord ID#,Name,Tags\r\n1,Ada,\r\n');
+    });
+
+    it('leaves no file behind when a page fails', async () => {
+      const target = await resolveExportPath('broken.csv', dir);
+      const fetch: PageFetcher = async (offset) => {
+        if (offset > 0) throw new Error('boom');
+        return { data: [row(1, 'Ada')], fields, metadata: { totalRecords: 5 } };
+      };
+
+      await expect(exportRecords(fetch, { format: 'csv', path: target })).rejects.toThrow('boom');
+      expect(await readdir(dir)).toEqual([]);
+    });
+  });
+});
+
+describe('resolveExportPath', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'qb-export-'));
+    await writeFile(path.join(dir, 'existing.csv'), '');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('requires an export directory', async () => {
+    await expect(resolveExportPath('a.csv', undefined)).rejects.toThrow(/QB_EXPORT_DIR/);
+  });
+
+  it('refuses paths outside the export directory', async () => {
+    await expect(resolveExportPath('../a.csv', dir)).rejects.toThrow(McpError);
+    await expect(resolveExportPath('/etc/passwd', dir)).rejects.toThrow(/must be a file inside/);
+  });
+
+  it('refuses to replace an existing file unless overwrite is set', async () => {
+    await expect(resolveExportPath('existing.csv', dir)).rejects.toThrow(/already exists/);
+    await expect(resolveExportPath('existing.csv', dir, true)).resolves.toBe(path.join(dir, 'existing.csv'));
+  });
+});
+
+describe('readExportFile', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'qb-export-'));
+    await writeFile(path.join(dir, 'schema.json'), '{"a":1}');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads files inside the export directory', async () => {
+    await expect(readExportFile('schema.json', dir)).resolves.toBe('{"a":1}');
+  });
+
+  it('refuses missing files, escaping paths and a missing directory', async () => {
+    await expect(readExportFile('missing.json', dir)).rejects.toThrow(/does not exist/);
+    await expect(readExportFile('../schema.json', dir)).rejects.toThrow(/must be a file inside/);
+    await expect(readExportFile('schema.json', undefined)).rejects.toThrow(/QB_EXPORT_DIR/);
+  });
+});
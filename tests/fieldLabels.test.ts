@@ -0,0 +1,58 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FieldRef, labelsToFieldValues, resolveFieldIds, rowsToLabels } from '../src/utils/fieldLabels';
+
+describe('field label resolution', () => {
+  const fields: FieldRef[] = [
+    { id: 3, label: 'Record ID#' },
+    { id: 6, label: 'Name' },
+    { id: 7, label: 'Status' },
+    { id: 8, label: 'status' },
+    { id: 9, label: 'Due Date' }
+  ];
+
+  describe('resolveFieldIds', () => {
+    it('resolves exact labels, numeric IDs and numeric strings', () => {
+      expect(resolveFieldIds(fields, ['Name', 9, '3'])).toEqual([6, 9, 3]);
+    });
+
+    it('falls back to a case-insensitive match', () => {
+      expect(resolveFieldIds(fields, ['due date'])).toEqual([9]);
+    });
+
+    it('prefers an exact match over case-insensitive candidates', () => {
+      expect(resolveFieldIds(fields, ['Status', 'status'])).toEqual([7, 8]);
+    });
+
+    it('reports ambiguous labels with the candidate IDs', () => {
+      expect(() => resolveFieldIds(fields, ['STATUS'])).toThrow(/Ambiguous field label\(s\): "STATUS" \(field IDs 7, 8\)/);
+    });
+
+    it('reports every unknown label in one error and lists available labels', () => {
+      let error: unknown;
+      try {
+        resolveFieldIds(fields, ['Nmae', 'Owner']);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).message).toMatch(/"Nmae", "Owner"/);
+      expect((error as McpError).message).toMatch(/Available labels: "Record ID#", "Name"/);
+    });
+  });
+
+  describe('labelsToFieldValues', () => {
+    it('converts label keys to field IDs and wraps plain values', () => {
+      expect(labelsToFieldValues(fields, { Name: 'Ada', 'Due Date': { value: '2026-01-01' } })).toEqual({
+        '6': { value: 'Ada' },
+        '9': { value: '2026-01-01' }
+      });
+    });
+  });
+
+  describe('rowsToLabels', () => {
+    it('flattens cells and keys them by label', () => {
+      const rows = [{ '6': { value: 'Ada' }, '99': { value: 1 } }];
+      expect(rowsToLabels(fields, rows)).toEqual([{ Name: 'Ada', '99': 1 }]);
+    });
+  });
+});
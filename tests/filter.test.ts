@@ -0,0 +1,95 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { combineWhere, compileFilter, FilterSchema, filterLabels, quoteQueryValue } from '../src/utils/filter';
+
+describe('structured filter compiler', () => {
+  const fields = [
+    { id: 6, label: 'Name' },
+    { id: 7, label: 'Status' },
+    { id: 8, label: 'Amount' },
+    { id: 9, label: 'Due Date' }
+  ];
+
+  describe('quoteQueryValue', () => {
+    it('escapes quotes and backslashes and flattens newlines', () => {
+      expect(quoteQueryValue("O'Brien")).toBe("'O\\'Brien'");
+      expect(quoteQueryValue('C:\\temp\\')).toBe("'C:\\\\temp\\\\'");
+      expect(quoteQueryValue('a\r\nb')).toBe("'a b'");
+    });
+
+    it('renders null as an empty literal and numbers/booleans as text', () => {
+      expect(quoteQueryValue(null)).toBe("''");
+      expect(quoteQueryValue(5)).toBe("'5'");
+      expect(quoteQueryValue(true)).toBe("'true'");
+    });
+  });
+
+  describe('compileFilter', () => {
+    it('compiles a single condition by field ID', () => {
+      expect(compileFilter({ field: 6, op: 'EX', value: 'John' })).toBe("{6.EX.'John'}");
+    });
+
+    it('resolves labels and treats numeric strings as IDs', () => {
+      expect(compileFilter({ and: [{ field: 'status', op: 'EX', value: 'Open' }, { field: '8', op: 'GT', value: 100 }] }, fields))
+        .toBe("{7.EX.'Open'}AND{8.GT.'100'}");
+    });
+
+    it('parenthesizes nested groups', () => {
+      const where = compileFilter({
+        and: [
+          { field: 7, op: 'EX', value: 'Open' },
+          { or: [{ field: 9, op: 'BF', value: '2026-01-01' }, { field: 9, op: 'IR', value: 'next 7 days' }] }
+        ]
+      });
+      expect(where).toBe("{7.EX.'Open'}AND({9.BF.'2026-01-01'}OR{9.IR.'next 7 days'})");
+    });
+
+    it('compiles not by complementing operators and applying De Morgan', () => {
+      expect(compileFilter({ not: { field: 8, op: 'LT', value: 10 } })).toBe("{8.GTE.'10'}");
+      expect(compileFilter({
+        not: { and: [{ field: 7, op: 'EX', value: 'Closed' }, { field: 9, op: 'BF', value: 'today' }] }
+      })).toBe("{7.XEX.'Closed'}OR{9.OAF.'today'}");
+      expect(compileFilter({ not: { not: { field: 6, op: 'CT', value: 'x' } } })).toBe("{6.CT.'x'}");
+    });
+
+    it('rejects operators that have no complement inside not', () => {
+      expect(() => compileFilter({ not: { field: 6, op: 'TV', value: 'x' } })).toThrow(/cannot be used inside "not"/);
+    });
+
+    it('reports unknown labels', () => {
+      expect(() => compileFilter({ field: 'Owner', op: 'EX', value: 'me' }, fields)).toThrow(McpError);
+    });
+
+    it('rejects overly deep trees', () => {
+      let node: any = { field: 6, op: 'EX', value: 'x' };
+      for (let i = 0; i < 20; i++) node = { not: node };
+      expect(() => compileFilter(node)).toThrow(/nested more than/);
+    });
+  });
+
+  describe('filterLabels', () => {
+    it('lists label references but not numeric IDs', () => {
+      expect(filterLabels({ or: [{ field: 'Name', op: 'CT', value: 'a' }, { field: '7', op: 'EX', value: 'b' }, { field: 8, op: 'GT', value: 1 }] }))
+        .toEqual(['Name']);
+    });
+  });
+
+  describe('FilterSchema', () => {
+    it('accepts nested groups', () => {
+      const filter = { and: [{ field: 'Name', op: 'SW', value: 'A' }, { not: { field: 7, op: 'EX', value: null } }] };
+      expect(FilterSchema.parse(filter)).toEqual(filter);
+    });
+
+    it('rejects unknown operators and empty groups', () => {
+      expect(() => FilterSchema.parse({ field: 6, op: 'LIKE', value: 'x' })).toThrow();
+      expect(() => FilterSchema.parse({ and: [] })).toThrow();
+    });
+  });
+
+  describe('combineWhere', () => {
+    it('ANDs present clauses and skips empty ones', () => {
+      expect(combineWhere(undefined, '')).toBeUndefined();
+      expect(combineWhere("{6.EX.'a'}", undefined)).toBe("{6.EX.'a'}");
+      expect(combineWhere("{6.EX.'a'}OR{6.EX.'b'}", "{7.GT.'1'}")).toBe("({6.EX.'a'}OR{6.EX.'b'})AND({7.GT.'1'})");
+    });
+  });
+});
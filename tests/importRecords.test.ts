@@ -0,0 +1,59 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { prepareImport } from '../src/utils/importRecords';
+import { FieldDefinition } from '../src/utils/recordValidation';
+
+describe('prepareImport', () => {
+  const fields: FieldDefinition[] = [
+    { id: 6, label: 'Name', fieldType: 'text' },
+    { id: 7, label: 'Amount', fieldType: 'numeric' },
+    { id: 8, label: 'Email', fieldType: 'email' },
+    { id: 9, label: 'Total', fieldType: 'numeric', mode: 'formula' }
+  ];
+
+  it('maps CSV columns to fields by label and coerces values', () => {
+    const result = prepareImport('Name,Amount\nAda,"1,200"\nGrace,7', fields, { format: 'csv' });
+
+    expect(result.mapping).toEqual({ Name: 6, Amount: 7 });
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      { line: 2, record: { '6': { value: 'Ada' }, '7': { value: 1200 } } },
+      { line: 3, record: { '6': { value: 'Grace' }, '7': { value: 7 } } }
+    ]);
+  });
+
+  it('uses an explicit mapping and ignores unmapped columns', () => {
+    const result = prepareImport('Full Name,Ignored\nAda,x', fields, { format: 'csv', mapping: { 'Full Name': 'name' } });
+    expect(result.rows).toEqual([{ line: 2, record: { '6': { value: 'Ada' } } }]);
+  });
+
+  it('reports per-row problems with source line numbers', () => {
+    const result = prepareImport('Name,Amount,Email\nAda,abc,ada@example.com\nGrace,5,nope', fields, { format: 'csv' });
+
+    expect(result.rows).toHaveLength(0);
+    expect(result.errors).toEqual([
+      { line: 2, errors: ['"Amount": expected a number, got "abc"'] },
+      { line: 3, errors: ['"Email": expected an email address, got "nope"'] }
+    ]);
+  });
+
+  it('requires a merge field value on every row when upserting', () => {
+    const result = prepareImport('{"Email":"a@example.com","Name":"A"}\n\n{"Name":"B"}', fields, {
+      format: 'jsonl',
+      mergeFieldId: 8
+    });
+    expect(result.rows.map(r => r.line)).toEqual([1]);
+    expect(result.errors).toEqual([{ line: 3, errors: ['missing a value for the merge field'] }]);
+  });
+
+  it('refuses calculated fields in the mapping', () => {
+    const result = prepareImport('{"Total":3}', fields, { format: 'jsonl' });
+    expect(result.errors[0].errors[0]).toMatch(/"Total": formula fields are calculated/);
+  });
+
+  it('rejects unknown columns, bad JSONL lines and oversized files', () => {
+    expect(() => prepareImport('Name,Owner\nA,B', fields, { format: 'csv' })).toThrow(/Unknown field label\(s\): "Owner"/);
+    expect(() => prepareImport('Name\nA', fields, { format: 'csv', mapping: { Nmae: 6 } })).toThrow(/not in the CSV header: "Nmae"/);
+    expect(() => prepareImport('{"Name":"A"}\n[1]\n{bad', fields, { format: 'jsonl' })).toThrow(/2 bad line\(s\)/);
+    expect(() => prepareImport('Name\nA\nB', fields, { format: 'csv', maxRows: 1 })).toThrow(McpError);
+  });
+});
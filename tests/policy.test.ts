@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { effectivePolicy, fieldWriteDenial, loadPolicyFile, matchesToolPattern } from '../src/utils/policy';
+
+describe('loadPolicyFile', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qb-policy-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads JSON and YAML policies', () => {
+    const json = path.join(dir, 'policy.json');
+    fs.writeFileSync(json, JSON.stringify({ apps: { bapp: { deny: ['quickbase_delete_*'] } } }));
+    const yaml = path.join(dir, 'policy.yaml');
+    fs.writeFileSync(yaml, [
+      'roles:',
+      '  analyst:',
+      '    allow: [quickbase_query_*, quickbase_get_*]',
+      'apps:',
+      '  "*":',
+      '    deny:',
+      '      - quickbase_delete_table',
+      '  bapp:',
+      '    roles: [analyst]',
+      '    tables:',
+      '      bqPayroll:',
+      '        readOnly: true',
+      '        readOnlyFields: [7, Salary]',
+      '        redact:',
+      '          8: hash',
+      '          SSN: mask',
+      ''
+    ].join('\n'));
+
+    expect(loadPolicyFile(json)).toEqual({ apps: { bapp: { deny: ['quickbase_delete_*'] } } });
+    expect(loadPolicyFile(yaml)).toEqual({
+      roles: { analyst: { allow: ['quickbase_query_*', 'quickbase_get_*'] } },
+      apps: {
+        '*': { deny: ['quickbase_delete_table'] },
+        bapp: { roles: ['analyst'], tables: { bqPayroll: { readOnly: true, readOnlyFields: [7, 'Salary'], redact: { 8: 'hash', SSN: 'mask' } } } }
+      }
+    });
+  });
+
+  it('names the file and the problem for invalid policies', () => {
+    const file = path.join(dir, 'policy.json');
+    fs.writeFileSync(file, JSON.stringify({ apps: { bapp: { tables: { bqPayroll: { readonly: true } } } } }));
+    expect(() => loadPolicyFile(file)).toThrow(/Invalid policy file policy\.json at apps\.bapp\.tables\.bqPayroll/);
+
+    fs.writeFileSync(file, JSON.stringify({ apps: { bapp: { tables: { bqPayroll: { redact: { SSN: 'hide' } } } } } }));
+    expect(() => loadPolicyFile(file)).toThrow(/at apps\.bapp\.tables\.bqPayroll\.redact\.SSN/);
+
+    fs.writeFileSync(file, JSON.stringify({ apps: { bapp: { roles: ['admin'] } } }));
+    expect(() => loadPolicyFile(file)).toThrow('Unknown role "admin"');
+
+    fs.writeFileSync(file, '{ apps: ');
+    expect(() => loadPolicyFile(file)).toThrow(/Cannot read policy file/);
+    expect(() => loadPolicyFile(path.join(dir, 'missing.json'))).toThrow(/Cannot read policy file/);
+  });
+});
+
+describe('effectivePolicy', () => {
+  const policy = {
+    roles: { analyst: { allow: ['quickbase_query_*'], deny: ['quickbase_import_records'] } },
+    apps: {
+      '*': { allow: ['quickbase_*'], deny: ['quickbase_delete_*'], tables: { bqPayroll: { readOnly: true } } },
+      bapp: { roles: ['analyst'], deny: ['quickbase_bulk_*'], tables: { bqPayroll: { deny: ['quickbase_query_records'] } } }
+    }
+  };
+
+  it('layers "*", roles and the app entry', () => {
+    const effective = effectivePolicy(policy, 'bapp')!;
+    expect(effective.sources).toEqual(['*', 'role:analyst', 'bapp']);
+    // The role's allow list replaces the "*" one; deny rules add up.
+    expect(effective.allow).toEqual([{ pattern: 'quickbase_query_*', source: 'role:analyst' }]);
+    expect(effective.deny.map(rule => rule.source)).toEqual(['*', 'role:analyst', 'bapp']);
+    // The last layer that mentions a table decides its settings.
+    expect(effective.tables.bqPayroll).toEqual({ deny: ['quickbase_query_records'], source: 'bapp' });
+  });
+
+  it('uses the "*" entry alone for other apps and nothing without a policy', () => {
+    expect(effectivePolicy(policy, 'bother')!.sources).toEqual(['*']);
+    expect(effectivePolicy({ apps: { bapp: {} } }, 'bother')).toBeUndefined();
+    expect(effectivePolicy(undefined, 'bapp')).toBeUndefined();
+  });
+});
+
+describe('matchesToolPattern', () => {
+  it('matches whole names with * and ? wildcards', () => {
+    expect(matchesToolPattern('quickbase_delete_*', 'quickbase_delete_record')).toBe(true);
+    expect(matchesToolPattern('quickbase_get_record', 'quickbase_get_records')).toBe(false);
+    expect(matchesToolPattern('quickbase_?et_record', 'quickbase_get_record')).toBe(true);
+    expect(matchesToolPattern('quickbase.query', 'quickbase_query')).toBe(false);
+  });
+});
+
+describe('fieldWriteDenial', () => {
+  const policy = effectivePolicy({ apps: { bapp: { tables: { bqPayroll: { readOnlyFields: [7, 'salary'] } } } } }, 'bapp')!;
+  const fields = [{ id: 6, label: 'Name' }, { id: 7, label: 'Employee ID' }, { id: 8, label: 'Salary' }];
+
+  it('refuses writes to read-only fields given by ID or label', () => {
+    expect(fieldWriteDenial(policy, 'bqPayroll', [6, 8], fields)).toBe(
+      'Field 8 "Salary" of table bqPayroll is read-only under the policy for app bapp (bapp). Nothing was written.'
+    );
+    expect(fieldWriteDenial(policy, 'bqPayroll', [7, 8], fields)).toMatch(/^Fields 7 "Employee ID", 8 "Salary" .* are read-only/);
+  });
+
+  it('allows other fields and other tables', () => {
+    expect(fieldWriteDenial(policy, 'bqPayroll', [6], fields)).toBeUndefined();
+    expect(fieldWriteDenial(policy, 'bqOther', [7], fields)).toBeUndefined();
+  });
+});
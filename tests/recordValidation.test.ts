@@ -0,0 +1,112 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { coerceRecordValues, FieldDefinition, validateRecordsForWrite } from '../src/utils/recordValidation';
+
+describe('record value validation', () => {
+  const fields: FieldDefinition[] = [
+    { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+    { id: 6, label: 'Name', fieldType: 'text' },
+    { id: 7, label: 'Amount', fieldType: 'currency' },
+    { id: 8, label: 'Due Date', fieldType: 'date' },
+    { id: 9, label: 'Active', fieldType: 'checkbox' },
+    { id: 10, label: 'Contact Email', fieldType: 'email' },
+    { id: 11, label: 'Tags', fieldType: 'multitext' },
+    { id: 12, label: 'Status', fieldType: 'text-multiple-choice', properties: { choices: ['Open', 'Closed'], allowNewChoices: false } },
+    { id: 13, label: 'Total', fieldType: 'numeric', mode: 'formula' },
+    { id: 14, label: 'Customer Name', fieldType: 'text', mode: 'lookup' },
+    { id: 15, label: 'Modified', fieldType: 'timestamp' },
+    { id: 16, label: 'Line Count', fieldType: 'summary' }
+  ];
+
+  describe('coerceRecordValues', () => {
+    it('coerces numeric strings, checkbox words, ISO dates and single multi-select values', () => {
+      const { record, problems } = coerceRecordValues(fields, {
+        '7': { value: '1,250.50' },
+        '8': { value: '2026-03-01T09:30:00Z' },
+        '9': { value: 'yes' },
+        '11': { value: 'urgent' },
+        '15': { value: '2026-03-01 09:30' }
+      });
+
+      expect(problems).toEqual([]);
+      expect(record).toEqual({
+        '7': { value: 1250.5 },
+        '8': { value: '2026-03-01' },
+        '9': { value: true },
+        '11': { value: ['urgent'] },
+        '15': { value: '2026-03-01 09:30' }
+      });
+    });
+
+    it('sends date-times with an offset as UTC and leaves the rest for QuickBase to read in the app time zone', () => {
+      const originalTz = process.env.TZ;
+      process.env.TZ = 'America/New_York';
+      try {
+        const { record } = coerceRecordValues(fields, { '15': { value: '2026-03-01T09:30' } });
+        expect(record['15']).toEqual({ value: '2026-03-01T09:30' });
+        expect(coerceRecordValues(fields, { '15': { value: '2026-03-01T09:30:00+02:00' } }).record['15'])
+          .toEqual({ value: '2026-03-01T07:30:00.000Z' });
+      } finally {
+        if (originalTz === undefined) delete process.env.TZ;
+        else process.env.TZ = originalTz;
+      }
+    });
+
+    it('passes null through so fields can be cleared', () => {
+      expect(coerceRecordValues(fields, { '8': { value: null } }).record).toEqual({ '8': { value: null } });
+    });
+
+    it('leaves field types it does not know untouched', () => {
+      const extra = [...fields, { id: 20, label: 'Attachment', fieldType: 'file' }];
+      const cell = { value: { fileName: 'a.txt', data: 'aGk=' } };
+      expect(coerceRecordValues(extra, { '20': cell }).record).toEqual({ '20': cell });
+    });
+
+    it('rejects impossible dates and malformed emails', () => {
+      const { problems } = coerceRecordValues(fields, {
+        '8': { value: '2026-02-30' },
+        '10': { value: 'not-an-email' }
+      });
+      expect(problems.map(p => p.label)).toEqual(['Due Date', 'Contact Email']);
+    });
+
+    it('enforces closed choice lists', () => {
+      const { problems } = coerceRecordValues(fields, { '12': { value: 'Pending' } });
+      expect(problems[0].message).toMatch(/"Pending" is not one of the allowed choices/);
+    });
+
+    it('refuses formula, lookup and summary fields', () => {
+      const { problems } = coerceRecordValues(fields, {
+        '13': { value: 1 },
+        '14': { value: 'Acme' },
+        '16': { value: 2 }
+      });
+      expect(problems.map(p => p.label)).toEqual(['Total', 'Customer Name', 'Line Count']);
+      expect(problems[0].message).toMatch(/cannot be written/);
+    });
+  });
+
+  describe('validateRecordsForWrite', () => {
+    it('returns coerced records when every value is valid', () => {
+      expect(validateRecordsForWrite(fields, [{ '6': { value: 42 } }])).toEqual([{ '6': { value: '42' } }]);
+    });
+
+    it('reports every problem across rows by label in a single error', () => {
+      let error: unknown;
+      try {
+        validateRecordsForWrite(fields, [
+          { '7': { value: 'abc' } },
+          { '9': { value: 'maybe' }, '99': { value: 1 } }
+        ]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(McpError);
+      const message = (error as McpError).message;
+      expect(message).toMatch(/3 problem\(s\)/);
+      expect(message).toMatch(/row 1, "Amount": expected a number, got "abc"/);
+      expect(message).toMatch(/row 2, "Active": expected true\/false/);
+      expect(message).toMatch(/row 2, "field 99": field does not exist/);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { effectivePolicy } from '../src/utils/policy';
+import { MASKED_VALUE, redactCallArgs, redactColumns, redactedTableIds, redactionRules, redactToolOutput, redactValue } from '../src/utils/redaction';
+
+describe('redaction', () => {
+  const policy = effectivePolicy({
+    apps: {
+      bapp: {
+        tables: {
+          bqEmployees: { redact: { 7: 'mask', Salary: 'hash', 'Home Email': 'drop' } },
+          bqNotes: { redact: { 9: 'mask' } }
+        }
+      }
+    }
+  }, 'bapp');
+  const rules = redactionRules(policy, ['bqEmployees'], 'test-key')!;
+
+  it('uses the rules of the tables the call names, or of every table when it names none', () => {
+    expect([...rules.byId.keys()]).toEqual([7]);
+    expect([...redactionRules(policy, [], 'k')!.byId.keys()]).toEqual([7, 9]);
+    expect(redactionRules(policy, ['bqOther'], 'k')).toBeUndefined();
+    expect(redactionRules(undefined, ['bqEmployees'], 'k')).toBeUndefined();
+  });
+
+  it('covers both the ID and the label of each field found in the field list', () => {
+    const resolved = redactionRules(policy, ['bqEmployees'], 'test-key', {
+      bqEmployees: [{ id: 7, label: 'SSN' }, { id: 8, label: 'Salary' }, { id: 6, label: 'Name' }]
+    })!;
+    expect(redactedTableIds(policy, [])).toEqual(['bqEmployees', 'bqNotes']);
+
+    // Rows from fieldNames: true are keyed by label, rows from field IDs by ID.
+    const byLabel = redactValue([{ 'Record ID#': 1, SSN: '123-45-6789', Name: 'Ada' }], resolved, true) as any[];
+    expect(byLabel[0]).toEqual({ 'Record ID#': 1, SSN: MASKED_VALUE, Name: 'Ada' });
+    const byId = redactValue([{ 8: { value: 90000 }, 6: { value: 'Ada' } }], resolved) as any[];
+    expect(byId[0]).toEqual({ 8: { value: expect.stringMatching(/^\[HASH:[0-9a-f]{16}\]$/) }, 6: { value: 'Ada' } });
+    // Without the field list only the written form is known.
+    expect(redactValue({ SSN: 'x' }, rules, true)).toEqual({ SSN: 'x' });
+  });
+
+  it('hides aggregate columns computed from redacted fields', () => {
+    const resolved = redactionRules(policy, ['bqEmployees'], 'test-key', {
+      bqEmployees: [{ id: 7, label: 'SSN' }, { id: 8, label: 'Salary' }, { id: 10, label: 'Dept' }, { id: 11, label: 'Home Email' }]
+    })!;
+    const rows = redactColumns(
+      [{ SSN: '1', Dept: 'Ops', count: 2, 'max(Salary)': 90000, top: 80000, 'Home Email': 'a@example.com' }],
+      [
+        { fieldId: 7, name: 'SSN' },
+        { fieldId: 10, name: 'Dept' },
+        { name: 'count' },
+        { fieldId: 8, name: 'max(Salary)' },
+        { fieldId: 8, name: 'top' },
+        { fieldId: 11, name: 'Home Email' }
+      ],
+      resolved
+    );
+    expect(rows).toEqual([{
+      SSN: MASKED_VALUE,
+      Dept: 'Ops',
+      count: 2,
+      'max(Salary)': expect.stringMatching(/^\[HASH:[0-9a-f]{16}\]$/),
+      top: expect.stringMatching(/^\[HASH:[0-9a-f]{16}\]$/)
+    }]);
+  });
+
+  it('hides cells under field-ID keys and values under matching labels', () => {
+    const output = redactValue({
+      data: [{ 3: { value: 1 }, 7: { value: '123-45-6789' }, 6: { value: 'Ada' } }],
+      records: [{ 'Record ID#': 1, salary: 90000, home_email: 'ada@example.com' }],
+      fields: [{ id: 7, label: 'SSN', type: 'text' }]
+    }, rules, true) as any;
+
+    expect(output.data[0]).toEqual({ 3: { value: 1 }, 7: { value: MASKED_VALUE }, 6: { value: 'Ada' } });
+    expect(output.records[0]).toEqual({ 'Record ID#': 1, salary: expect.stringMatching(/^\[HASH:[0-9a-f]{16}\]$/) });
+    // Field metadata has no values and is left alone.
+    expect(output.fields).toEqual([{ id: 7, label: 'SSN', type: 'text' }]);
+  });
+
+  it('matches label keys only where asked, so a rule on "Name" leaves table metadata alone', () => {
+    const nameRules = redactionRules(
+      effectivePolicy({ apps: { bapp: { tables: { bqEmployees: { redact: { Name: 'mask', Status: 'mask' } } } } } }, 'bapp'),
+      ['bqEmployees'],
+      'k',
+      { bqEmployees: [{ id: 6, label: 'Name' }, { id: 8, label: 'Status' }] }
+    )!;
+    const tableInfo = JSON.stringify({ id: 'bqEmployees', name: 'Employees', description: 'Staff' }, null, 2);
+    expect(redactToolOutput(tableInfo, nameRules)).toBe(tableInfo);
+    const writeReport = JSON.stringify({ records: [{ line: 1, recordId: 4, status: 'updated' }] }, null, 2);
+    expect(redactToolOutput(writeReport, nameRules)).toBe(writeReport);
+    // Record cells are still hidden by field ID.
+    expect(JSON.parse(redactToolOutput(JSON.stringify({ data: [{ 6: { value: 'Ada' } }] }), nameRules)))
+      .toEqual({ data: [{ 6: { value: MASKED_VALUE } }] });
+    expect(redactValue({ items: [{ name: 'Ada' }] }, nameRules, true)).toEqual({ items: [{ name: MASKED_VALUE }] });
+  });
+
+  it('hides redacted values in tool arguments for the audit log', () => {
+    const resolved = redactionRules(policy, ['bqEmployees'], 'test-key', {
+      bqEmployees: [{ id: 7, label: 'SSN' }, { id: 8, label: 'Salary' }, { id: 6, label: 'Name' }]
+    })!;
+    const args = redactCallArgs({
+      tableId: 'bqEmployees',
+      mergeFieldId: 7,
+      records: [{ keyValue: '123-45-6789', fields: { 6: { value: 'Ada' }, 7: { value: '123-45-6789' } } }],
+      filter: { and: [{ field: 'SSN', op: 'EX', value: '123-45-6789' }, { field: 6, op: 'EX', value: 'Ada' }] },
+      where: "{7.EX.'123-45-6789'}AND{6.EX.'Ada'}",
+      updates: { SSN: '123-45-6789', Name: 'Ada' }
+    }, resolved) as any;
+
+    expect(args.records).toEqual([{ keyValue: MASKED_VALUE, fields: { 6: { value: 'Ada' }, 7: { value: MASKED_VALUE } } }]);
+    expect(args.filter.and).toEqual([{ field: 'SSN', op: 'EX', value: MASKED_VALUE }, { field: 6, op: 'EX', value: 'Ada' }]);
+    expect(args.where).toBe("{7.EX.'[REDACTED]'}AND{6.EX.'Ada'}");
+    expect(args.updates).toEqual({ SSN: MASKED_VALUE, Name: 'Ada' });
+    expect(args.tableId).toBe('bqEmployees');
+    expect(JSON.stringify(args)).not.toContain('123-45-6789');
+    expect(redactCallArgs({ format: 'csv', data: 'SSN\n123-45-6789' }, resolved)).toEqual({
+      format: 'csv', data: '[15 characters not logged: the table has redacted fields]'
+    });
+  });
+
+  it('hides field/value pairs such as records embedded in pipeline activity', () => {
+    const output = redactValue({
+      steps: [{ inputs: [{ fieldId: '7', value: '123-45-6789' }, { label: 'Home email', value: 'ada@example.com' }] }]
+    }, rules) as any;
+    expect(output.steps[0].inputs).toEqual([{ fieldId: '7', value: MASKED_VALUE }, { label: 'Home email' }]);
+  });
+
+  it('hashes equal values alike and leaves redacted output unchanged', () => {
+    const once = redactValue([{ Salary: 90000 }, { Salary: 90000 }, { Salary: 80000 }], rules, true) as any[];
+    expect(once[0].Salary).toBe(once[1].Salary);
+    expect(once[0].Salary).not.toBe(once[2].Salary);
+    expect(redactValue(once, rules, true)).toEqual(once);
+  });
+
+  it('redacts JSON and JSONL tool output and leaves other text alone', () => {
+    expect(JSON.parse(redactToolOutput(JSON.stringify({ 7: { value: 'x' } }), rules))).toEqual({ 7: { value: MASKED_VALUE } });
+    expect(redactToolOutput('{"Salary":1}\n{"Salary":2}\n', rules, true)).toMatch(/^\{"Salary":"\[HASH:[0-9a-f]+\]"\}\n\{"Salary":"\[HASH:[0-9a-f]+\]"\}\n$/);
+    const unchanged = '{"records":[]}';
+    expect(redactToolOutput(unchanged, rules)).toBe(unchanged);
+    expect(redactToolOutput('Record 5 updated successfully', rules)).toBe('Record 5 updated successfully');
+  });
+});
@@ -717,6 +717,41 @@ describe('startRelayServer — GET /relay/pending end-to-end relay', () => {
   });
 });
 
+describe('startRelayServer — several realms', () => {
+  it('routes bookmarklet traffic to the client for its Origin realm', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const port = await getFreePort();
+    const prod = startRelayServer('test.quickbase.com', port, ['sandbox.quickbase.com']);
+    const sandbox = prod.forRealm('sandbox.quickbase.com');
+    await waitForPort(port);
+    const fromSandbox = { 'Origin': 'https://sandbox.quickbase.com' };
+
+    expect(sandbox).not.toBe(prod);
+    expect(prod.forRealm('test.quickbase.com')).toBe(prod);
+
+    await httpReqWithHeaders('POST', port, '/relay/hello',
+      JSON.stringify({ csrfToken: 'tok', realm: 'sandbox.quickbase.com' }), fromSandbox);
+    expect(sandbox.isActive).toBe(true);
+    expect(prod.isActive).toBe(false);
+    expect((await httpReq('GET', port, '/relay/status?realm=sandbox.quickbase.com')).body).toMatchObject({ active: true });
+    expect((await httpReq('GET', port, '/relay/status')).body).toMatchObject({ active: false });
+
+    const relayPromise = sandbox.request('/api/v2/pipelines/test', 'GET');
+    const pending = await httpReqWithHeaders('GET', port, '/relay/pending', undefined, fromSandbox);
+    expect(pending.body).toMatchObject({ path: '/api/v2/pipelines/test' });
+    await httpReqWithHeaders('POST', port, `/relay/result/${(pending.body as any).id}`,
+      JSON.stringify({ status: 200, data: { realm: 'sandbox' } }), fromSandbox);
+    expect(await relayPromise).toEqual({ status: 200, data: { realm: 'sandbox' } });
+
+    const setup = await httpReq('GET', port, '/setup?realm=sandbox.quickbase.com');
+    expect(setup.body).toContain('https://sandbox.quickbase.com/nav/main/action/pipelines/dashboard');
+    expect((await httpReq('GET', port, '/setup?realm=other.quickbase.com')).statusCode).toBe(404);
+
+    await httpReq('POST', port, '/relay/shutdown', '{}');
+    consoleSpy.mockRestore();
+  });
+});
+
 describe('startRelayServer — readBody validation', () => {
   it('POST /relay/hello with body exceeding 1 MB is rejected by the server', async () => {
     const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
@@ -0,0 +1,44 @@
+import { SchemaCache } from '../src/quickbase/schemaCache';
+
+describe('SchemaCache', () => {
+  let now: number;
+  let cache: SchemaCache;
+
+  beforeEach(() => {
+    now = 1_000;
+    cache = new SchemaCache(60_000, () => now);
+  });
+
+  it('reuses a value until its TTL expires', async () => {
+    const load = jest.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    await expect(cache.get('tables', load)).resolves.toBe('first');
+    now += 59_999;
+    await expect(cache.get('tables', load)).resolves.toBe('first');
+    now += 1;
+    await expect(cache.get('tables', load)).resolves.toBe('second');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one in-flight load between concurrent callers', async () => {
+    const load = jest.fn().mockResolvedValue([1]);
+    await Promise.all([cache.get('fields:t1', load), cache.get('fields:t1', load)]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('invalidates table info and fields for one table only', async () => {
+    const load = jest.fn().mockResolvedValue('x');
+    await cache.get(SchemaCache.tableKey('t1'), load);
+    await cache.get(SchemaCache.fieldsKey('t1'), load);
+    await cache.get(SchemaCache.fieldsKey('t2'), load);
+
+    cache.invalidateTable('t1');
+
+    expect(cache.size).toBe(1);
+  });
+
+  it('evicts rejected loads', async () => {
+    await expect(cache.get('tables', () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { diffSchemas, parseSchemaSnapshot } from '../src/quickbase/schemaDiff';
+import { SchemaSnapshot } from '../src/types/quickbase';
+
+function snapshot(appId: string, overrides: Partial<SchemaSnapshot> = {}): SchemaSnapshot {
+  return {
+    snapshotVersion: 1,
+    app: { id: appId, name: 'Sales' },
+    tables: [],
+    relationships: [],
+    webhooks: [],
+    notifications: [],
+    ...overrides
+  };
+}
+
+// The same app in two realms: every ID differs.
+const dev = snapshot('bdev', {
+  tables: [
+    {
+      id: 'bdev1', name: 'Projects', keyFieldId: 3, reports: [],
+      fields: [{ id: 3, label: 'Record ID#', fieldType: 'recordid' }, { id: 6, label: 'Name', fieldType: 'text', required: true }]
+    },
+    {
+      id: 'bdev2', name: 'Tasks', keyFieldId: 3, reports: [],
+      fields: [
+        { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+        { id: 6, label: 'Status', fieldType: 'text', choices: ['Open', 'Done'] },
+        { id: 7, label: 'Late', fieldType: 'checkbox', mode: 'formula', formula: 'Today() > [Due]' },
+        { id: 8, label: 'Related Project', fieldType: 'numeric' },
+        { id: 9, label: 'Project Name', fieldType: 'text', mode: 'lookup' },
+        { id: 10, label: 'Notes', fieldType: 'text' }
+      ]
+    },
+    { id: 'bdev3', name: 'Scratch', reports: [], fields: [] }
+  ],
+  relationships: [
+    { id: 8, parentTableId: 'bdev1', childTableId: 'bdev2', foreignKeyFieldId: 8, lookupFieldIds: [9], summaryFieldIds: [] }
+  ]
+});
+
+const prod = snapshot('bprod', {
+  tables: [
+    {
+      id: 'bprod7', name: 'projects', keyFieldId: 3, reports: [],
+      fields: [{ id: 3, label: 'Record ID#', fieldType: 'recordid' }, { id: 12, label: 'Name', fieldType: 'text', required: true }]
+    },
+    {
+      id: 'bprod8', name: 'Tasks', keyFieldId: 3, reports: [],
+      fields: [
+        { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+        { id: 14, label: 'Status', fieldType: 'text', choices: ['Open', 'Blocked', 'Done'], unique: true },
+        { id: 15, label: 'late', fieldType: 'checkbox', mode: 'formula', formula: 'Today() > [Due]  \r\n' },
+        { id: 16, label: 'Related Project', fieldType: 'numeric' },
+        { id: 17, label: 'Project Name', fieldType: 'text', mode: 'lookup' },
+        { id: 18, label: 'Owner', fieldType: 'user' }
+      ]
+    },
+    { id: 'bprod9', name: 'Invoices', reports: [], fields: [] }
+  ],
+  relationships: [
+    { id: 16, parentTableId: 'bprod7', childTableId: 'bprod8', foreignKeyFieldId: 16, lookupFieldIds: [], summaryFieldIds: [] }
+  ]
+});
+
+describe('diffSchemas', () => {
+  const diff = diffSchemas(dev, prod);
+
+  it('matches tables by name, falling back to case-insensitive names', () => {
+    expect(diff.tables.added).toEqual(['Invoices']);
+    expect(diff.tables.removed).toEqual(['Scratch']);
+    const projects = diff.tables.changed.find(t => t.toId === 'bprod7');
+    expect(projects?.changes).toEqual([{ property: 'name', from: 'Projects', to: 'projects' }]);
+  });
+
+  it('matches fields by label and reports type, choice and flag changes', () => {
+    const tasks = diff.tables.changed.find(t => t.table === 'Tasks')!;
+    expect(tasks.fields.added).toEqual([{ label: 'Owner', id: 18, fieldType: 'user' }]);
+    expect(tasks.fields.removed).toEqual([{ label: 'Notes', id: 10, fieldType: 'text' }]);
+    expect(tasks.fields.changed).toEqual([
+      {
+        label: 'Status', fromId: 6, toId: 14,
+        changes: [
+          { property: 'choices', from: ['Open', 'Done'], to: ['Open', 'Blocked', 'Done'] },
+          { property: 'unique', from: false, to: true }
+        ]
+      },
+      { label: 'late', fromId: 7, toId: 15, changes: [{ property: 'label', from: 'Late', to: 'late' }] }
+    ]);
+  });
+
+  it('compares relationships by table names and field labels', () => {
+    expect(diff.relationships.added).toEqual([]);
+    expect(diff.relationships.removed).toEqual([]);
+    expect(diff.relationships.changed).toEqual([{
+      relationship: 'Projects → Tasks (Related Project)',
+      changes: [{ property: 'lookupFields', from: ['Project Name'], to: [] }]
+    }]);
+  });
+
+  it('reports identical schemas even when every ID differs', () => {
+    const renumbered = JSON.parse(JSON.stringify(dev).replace(/bdev/g, 'bqa'));
+    const result = diffSchemas(dev, renumbered);
+    expect(result.identical).toBe(true);
+    expect(result.tables.changed).toEqual([]);
+    expect(diff.identical).toBe(false);
+  });
+
+  it('detects formula changes', () => {
+    const edited = JSON.parse(JSON.stringify(dev));
+    edited.tables[1].fields[2].formula = 'Today() >= [Due]';
+    const [tasks] = diffSchemas(dev, edited).tables.changed;
+    expect(tasks.fields.changed[0].changes).toEqual([
+      { property: 'formula', from: 'Today() > [Due]', to: 'Today() >= [Due]' }
+    ]);
+  });
+});
+
+describe('parseSchemaSnapshot', () => {
+  it('accepts exported snapshots', () => {
+    expect(parseSchemaSnapshot(JSON.stringify(dev))).toEqual(dev);
+  });
+
+  it('rejects invalid JSON and other documents', () => {
+    expect(() => parseSchemaSnapshot('{')).toThrow(McpError);
+    expect(() => parseSchemaSnapshot('{"tables": []}')).toThrow(/quickbase_export_schema/);
+  });
+});
@@ -0,0 +1,203 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { applySchemaPlan, DesiredSchema, desiredFromSnapshot, planSchema } from '../src/quickbase/schemaPlan';
+import { SchemaSnapshot } from '../src/types/quickbase';
+
+function snapshot(overrides: Partial<SchemaSnapshot> = {}): SchemaSnapshot {
+  return {
+    snapshotVersion: 1,
+    app: { id: 'bapp', name: 'Sales' },
+    tables: [],
+    relationships: [],
+    webhooks: [],
+    notifications: [],
+    ...overrides
+  };
+}
+
+const live = snapshot({
+  tables: [
+    {
+      id: 'bproj', name: 'Projects', keyFieldId: 3, reports: [],
+      fields: [
+        { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+        { id: 6, label: 'Name', fieldType: 'text' },
+        { id: 7, label: 'Budget', fieldType: 'currency' },
+        { id: 8, label: 'Legacy Code', fieldType: 'text' }
+      ]
+    },
+    {
+      id: 'btask', name: 'Tasks', keyFieldId: 3, reports: [],
+      fields: [
+        { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+        { id: 6, label: 'Status', fieldType: 'text', choices: ['Open', 'Done'] },
+        { id: 7, label: 'Related Project', fieldType: 'numeric' },
+        { id: 8, label: 'Project Name', fieldType: 'text', mode: 'lookup', properties: { lookupTargetFieldId: 6 } }
+      ]
+    },
+    { id: 'bold', name: 'Archive', reports: [], fields: [] }
+  ],
+  relationships: [
+    { id: 7, parentTableId: 'bproj', childTableId: 'btask', foreignKeyFieldId: 7, lookupFieldIds: [8], summaryFieldIds: [] }
+  ]
+});
+
+const desired: DesiredSchema = {
+  tables: [
+    {
+      name: 'Projects',
+      fields: [
+        { label: 'Name', fieldType: 'text', required: true },
+        { label: 'Budget', fieldType: 'numeric' },
+        { label: 'Over Budget', fieldType: 'checkbox', mode: 'formula', formula: '[Budget] > 1000' }
+      ]
+    },
+    {
+      name: 'Tasks',
+      fields: [
+        { label: 'Status', fieldType: 'text', choices: ['Open', 'Blocked', 'Done'] },
+        { label: 'Task Count', fieldType: 'numeric', mode: 'summary' }
+      ]
+    },
+    { name: 'Invoices', singleRecordName: 'Invoice', fields: [{ label: 'Amount', fieldType: 'currency' }] }
+  ],
+  relationships: [
+    {
+      parentTable: 'Projects', childTable: 'Tasks', foreignKeyField: 'Related Project',
+      lookupFields: [{ parentField: 'Name', label: 'Project Name' }, { parentField: 'Budget', label: 'Project Budget' }]
+    },
+    { parentTable: 'Projects', childTable: 'Invoices', foreignKeyField: 'Project' }
+  ]
+};
+
+describe('planSchema', () => {
+  const plan = planSchema('bapp', live, desired);
+
+  it('orders creates, relationships, formulas, then updates', () => {
+    expect(plan.operations.map(op => [op.step, op.action, op.description])).toEqual([
+      [1, 'create_table', 'Create table "Invoices"'],
+      [2, 'create_field', 'Create field "Amount" (currency) in "Invoices"'],
+      [3, 'create_lookup_field', 'Create lookup field "Project Budget" in "Tasks" from "Budget"'],
+      [4, 'create_relationship', 'Create relationship "Projects" → "Invoices" with reference field "Project"'],
+      [5, 'create_field', 'Create formula field "Over Budget" (checkbox) in "Projects"'],
+      [6, 'update_field', 'Update required of field "Name" in "Projects"'],
+      [7, 'update_field', 'Update choices of field "Status" in "Tasks"']
+    ]);
+    expect(plan.operations.map(op => op.tool)).toEqual([
+      'quickbase_create_table',
+      'quickbase_create_field',
+      'quickbase_create_lookup_field',
+      'quickbase_create_advanced_relationship',
+      'quickbase_create_field',
+      'quickbase_update_field',
+      'quickbase_update_field'
+    ]);
+  });
+
+  it('warns about changes it cannot make instead of planning them', () => {
+    expect(plan.warnings).toEqual([
+      expect.stringContaining('Field "Budget" in "Projects" is currency but the desired state says numeric'),
+      expect.stringContaining('Summary field "Task Count" in "Tasks" must be created in the QuickBase UI')
+    ]);
+  });
+
+  it('lists tables and fields missing from the desired state as unmanaged, never deleting them', () => {
+    expect(plan.unmanaged).toEqual({
+      tables: ['Archive'],
+      fields: [{ table: 'Projects', label: 'Legacy Code' }]
+    });
+    expect(plan.operations.some(op => /delete/.test(op.tool))).toBe(false);
+  });
+
+  it('produces a stable planId that changes with the operations', () => {
+    expect(plan.planId).toMatch(/^[0-9a-f]{16}$/);
+    expect(planSchema('bapp', live, desired).planId).toBe(plan.planId);
+    const fewer = { ...desired, relationships: [] };
+    expect(planSchema('bapp', live, fewer).planId).not.toBe(plan.planId);
+  });
+
+  it('plans nothing when the app already matches', () => {
+    const empty = planSchema('bapp', live, desiredFromSnapshot(live));
+    expect(empty.operations).toEqual([]);
+    expect(empty.warnings).toEqual([]);
+    expect(empty.unmanaged).toEqual({ tables: [], fields: [] });
+  });
+});
+
+describe('desiredFromSnapshot', () => {
+  it('drops built-in fields and moves reference and lookup fields into relationships', () => {
+    const result = desiredFromSnapshot(live);
+    expect(result.tables.find(t => t.name === 'Tasks')?.fields).toEqual([
+      { label: 'Status', fieldType: 'text', choices: ['Open', 'Done'] }
+    ]);
+    expect(result.relationships).toEqual([
+      {
+        parentTable: 'Projects', childTable: 'Tasks', foreignKeyField: 'Related Project',
+        lookupFields: [{ parentField: 'Name', label: 'Project Name' }]
+      }
+    ]);
+  });
+});
+
+describe('applySchemaPlan', () => {
+  function fakeClient() {
+    const tables = [{ id: 'bproj', name: 'Projects' }, { id: 'btask', name: 'Tasks' }];
+    const fields: Record<string, Array<{ id: number; label: string }>> = {
+      bproj: [{ id: 6, label: 'Name' }, { id: 7, label: 'Budget' }],
+      btask: [{ id: 6, label: 'Status' }, { id: 7, label: 'Related Project' }]
+    };
+    return {
+      getAppTables: jest.fn().mockResolvedValue(tables),
+      getTableFields: jest.fn(async (tableId: string) => fields[tableId] ?? []),
+      createTable: jest.fn().mockResolvedValue('binv'),
+      createField: jest.fn().mockResolvedValue(20),
+      updateField: jest.fn().mockResolvedValue(undefined),
+      createAdvancedRelationship: jest.fn().mockResolvedValue({ referenceFieldId: 21, lookupFieldIds: [] }),
+      createLookupField: jest.fn().mockResolvedValue(22)
+    };
+  }
+
+  it('executes every operation in order, resolving names to IDs', async () => {
+    const client = fakeClient();
+    const plan = planSchema('bapp', live, desired);
+    const report = await applySchemaPlan(client as any, plan, () => undefined);
+
+    expect(report.status).toBe('applied');
+    expect(report.applied).toHaveLength(7);
+    expect(client.createTable).toHaveBeenCalledWith({ name: 'Invoices', singleRecordName: 'Invoice' });
+    expect(client.createField).toHaveBeenNthCalledWith(1, 'binv', {
+      label: 'Amount', fieldType: 'currency', required: false, unique: false
+    });
+    expect(client.createLookupField).toHaveBeenCalledWith('btask', 'bproj', 7, 7, 'Project Budget');
+    expect(client.createAdvancedRelationship).toHaveBeenCalledWith('bproj', 'binv', 'Project', []);
+    expect(client.createField).toHaveBeenNthCalledWith(2, 'bproj', {
+      label: 'Over Budget', fieldType: 'checkbox', required: false, unique: false, properties: { formula: '[Budget] > 1000' }
+    });
+    expect(client.updateField).toHaveBeenCalledWith('bproj', 6, { required: true });
+    expect(client.updateField).toHaveBeenCalledWith('btask', 6, { properties: { choices: ['Open', 'Blocked', 'Done'] } });
+  });
+
+  it('stops at the first failure and reports what was not attempted', async () => {
+    const client = fakeClient();
+    client.createField.mockRejectedValueOnce(new Error('Field label already exists'));
+    const report = await applySchemaPlan(client as any, planSchema('bapp', live, desired), () => undefined);
+
+    expect(report.status).toBe('failed');
+    expect(report.applied.map(a => a.step)).toEqual([1]);
+    expect(report.applied[0].result).toEqual({ tableId: 'binv' });
+    expect(report.failed).toEqual({ step: 2, description: 'Create field "Amount" (currency) in "Invoices"', error: 'Field label already exists' });
+    expect(report.notAttempted.map(n => n.step)).toEqual([3, 4, 5, 6, 7]);
+    expect(client.createLookupField).not.toHaveBeenCalled();
+  });
+
+  it('stops before an operation the permission check refuses', async () => {
+    const client = fakeClient();
+    const report = await applySchemaPlan(client as any, planSchema('bapp', live, desired), op => {
+      if (op.tool === 'quickbase_create_table') throw new McpError(ErrorCode.InvalidRequest, `Tool "${op.tool}" is not allowed.`);
+    });
+
+    expect(report.status).toBe('failed');
+    expect(report.applied).toEqual([]);
+    expect(report.failed?.error).toContain('quickbase_create_table');
+    expect(client.createTable).not.toHaveBeenCalled();
+  });
+});
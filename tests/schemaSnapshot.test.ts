@@ -0,0 +1,115 @@
+import { captureSchema, formatSchemaSnapshot } from '../src/quickbase/schemaSnapshot';
+import { QuickBaseClient } from '../src/quickbase/client';
+
+function fakeClient(overrides: Partial<Record<keyof QuickBaseClient, jest.Mock>> = {}): QuickBaseClient {
+  return {
+    getAppInfo: jest.fn().mockResolvedValue({ id: 'bapp', name: 'Sales', created: '2024-01-01T00:00:00Z' }),
+    getAppTables: jest.fn().mockResolvedValue([
+      { id: 'btasks', name: 'Tasks', updated: '2024-05-01T00:00:00Z', keyFieldId: 3, spaceUsed: 100 },
+      { id: 'bproj', name: 'Projects', description: '', keyFieldId: 3 }
+    ]),
+    getTableFields: jest.fn().mockImplementation(async (tableId: string) => tableId === 'btasks'
+      ? [
+          { id: 7, label: 'Status', fieldType: 'text', required: false, properties: { choices: ['Open', 'Done'], width: 40 } },
+          { id: 3, label: 'Record ID#', fieldType: 'recordid', mode: '', properties: {} },
+          { id: 9, label: 'Late', fieldType: 'checkbox', mode: 'formula', properties: { formula: 'Today() > [Due]', foreignKey: false } }
+        ]
+      : [{ id: 3, label: 'Record ID#', fieldType: 'recordid' }]),
+    getReports: jest.fn().mockImplementation(async (tableId: string) => tableId === 'btasks'
+      ? [
+          { id: '10', name: 'Open', type: 'table', usedLast: '2024-06-01', usedCount: 41, query: { filter: "{7.EX.'Open'}", tableId: 'btasks' } },
+          { id: '2', name: 'All', type: 'table' }
+        ]
+      : []),
+    getRelationships: jest.fn().mockImplementation(async (tableId: string) => tableId === 'btasks'
+      ? {
+          relationships: [{
+            id: 6,
+            parentTableId: 'bproj',
+            childTableId: 'btasks',
+            foreignKeyField: { id: 6, label: 'Related Project', type: 'numeric' },
+            isCrossApp: false,
+            lookupFields: [{ id: 12 }, { id: 11 }],
+            summaryFields: []
+          }],
+          metadata: { totalRelationships: 1 }
+        }
+      : { relationships: [] }),
+    getAppEvents: jest.fn().mockResolvedValue([
+      { type: 'webhook', name: 'Notify Slack', tableId: 'btasks', isActive: true, owner: { email: 'ops@example.com', id: 'u1' } },
+      { type: 'email-notification', name: 'Task assigned', tableId: 'btasks', isActive: true },
+      { type: 'webhook', name: 'Project sync', tableId: 'bproj', isActive: false }
+    ]),
+    ...overrides
+  } as unknown as QuickBaseClient;
+}
+
+describe('captureSchema', () => {
+  it('captures tables, fields, reports, relationships and events in sorted order', async () => {
+    const snapshot = await captureSchema(fakeClient(), 'bapp');
+
+    expect(snapshot.app).toEqual({ id: 'bapp', name: 'Sales' });
+    expect(snapshot.tables.map(t => t.name)).toEqual(['Projects', 'Tasks']);
+
+    const tasks = snapshot.tables[1];
+    expect(tasks).toEqual(expect.objectContaining({ id: 'btasks', keyFieldId: 3 }));
+    expect(tasks).not.toHaveProperty('updated');
+    expect(tasks.fields).toEqual([
+      { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+      { id: 7, label: 'Status', fieldType: 'text', choices: ['Open', 'Done'], properties: { width: 40 } },
+      { id: 9, label: 'Late', fieldType: 'checkbox', mode: 'formula', formula: 'Today() > [Due]', properties: { foreignKey: false } }
+    ]);
+    expect(tasks.reports).toEqual([
+      { id: '2', name: 'All', type: 'table' },
+      { id: '10', name: 'Open', type: 'table', query: { filter: "{7.EX.'Open'}", tableId: 'btasks' } }
+    ]);
+
+    expect(snapshot.relationships).toEqual([{
+      id: 6,
+      parentTableId: 'bproj',
+      childTableId: 'btasks',
+      foreignKeyFieldId: 6,
+      lookupFieldIds: [11, 12],
+      summaryFieldIds: []
+    }]);
+    expect(snapshot.webhooks).toEqual([
+      { type: 'webhook', name: 'Project sync', tableId: 'bproj', isActive: false },
+      { type: 'webhook', name: 'Notify Slack', tableId: 'btasks', isActive: true, owner: 'ops@example.com' }
+    ]);
+    expect(snapshot.notifications).toHaveLength(1);
+  });
+
+  it('limits the snapshot to the requested tables', async () => {
+    const client = fakeClient();
+    const snapshot = await captureSchema(client, 'bapp', { tableIds: ['bproj'] });
+
+    expect(snapshot.tables.map(t => t.id)).toEqual(['bproj']);
+    expect(client.getTableFields).toHaveBeenCalledTimes(1);
+    expect(snapshot.webhooks.map(w => w.name)).toEqual(['Project sync']);
+    expect(snapshot.notifications).toEqual([]);
+  });
+
+  it('produces identical documents regardless of API ordering', async () => {
+    const first = formatSchemaSnapshot(await captureSchema(fakeClient(), 'bapp'), 'yaml');
+    const reversed = fakeClient({
+      getAppTables: jest.fn().mockResolvedValue([
+        { id: 'bproj', name: 'Projects', keyFieldId: 3 },
+        { id: 'btasks', name: 'Tasks', keyFieldId: 3 }
+      ])
+    });
+    const second = formatSchemaSnapshot(await captureSchema(reversed, 'bapp'), 'yaml');
+
+    expect(second).toBe(first);
+    expect(first).toContain('      - id: 9\n        label: Late\n');
+  });
+});
+
+describe('formatSchemaSnapshot', () => {
+  it('renders JSON with a trailing newline', async () => {
+    const snapshot = await captureSchema(fakeClient(), 'bapp');
+    const json = formatSchemaSnapshot(snapshot, 'json');
+
+    expect(json.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(json)).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,154 @@
+import { cloneTable, remapFormulaFieldIds } from '../src/quickbase/tableClone';
+
+describe('remapFormulaFieldIds', () => {
+  const idMap = new Map([[6, 16], [7, 17]]);
+
+  it('rewrites _fid_ references and query clauses, leaving built-in IDs alone', () => {
+    const result = remapFormulaFieldIds(
+      'If([_FID_6] > 0, URLRoot() & "db/" & Dbid() & "?a=API_EditRecord&_fid_7=1&rid=" & [_fid_3], "") & ' +
+      'SumValues(GetRecords("{6.EX.\'x\'}OR{\'7\'.GT.1}OR{3.EX.1}"), 6)',
+      idMap
+    );
+    expect(result.formula).toBe(
+      'If([_FID_16] > 0, URLRoot() & "db/" & Dbid() & "?a=API_EditRecord&_fid_17=1&rid=" & [_fid_3], "") & ' +
+      'SumValues(GetRecords("{16.EX.\'x\'}OR{\'17\'.GT.1}OR{3.EX.1}"), 6)'
+    );
+    expect(result.unmapped).toEqual([]);
+  });
+
+  it('leaves label references untouched and reports unknown IDs', () => {
+    const result = remapFormulaFieldIds('[Budget] * 2 + [_FID_9] + [_fid_9]', idMap);
+    expect(result.formula).toBe('[Budget] * 2 + [_FID_9] + [_fid_9]');
+    expect(result.unmapped).toEqual([9]);
+  });
+});
+
+describe('cloneTable', () => {
+  const sourceFields = [
+    { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+    { id: 9, label: 'Late', fieldType: 'checkbox', mode: 'formula', properties: { formula: '[_FID_8] < Today()' } },
+    { id: 6, label: 'Name', fieldType: 'text', required: true, properties: { maxLength: 100 } },
+    { id: 7, label: 'Status', fieldType: 'text_choice', properties: { choices: ['Open', 'Done'], masterChoiceTableId: 'bxyz' } },
+    { id: 8, label: 'Due', fieldType: 'date' },
+    { id: 10, label: 'Project Name', fieldType: 'text', mode: 'lookup', properties: { lookupTargetFieldId: 6 } },
+    { id: 11, label: 'Spec', fieldType: 'file' }
+  ];
+
+  function fakeSource() {
+    return {
+      getTableInfo: jest.fn().mockResolvedValue({ id: 'bsrc', name: 'Tasks', singleRecordName: 'Task', description: '' }),
+      getTableFields: jest.fn().mockResolvedValue(sourceFields),
+      getRecordsPaginated: jest.fn().mockResolvedValue({
+        data: [
+          { 6: { value: 'Write docs' }, 7: { value: 'Open' }, 8: { value: '2026-01-02' } },
+          { 6: { value: 'Ship' }, 7: { value: '' }, 8: { value: null } }
+        ],
+        fields: [],
+        totalRecords: 5,
+        nextSkip: 2,
+        hasMore: true
+      })
+    };
+  }
+
+  function fakeTarget() {
+    let nextId = 100;
+    return {
+      createTable: jest.fn().mockResolvedValue('bnew'),
+      createField: jest.fn(async () => nextId++),
+      updateField: jest.fn().mockResolvedValue(undefined),
+      writeRecordsChunked: jest.fn().mockResolvedValue({
+        totalRecords: 2, chunkCount: 1, succeeded: 2, failed: 0,
+        createdRecordIds: [1, 2], updatedRecordIds: [], unchangedRecordIds: [], lineErrors: {}, failedChunks: []
+      })
+    };
+  }
+
+  it('creates plain fields, then formula fields with remapped formulas', async () => {
+    const source = fakeSource();
+    const target = fakeTarget();
+    const report = await cloneTable(source as any, target as any, 'bsrc', { name: 'Tasks (sandbox)' });
+
+    expect(target.createTable).toHaveBeenCalledWith({ name: 'Tasks (sandbox)', description: undefined, singleRecordName: 'Task' });
+    expect(target.createField.mock.calls.map((call: any[]) => call[1].label)).toEqual(['Name', 'Status', 'Due', 'Spec', 'Late']);
+    expect(target.createField).toHaveBeenCalledWith('bnew', {
+      label: 'Status', fieldType: 'text_choice', required: false, unique: false, properties: { choices: ['Open', 'Done'] }
+    });
+    expect(target.createField).toHaveBeenCalledWith('bnew', {
+      label: 'Name', fieldType: 'text', required: true, unique: false, properties: { maxLength: 100 }
+    });
+    expect(target.createField).toHaveBeenCalledWith('bnew', {
+      label: 'Late', fieldType: 'checkbox', required: false, unique: false, properties: { formula: '[_FID_102] < Today()' }
+    });
+    expect(target.updateField).not.toHaveBeenCalled();
+
+    expect(report.tableId).toBe('bnew');
+    expect(report.fieldIdMap).toEqual({ 6: 100, 7: 101, 8: 102, 9: 104, 11: 103 });
+    expect(report.skippedFields).toEqual([
+      { id: 10, label: 'Project Name', reason: 'lookup fields need a relationship in the target app' }
+    ]);
+    expect(report.records).toBeUndefined();
+    expect(source.getRecordsPaginated).not.toHaveBeenCalled();
+  });
+
+  it('copies matching records under the new field IDs', async () => {
+    const source = fakeSource();
+    const target = fakeTarget();
+    const report = await cloneTable(source as any, target as any, 'bsrc', {
+      copyRecords: { where: "{7.EX.'Open'}", maxRecords: 2 }
+    });
+
+    expect(source.getRecordsPaginated).toHaveBeenCalledWith('bsrc', { select: [6, 7, 8], where: "{7.EX.'Open'}" }, 2);
+    expect(target.writeRecordsChunked).toHaveBeenCalledWith('bnew', [
+      { 100: { value: 'Write docs' }, 101: { value: 'Open' }, 102: { value: '2026-01-02' } },
+      { 100: { value: 'Ship' } }
+    ]);
+    expect(report.records).toEqual({ copied: 2, failed: 0, totalMatching: 5, hasMore: true, errors: [] });
+    expect(report.warnings).toEqual(['File attachments were not copied ("Spec").']);
+  });
+
+  it('copies user fields as user IDs', async () => {
+    const source = fakeSource();
+    source.getTableFields.mockResolvedValue([
+      { id: 6, label: 'Owner', fieldType: 'user' },
+      { id: 7, label: 'Reviewers', fieldType: 'multiuser' }
+    ]);
+    const ada = { id: '5.abc', email: 'ada@example.com', name: 'Ada', userName: 'ada' };
+    const bob = { id: '6.def', email: 'bob@example.com', name: 'Bob', userName: 'bob' };
+    source.getRecordsPaginated.mockResolvedValue({ data: [{ 6: { value: ada }, 7: { value: [ada, bob] } }], fields: [], hasMore: false });
+    const target = fakeTarget();
+    await cloneTable(source as any, target as any, 'bsrc', { copyRecords: { maxRecords: 10 } });
+
+    expect(target.writeRecordsChunked).toHaveBeenCalledWith('bnew', [
+      { 100: { value: { id: '5.abc' } }, 101: { value: [{ id: '5.abc' }, { id: '6.def' }] } }
+    ]);
+  });
+
+  it('creates formula fields after the fields they refer to and sets cyclic formulas last', async () => {
+    const source = fakeSource();
+    source.getTableFields.mockResolvedValue([
+      { id: 6, label: 'Hours', fieldType: 'numeric' },
+      { id: 7, label: 'Total', fieldType: 'numeric', mode: 'formula', properties: { formula: '[_FID_8] * 2' } },
+      { id: 8, label: 'Base', fieldType: 'numeric', mode: 'formula', properties: { formula: '[Hours] + 1' } },
+      { id: 9, label: 'A', fieldType: 'numeric', mode: 'formula', properties: { formula: '[B]' } },
+      { id: 10, label: 'B', fieldType: 'numeric', mode: 'formula', properties: { formula: '[_FID_9] + [_FID_12]' } }
+    ]);
+    const target = fakeTarget();
+    const report = await cloneTable(source as any, target as any, 'bsrc');
+
+    expect(target.createField.mock.calls.map((call: any[]) => [call[1].label, call[1].properties?.formula])).toEqual([
+      ['Hours', undefined],
+      ['Base', '[Hours] + 1'],
+      ['Total', '[_FID_101] * 2'],
+      ['A', undefined],
+      ['B', undefined]
+    ]);
+    expect(target.updateField.mock.calls).toEqual([
+      ['bnew', 103, { properties: { formula: '[B]' } }],
+      ['bnew', 104, { properties: { formula: '[_FID_103] + [_FID_12]' } }]
+    ]);
+    expect(report.warnings).toEqual([
+      'Formula of "B" refers to field ID(s) 12, which were not cloned; those references were left unchanged.'
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { McpError } from '@modelcontextprotocol/sdk/types.js';
-import { assertToolAllowed } from '../src/utils/toolGuards';
+import { effectivePolicy } from '../src/utils/policy';
+import { assertAffectedRowsAllowed, assertToolAllowed, isDryRunCall, policyDenial } from '../src/utils/toolGuards';
 
 describe('Tool guards - readonly / destructive / confirmation', () => {
   it('blocks quickbase_update_record in readonly mode', () => {
@@ -75,6 +76,157 @@ describe('Tool guards - readonly / destructive / confirmation', () => {
     ).toThrow(/destructive tool/i);
   });
 
+  describe('Bulk Record Tool Guards', () => {
+    it('requires confirmation for upsert, bulk update and import tools', () => {
+      for (const name of ['quickbase_upsert_records', 'quickbase_bulk_update_records', 'quickbase_import_records']) {
+        expect(() =>
+          assertToolAllowed({ name, args: { tableId: 'bux123' }, readOnly: false, allowDestructive: false })
+        ).toThrow(/requires confirmation/i);
+
+        expect(() =>
+          assertToolAllowed({ name, args: { confirm: true, tableId: 'bux123' }, readOnly: false, allowDestructive: false })
+        ).not.toThrow();
+      }
+    });
+
+    it('treats quickbase_bulk_delete_records as destructive', () => {
+      expect(() =>
+        assertToolAllowed({
+          name: 'quickbase_bulk_delete_records',
+          args: { tableId: 'bux123', recordIds: [1, 2] },
+          readOnly: false,
+          allowDestructive: false
+        })
+      ).toThrow(/destructive tool/i);
+
+      expect(() =>
+        assertToolAllowed({
+          name: 'quickbase_bulk_delete_records',
+          args: { tableId: 'bux123', recordIds: [1, 2] },
+          readOnly: false,
+          allowDestructive: true
+        })
+      ).not.toThrow();
+    });
+  });
+
+  describe('Aggregate Tool Guards', () => {
+    it('allows quickbase_aggregate_records in readonly mode', () => {
+      expect(() =>
+        assertToolAllowed({
+          name: 'quickbase_aggregate_records',
+          args: { tableId: 'bux123', metrics: [{ fn: 'count' }] },
+          readOnly: true,
+          allowDestructive: false
+        })
+      ).not.toThrow();
+    });
+  });
+
+  describe('Schema Cache Tool Guards', () => {
+    it('allows quickbase_refresh_schema in readonly mode without confirmation', () => {
+      expect(() =>
+        assertToolAllowed({
+          name: 'quickbase_refresh_schema',
+          args: { tableId: 'bux123' },
+          readOnly: true,
+          allowDestructive: false
+        })
+      ).not.toThrow();
+    });
+
+    it('allows quickbase_export_schema in readonly mode without confirmation', () => {
+      expect(() =>
+        assertToolAllowed({
+          name: 'quickbase_export_schema',
+          args: { format: 'yaml' },
+          readOnly: true,
+          allowDestructive: false
+        })
+      ).not.toThrow();
+    });
+
+    it('allows quickbase_diff_schema in readonly mode without confirmation', () => {
+      expect(() =>
+        assertToolAllowed({
+          name: 'quickbase_diff_schema',
+          args: { compareAppId: 'bprod' },
+          readOnly: true,
+          allowDestructive: false
+        })
+      ).not.toThrow();
+    });
+
+    it('allows quickbase_plan_schema in readonly mode but not quickbase_apply_schema', () => {
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_plan_schema', args: {}, readOnly: true, allowDestructive: false })
+      ).not.toThrow();
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_apply_schema', args: { confirm: true }, readOnly: true, allowDestructive: false })
+      ).toThrow(/read-only/);
+    });
+
+    it('requires confirmation for quickbase_apply_schema', () => {
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_apply_schema', args: { planId: 'abc' }, readOnly: false, allowDestructive: false })
+      ).toThrow(/requires confirmation/);
+    });
+  });
+
+  describe('Audit log guard', () => {
+    it('allows quickbase_get_audit_log in readonly mode without confirmation', () => {
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_get_audit_log', args: { limit: 10 }, readOnly: true, allowDestructive: false })
+      ).not.toThrow();
+    });
+  });
+
+  describe('Undo guard', () => {
+    it('blocks quickbase_undo in readonly mode and requires confirmation', () => {
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_undo', args: { confirm: true }, readOnly: true, allowDestructive: false })
+      ).toThrow(/read-only/);
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_undo', args: { operationId: 'undo-1' }, readOnly: false, allowDestructive: false })
+      ).toThrow(/requires confirmation/);
+    });
+  });
+
+  describe('Clone guard', () => {
+    it('lets a read-only source app and table be cloned into a writable app', () => {
+      const sourcePolicy = effectivePolicy({ apps: { bprod: { tables: { bqPayroll: { readOnly: true } } } } }, 'bprod');
+      const args = { confirm: true, appId: 'bprod', tableId: 'bqPayroll', targetAppId: 'bsandbox' };
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_clone_table', args, readOnly: true, allowDestructive: false, policy: sourcePolicy })
+      ).not.toThrow();
+      // The handler checks the target app separately.
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_clone_table', args: { confirm: true }, readOnly: false, allowDestructive: false, target: true })
+      ).not.toThrow();
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_clone_table', args: { confirm: true }, readOnly: true, allowDestructive: false, target: true })
+      ).toThrow(/read-only/);
+    });
+  });
+
+  describe('Dry-run guard', () => {
+    it('lets dry runs of mutating tools through in readonly mode without confirmation', () => {
+      for (const name of ['quickbase_update_record', 'quickbase_bulk_delete_records', 'quickbase_delete_table']) {
+        expect(() =>
+          assertToolAllowed({ name, args: { dryRun: true }, readOnly: true, allowDestructive: false })
+        ).not.toThrow();
+      }
+    });
+
+    it('does not treat dryRun on other tools, or a non-true dryRun, as a dry run', () => {
+      expect(isDryRunCall('quickbase_test_webhook', { dryRun: true })).toBe(false);
+      expect(isDryRunCall('quickbase_update_record', { dryRun: 'true' })).toBe(false);
+      expect(() =>
+        assertToolAllowed({ name: 'quickbase_test_webhook', args: { dryRun: true }, readOnly: true, allowDestructive: false })
+      ).toThrow(/read-only/);
+    });
+  });
+
   describe('Webhook Tool Guards', () => {
     it('allows quickbase_list_webhooks in readonly mode', () => {
       expect(() =>
@@ -241,3 +393,80 @@ describe('Tool guards - readonly / destructive / confirmation', () => {
     });
   });
 });
+
+describe('Policy rules', () => {
+  const policy = effectivePolicy({
+    apps: {
+      '*': { deny: ['quickbase_delete_*'] },
+      bapp: {
+        allow: ['quickbase_*'],
+        deny: ['quickbase_*_pipeline*'],
+        tables: {
+          bqPayroll: { readOnly: true },
+          bqNotes: { deny: ['quickbase_bulk_*'] },
+          bqTasks: { allow: ['quickbase_query_records', 'quickbase_update_record'] }
+        }
+      }
+    }
+  }, 'bapp');
+
+  it('refuses tools matching a deny rule, naming the rule and where it came from', () => {
+    expect(policyDenial(policy, 'quickbase_delete_record', {})).toBe(
+      'Tool "quickbase_delete_record" is denied by the policy for app bapp (deny rule "quickbase_delete_*" in *).'
+    );
+    expect(policyDenial(policy, 'quickbase_list_pipelines', {})).toMatch(/deny rule "quickbase_\*_pipeline\*" in bapp/);
+  });
+
+  it('refuses tools outside the allow list', () => {
+    expect(policyDenial(policy, 'other_tool', {})).toMatch(/not in the allow list of the policy for app bapp/);
+    expect(policyDenial(policy, 'quickbase_query_records', {})).toBeUndefined();
+  });
+
+  it('applies the rules of every table the call names', () => {
+    expect(policyDenial(policy, 'quickbase_update_record', { tableId: 'bqPayroll' })).toBe(
+      'Table bqPayroll is read-only under the policy for app bapp (bapp), and "quickbase_update_record" can change it.'
+    );
+    expect(policyDenial(policy, 'quickbase_query_records', { tableId: 'bqPayroll' })).toBeUndefined();
+    expect(policyDenial(policy, 'quickbase_create_relationship', { parentTableId: 'bqOther', childTableId: 'bqPayroll' }))
+      .toMatch(/read-only/);
+    expect(policyDenial(policy, 'quickbase_bulk_update_records', { tableId: 'bqNotes' })).toMatch(/denied for table bqNotes/);
+    expect(policyDenial(policy, 'quickbase_create_record', { tableId: 'bqTasks' })).toMatch(/allow list for table bqTasks/);
+    expect(policyDenial(policy, 'quickbase_update_record', { tableId: 'bqTasks' })).toBeUndefined();
+  });
+
+  it('is enforced by assertToolAllowed even for dry runs', () => {
+    expect(() =>
+      assertToolAllowed({
+        name: 'quickbase_update_record',
+        args: { tableId: 'bqPayroll', dryRun: true },
+        readOnly: false,
+        allowDestructive: true,
+        policy
+      })
+    ).toThrow(McpError);
+    expect(() =>
+      assertToolAllowed({ name: 'quickbase_update_record', args: { confirm: true, tableId: 'bqTasks' }, readOnly: false, allowDestructive: false, policy })
+    ).not.toThrow();
+  });
+});
+
+describe('Affected-row limit', () => {
+  const name = 'quickbase_bulk_delete_records';
+
+  it('allows any count when the app has no limit, and counts within the limit', () => {
+    expect(() => assertAffectedRowsAllowed({ name, count: 100_000 })).not.toThrow();
+    expect(() => assertAffectedRowsAllowed({ name, count: 50, maxAffectedRows: 50 })).not.toThrow();
+  });
+
+  it('refuses a count above the limit and names the count to echo back', () => {
+    expect(() => assertAffectedRowsAllowed({ name, count: 812, maxAffectedRows: 50 }))
+      .toThrow(/would affect 812 records, more than this application's limit of 50.*"expectedAffectedRows": 812/);
+    expect(() => assertAffectedRowsAllowed({ name, count: 812, maxAffectedRows: 50, expectedAffectedRows: 812 })).not.toThrow();
+  });
+
+  it('refuses when the echoed count no longer matches', () => {
+    expect(() => assertAffectedRowsAllowed({ name, count: 815, maxAffectedRows: 50, expectedAffectedRows: 812 }))
+      .toThrow(/would affect 815 records, not the 812/);
+    expect(() => assertAffectedRowsAllowed({ name, count: 3, expectedAffectedRows: 2 })).toThrow(McpError);
+  });
+});
@@ -2,11 +2,24 @@ import {
   TableIdSchema,
   RecordIdSchema,
   CreateTableSchema,
+  CloneTableSchema,
   CreateFieldSchema,
   QueryRecordsSchema,
   CreateRecordSchema,
   UpdateRecordSchema,
   BulkCreateSchema,
+  UpsertRecordsSchema,
+  BulkUpdateRecordsSchema,
+  BulkDeleteRecordsSchema,
+  AggregateRecordsSchema,
+  ImportRecordsSchema,
+  RunReportSchema,
+  DiffSchemaSchema,
+  UndoSchema,
+  GetAuditLogSchema,
+  ExplainPolicySchema,
+  PlanSchemaSchema,
+  ApplySchemaSchema,
   SearchRecordsSchema,
   CreateRelationshipSchema,
   CreateAdvancedRelationshipSchema,
@@ -241,6 +254,107 @@ describe('Tool Schemas - Validation', () => {
     it('should require tableId', () => {
       expect(() => QueryRecordsSchema.parse({})).toThrow();
     });
+
+    it('should accept an export block and reject unknown formats', () => {
+      const data = { appId: TEST_APP_ID, tableId: 'bux123', export: { format: 'csv', path: 'out/orders.csv' } };
+      expect(QueryRecordsSchema.parse(data)).toEqual(data);
+      expect(() => QueryRecordsSchema.parse({ ...data, export: { format: 'xlsx' } })).toThrow();
+      expect(() => QueryRecordsSchema.parse({ ...data, export: { format: 'csv', sheet: 'x' } })).toThrow();
+    });
+  });
+
+  describe('RunReportSchema', () => {
+    it('accepts a report ID or a report name', () => {
+      expect(RunReportSchema.parse({ appId: TEST_APP_ID, tableId: 'bux123', reportId: '5' })).toMatchObject({ reportId: '5' });
+      expect(RunReportSchema.parse({ appId: TEST_APP_ID, tableId: 'bux123', reportName: 'Open Orders' }))
+        .toMatchObject({ reportName: 'Open Orders' });
+    });
+
+    it('requires exactly one of reportId or reportName', () => {
+      expect(() => RunReportSchema.parse({ appId: TEST_APP_ID, tableId: 'bux123' })).toThrow(/exactly one/);
+      expect(() => RunReportSchema.parse({ appId: TEST_APP_ID, tableId: 'bux123', reportId: '5', reportName: 'x' }))
+        .toThrow(/exactly one/);
+    });
+  });
+
+  describe('CloneTableSchema', () => {
+    it('defaults maxRecords when copying records', () => {
+      const parsed = CloneTableSchema.parse({
+        appId: TEST_APP_ID, confirm: true, tableId: 'bsrc', targetAppId: 'bsandbox', copyRecords: { where: "{7.EX.'Open'}" }
+      });
+      expect(parsed.copyRecords).toEqual({ where: "{7.EX.'Open'}", maxRecords: 1000 });
+    });
+
+    it('requires confirm and a target app, and caps maxRecords', () => {
+      expect(() => CloneTableSchema.parse({ appId: TEST_APP_ID, tableId: 'bsrc', targetAppId: 'bsandbox' })).toThrow();
+      expect(() => CloneTableSchema.parse({ appId: TEST_APP_ID, confirm: true, tableId: 'bsrc' })).toThrow();
+      expect(() => CloneTableSchema.parse({
+        appId: TEST_APP_ID, confirm: true, tableId: 'bsrc', targetAppId: 'bsandbox', copyRecords: { maxRecords: 20000 }
+      })).toThrow();
+    });
+  });
+
+  describe('GetAuditLogSchema', () => {
+    it('defaults limit and validates outcome and since', () => {
+      expect(GetAuditLogSchema.parse({ appId: TEST_APP_ID })).toEqual({ appId: TEST_APP_ID, limit: 50 });
+      expect(GetAuditLogSchema.parse({ appId: TEST_APP_ID, outcome: 'denied', since: '2026-10-01T00:00:00Z' }))
+        .toMatchObject({ outcome: 'denied' });
+      expect(() => GetAuditLogSchema.parse({ appId: TEST_APP_ID, outcome: 'ok' })).toThrow();
+      expect(() => GetAuditLogSchema.parse({ appId: TEST_APP_ID, since: 'yesterday' })).toThrow();
+      expect(() => GetAuditLogSchema.parse({ appId: TEST_APP_ID, limit: 5000 })).toThrow();
+    });
+  });
+
+  describe('ExplainPolicySchema', () => {
+    it('takes an optional tool and table', () => {
+      expect(ExplainPolicySchema.parse({ appId: TEST_APP_ID })).toEqual({ appId: TEST_APP_ID });
+      expect(ExplainPolicySchema.parse({ appId: TEST_APP_ID, tool: 'quickbase_update_record', tableId: 'bqPayroll' }))
+        .toMatchObject({ tool: 'quickbase_update_record', tableId: 'bqPayroll' });
+      expect(() => ExplainPolicySchema.parse({ appId: TEST_APP_ID, tool: '' })).toThrow();
+    });
+  });
+
+  describe('UndoSchema', () => {
+    it('requires confirm and an operation ID', () => {
+      expect(UndoSchema.parse({ appId: TEST_APP_ID, confirm: true, operationId: 'undo-1' })).toMatchObject({ operationId: 'undo-1' });
+      expect(() => UndoSchema.parse({ appId: TEST_APP_ID, operationId: 'undo-1' })).toThrow();
+      expect(() => UndoSchema.parse({ appId: TEST_APP_ID, confirm: true })).toThrow();
+    });
+  });
+
+  describe('DiffSchemaSchema', () => {
+    it('requires exactly one of compareAppId or snapshotPath', () => {
+      expect(DiffSchemaSchema.parse({ appId: TEST_APP_ID, compareAppId: 'bprod' })).toMatchObject({ compareAppId: 'bprod' });
+      expect(DiffSchemaSchema.parse({ appId: TEST_APP_ID, snapshotPath: 'prod.json' })).toMatchObject({ snapshotPath: 'prod.json' });
+      expect(() => DiffSchemaSchema.parse({ appId: TEST_APP_ID })).toThrow(/exactly one/);
+      expect(() => DiffSchemaSchema.parse({ appId: TEST_APP_ID, compareAppId: 'bprod', snapshotPath: 'prod.json' }))
+        .toThrow(/exactly one/);
+    });
+  });
+
+  describe('PlanSchemaSchema and ApplySchemaSchema', () => {
+    const desired = { tables: [{ name: 'Projects', fields: [{ label: 'Name', fieldType: 'text' }] }] };
+
+    it('require exactly one of desired or snapshotPath', () => {
+      expect(PlanSchemaSchema.parse({ appId: TEST_APP_ID, desired })).toMatchObject({ desired });
+      expect(PlanSchemaSchema.parse({ appId: TEST_APP_ID, snapshotPath: 'prod.json' })).toMatchObject({ snapshotPath: 'prod.json' });
+      expect(() => PlanSchemaSchema.parse({ appId: TEST_APP_ID })).toThrow(/exactly one/);
+      expect(() => ApplySchemaSchema.parse({ appId: TEST_APP_ID, confirm: true, planId: 'abc', desired, snapshotPath: 'prod.json' }))
+        .toThrow(/exactly one/);
+    });
+
+    it('rejects unknown keys in the desired state', () => {
+      expect(() => PlanSchemaSchema.parse({
+        appId: TEST_APP_ID,
+        desired: { tables: [{ name: 'Projects', fields: [{ label: 'Name', fieldType: 'text', id: 6 }] }] }
+      })).toThrow();
+    });
+
+    it('requires confirm and planId to apply', () => {
+      expect(() => ApplySchemaSchema.parse({ appId: TEST_APP_ID, planId: 'abc', desired })).toThrow();
+      expect(() => ApplySchemaSchema.parse({ appId: TEST_APP_ID, confirm: true, desired })).toThrow();
+      expect(ApplySchemaSchema.parse({ appId: TEST_APP_ID, confirm: true, planId: 'abc', desired })).toMatchObject({ planId: 'abc' });
+    });
   });
 
   describe('CreateRecordSchema', () => {
@@ -330,8 +444,8 @@ describe('Tool Schemas - Validation', () => {
       expect(BulkCreateSchema.parse(data)).toMatchObject(data);
     });
 
-    it('should limit to 250 records', () => {
-      const records = Array.from({ length: 251 }, () => ({ fields: { 4: 'Test' } }));
+    it('should limit to 10000 records', () => {
+      const records = Array.from({ length: 10001 }, () => ({ fields: { 4: 'Test' } }));
       expect(() => BulkCreateSchema.parse({
         confirm: true,
         tableId: 'bux123',
@@ -339,15 +453,139 @@ describe('Tool Schemas - Validation', () => {
       })).toThrow();
     });
 
-    it('should allow up to 250 records', () => {
-      const records = Array.from({ length: 250 }, () => ({ fields: { 4: 'Test' } }));
+    it('should allow up to 10000 records', () => {
+      const records = Array.from({ length: 10000 }, () => ({ fields: { 4: 'Test' } }));
       const data = {
         appId: TEST_APP_ID,
         confirm: true,
         tableId: 'bux123',
         records
       };
-      expect(BulkCreateSchema.parse(data).records).toHaveLength(250);
+      expect(BulkCreateSchema.parse(data).records).toHaveLength(10000);
+    });
+  });
+
+  describe('UpsertRecordsSchema', () => {
+    it('should validate upsert with merge field', () => {
+      const data = {
+        appId: TEST_APP_ID,
+        confirm: true,
+        tableId: 'bux123',
+        mergeFieldId: 6,
+        records: [{ keyValue: 'a@example.com', fields: { 7: { value: 'A' } } }]
+      };
+      expect(UpsertRecordsSchema.parse(data)).toEqual(data);
+    });
+
+    it('should require mergeFieldId and confirm', () => {
+      expect(() => UpsertRecordsSchema.parse({
+        appId: TEST_APP_ID, confirm: true, tableId: 'bux123',
+        records: [{ keyValue: 'a', fields: {} }]
+      })).toThrow();
+      expect(() => UpsertRecordsSchema.parse({
+        appId: TEST_APP_ID, tableId: 'bux123', mergeFieldId: 6,
+        records: [{ keyValue: 'a', fields: {} }]
+      })).toThrow();
+    });
+
+    it('should reject an empty record list', () => {
+      expect(() => UpsertRecordsSchema.parse({
+        appId: TEST_APP_ID, confirm: true, tableId: 'bux123', mergeFieldId: 6, records: []
+      })).toThrow();
+    });
+  });
+
+  describe('BulkUpdateRecordsSchema', () => {
+    it('should validate record updates', () => {
+      const data = {
+        appId: TEST_APP_ID,
+        confirm: true,
+        tableId: 'bux123',
+        records: [{ recordId: 1, fields: { 6: { value: 'x' } } }]
+      };
+      expect(BulkUpdateRecordsSchema.parse(data)).toEqual(data);
+    });
+
+    it('should limit to 10000 records', () => {
+      const records = Array.from({ length: 10001 }, (_, i) => ({ recordId: i + 1, fields: {} }));
+      expect(() => BulkUpdateRecordsSchema.parse({
+        appId: TEST_APP_ID, confirm: true, tableId: 'bux123', records
+      })).toThrow();
+    });
+  });
+
+  describe('BulkDeleteRecordsSchema', () => {
+    it('should validate record IDs', () => {
+      const data = { appId: TEST_APP_ID, tableId: 'bux123', recordIds: [1, 2, 3] };
+      expect(BulkDeleteRecordsSchema.parse(data)).toEqual(data);
+    });
+
+    it('should reject non-integer record IDs', () => {
+      expect(() => BulkDeleteRecordsSchema.parse({
+        appId: TEST_APP_ID, tableId: 'bux123', recordIds: [1.5]
+      })).toThrow();
+    });
+
+    it('should accept an expectedAffectedRows override but not a negative one', () => {
+      const data = { appId: TEST_APP_ID, tableId: 'bux123', filter: { field: 'Status', op: 'EX', value: 'Void' }, expectedAffectedRows: 812 };
+      expect(BulkDeleteRecordsSchema.parse(data)).toEqual(data);
+      expect(() => BulkDeleteRecordsSchema.parse({ ...data, expectedAffectedRows: -1 })).toThrow();
+    });
+
+    it('should accept a filter instead of record IDs', () => {
+      const data = { appId: TEST_APP_ID, tableId: 'bux123', filter: { field: 'Status', op: 'EX', value: 'Void' } };
+      expect(BulkDeleteRecordsSchema.parse(data)).toEqual(data);
+    });
+
+    it('should require exactly one of recordIds or filter', () => {
+      expect(() => BulkDeleteRecordsSchema.parse({ appId: TEST_APP_ID, tableId: 'bux123' })).toThrow(/exactly one/);
+      expect(() => BulkDeleteRecordsSchema.parse({
+        appId: TEST_APP_ID, tableId: 'bux123', recordIds: [1], filter: { field: 3, op: 'EX', value: 1 }
+      })).toThrow(/exactly one/);
+    });
+  });
+
+  describe('ImportRecordsSchema', () => {
+    it('should validate a CSV import with mapping and merge field', () => {
+      const data = {
+        appId: TEST_APP_ID,
+        confirm: true,
+        tableId: 'bux123',
+        format: 'csv',
+        data: 'Email,Name\na@example.com,A',
+        mapping: { Email: 'Email', Name: 6 },
+        mergeField: 'Email',
+        dryRun: true
+      };
+      expect(ImportRecordsSchema.parse(data)).toEqual(data);
+    });
+
+    it('should reject unknown formats and multi-character delimiters', () => {
+      const base = { appId: TEST_APP_ID, confirm: true, tableId: 'bux123', data: 'a' };
+      expect(() => ImportRecordsSchema.parse({ ...base, format: 'xlsx' })).toThrow();
+      expect(() => ImportRecordsSchema.parse({ ...base, format: 'csv', delimiter: ';;' })).toThrow();
+    });
+  });
+
+  describe('AggregateRecordsSchema', () => {
+    it('should validate group-by fields and metrics', () => {
+      const data = {
+        appId: TEST_APP_ID,
+        tableId: 'bux123',
+        groupBy: ['Status'],
+        metrics: [{ fn: 'count' }, { fn: 'sum', field: 8, as: 'total' }]
+      };
+      expect(AggregateRecordsSchema.parse(data)).toEqual(data);
+    });
+
+    it('should require a field for metrics other than count', () => {
+      expect(() => AggregateRecordsSchema.parse({
+        appId: TEST_APP_ID, tableId: 'bux123', metrics: [{ fn: 'avg' }]
+      })).toThrow(/field is required/);
+    });
+
+    it('should require at least one metric', () => {
+      expect(() => AggregateRecordsSchema.parse({ appId: TEST_APP_ID, tableId: 'bux123', metrics: [] })).toThrow();
     });
   });
 
@@ -538,6 +776,16 @@ describe('Tool Definitions', () => {
       expect((tool?.inputSchema as any).required).not.toContain('appId');
     });
 
+    it('should offer dryRun on tools that can change something, and only there', () => {
+      const hasDryRun = (name: string) =>
+        Boolean((quickbaseTools.find(t => t.name === name)?.inputSchema as any).properties.dryRun);
+      expect(hasDryRun('quickbase_bulk_delete_records')).toBe(true);
+      expect(hasDryRun('quickbase_create_table')).toBe(true);
+      expect(hasDryRun('quickbase_undo')).toBe(true);
+      expect(hasDryRun('quickbase_query_records')).toBe(false);
+      expect(hasDryRun('quickbase_test_webhook')).toBe(false);
+    });
+
     it('should have table tools', () => {
       const tableTools = quickbaseTools.filter(t => 
         t.name.includes('table')
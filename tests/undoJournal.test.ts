@@ -0,0 +1,159 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { UndoJournal, UndoOperation, undoOperation } from '../src/quickbase/undoJournal';
+
+function operation(overrides: Partial<UndoOperation> = {}): UndoOperation {
+  return {
+    operationId: 'undo-1',
+    appId: 'bapp',
+    tableId: 'btbl',
+    action: 'update',
+    timestamp: '2026-10-19T10:00:00.000Z',
+    records: [{
+      recordId: 42,
+      fields: { 6: { value: 'Jane' }, 7: { value: 10 } },
+      modifiedAfter: '2026-10-19T10:00:01Z',
+      written: { 6: { value: 'Janet' }, 7: { value: 0 } }
+    }],
+    ...overrides
+  };
+}
+
+describe('UndoJournal', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qb-undo-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps operations in memory when no path is given', async () => {
+    const journal = new UndoJournal(undefined, 2);
+    await journal.record(operation({ operationId: 'a' }));
+    await journal.record(operation({ operationId: 'b' }));
+    await journal.record(operation({ operationId: 'c' }));
+    expect(await journal.get('a')).toBeUndefined();
+    expect((await journal.get('c'))?.records[0].recordId).toBe(42);
+
+    await journal.markUndone('c');
+    expect((await journal.get('c'))?.undoneAt).toEqual(expect.any(String));
+  });
+
+  it('persists operations and undo markers to a JSONL file', async () => {
+    const file = path.join(dir, 'nested', 'undo.jsonl');
+    await new UndoJournal(file).record(operation());
+    await new UndoJournal(file).markUndone('undo-1');
+
+    const reopened = new UndoJournal(file);
+    expect(await reopened.get('undo-1')).toEqual({ ...operation(), undoneAt: expect.any(String) });
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('compacts the file to the newest operations once it doubles the limit', async () => {
+    const file = path.join(dir, 'undo.jsonl');
+    const journal = new UndoJournal(file, 2);
+    for (const id of ['a', 'b', 'c', 'd', 'e']) await journal.record(operation({ operationId: id }));
+
+    expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+    expect(await journal.get('c')).toBeUndefined();
+    expect(await journal.get('e')).toBeDefined();
+  });
+});
+
+describe('undoOperation', () => {
+  const fields = [
+    { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+    { id: 6, label: 'Name', fieldType: 'text' },
+    { id: 7, label: 'Hours', fieldType: 'numeric' },
+    { id: 8, label: 'Owner', fieldType: 'user' },
+    { id: 9, label: 'Total', fieldType: 'numeric', mode: 'formula' },
+    { id: 10, label: 'Spec', fieldType: 'file' }
+  ];
+
+  function fakeClient(current: Record<string, { value: unknown }> | null) {
+    return {
+      getTableFields: jest.fn().mockResolvedValue(fields),
+      getRecord: jest.fn().mockResolvedValue(current),
+      updateRecords: jest.fn().mockResolvedValue({}),
+      createRecord: jest.fn().mockResolvedValue(77)
+    };
+  }
+
+  it('restores updated fields when the record is unchanged since the update', async () => {
+    const client = fakeClient({ 2: { value: '2026-10-19T10:00:01Z' }, 6: { value: 'Janet' }, 7: { value: 0 } });
+    const result = await undoOperation(client as any, operation());
+
+    expect(client.getRecord).toHaveBeenCalledWith('btbl', 42, [2, 6, 7]);
+    expect(client.updateRecords).toHaveBeenCalledWith('btbl', [{ recordId: 42, updates: { 6: { value: 'Jane' }, 7: { value: 10 } } }]);
+    expect(result).toEqual({
+      operationId: 'undo-1', action: 'update', tableId: 'btbl',
+      restored: [{ recordId: 42 }], skipped: [], warnings: []
+    });
+  });
+
+  it('fails when QuickBase refuses the restoring write', async () => {
+    const client = fakeClient({ 2: { value: '2026-10-19T10:00:01Z' }, 6: { value: 'Janet' }, 7: { value: 0 } });
+    client.updateRecords.mockResolvedValue({ failed: 1, failedChunks: [], lineErrors: { '1': ['Bad value'] } });
+
+    await expect(undoOperation(client as any, operation())).rejects.toThrow('Record 42 could not be restored: Bad value');
+  });
+
+  it('skips a record changed since the update unless forced', async () => {
+    const current = { 2: { value: '2026-10-19T11:30:00Z' }, 6: { value: 'Someone else' }, 7: { value: 0 } };
+    const client = fakeClient(current);
+    const skipped = await undoOperation(client as any, operation());
+    expect(client.updateRecords).not.toHaveBeenCalled();
+    expect(skipped.skipped).toEqual([{ recordId: 42, reason: 'it has been changed since the update' }]);
+    expect(skipped.warnings[0]).toContain('pass force: true');
+
+    const forced = await undoOperation(client as any, operation(), { force: true });
+    expect(client.updateRecords).toHaveBeenCalledTimes(1);
+    expect(forced.restored).toEqual([{ recordId: 42 }]);
+    expect(forced.warnings[0]).toContain('overwritten because force was set');
+  });
+
+  it('compares written values when Date Modified was not captured', async () => {
+    const op = operation();
+    delete op.records[0].modifiedAfter;
+    const client = fakeClient({ 2: { value: 'x' }, 6: { value: 'Janet' }, 7: { value: 5 } });
+    const result = await undoOperation(client as any, op);
+    expect(result.skipped).toHaveLength(1);
+  });
+
+  it('re-creates a deleted record from its writable fields', async () => {
+    const client = fakeClient(null);
+    const result = await undoOperation(client as any, operation({
+      action: 'delete',
+      records: [{
+        recordId: 42,
+        fields: {
+          1: { value: '2026-01-01T00:00:00Z' },
+          3: { value: 42 },
+          6: { value: 'Jane' },
+          8: { value: { id: '123.abcd', email: 'jane@example.com', name: 'Jane' } },
+          9: { value: 20 },
+          10: { value: { url: 'https://example.com/f' } }
+        }
+      }]
+    }));
+
+    expect(client.getRecord).toHaveBeenCalledWith('btbl', 42, [3]);
+    expect(client.createRecord).toHaveBeenCalledWith('btbl', {
+      fields: { 6: { value: 'Jane' }, 8: { value: { id: '123.abcd' } } }
+    });
+    expect(result.restored).toEqual([{ recordId: 42, newRecordId: 77 }]);
+    expect(result.warnings).toEqual([
+      'Field(s) 9, 10 are computed, file attachments or no longer exist, so their values were not restored.',
+      'Re-created records get new record IDs; references to the old IDs (e.g. in child records) are not updated.'
+    ]);
+  });
+
+  it('does not re-create a deleted record that still exists', async () => {
+    const client = fakeClient({ 3: { value: 42 } });
+    const result = await undoOperation(client as any, operation({ action: 'delete', records: [{ recordId: 42, fields: { 6: { value: 'Jane' } } }] }));
+    expect(client.createRecord).not.toHaveBeenCalled();
+    expect(result.skipped).toEqual([{ recordId: 42, reason: 'a record with this ID still exists' }]);
+  });
+});
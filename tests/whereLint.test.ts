@@ -0,0 +1,94 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { assertValidWhere, lintWhere, LintField, parseWhere } from '../src/utils/whereLint';
+
+describe('where clause linter', () => {
+  const fields: LintField[] = [
+    { id: 3, label: 'Record ID#', fieldType: 'recordid' },
+    { id: 6, label: 'Name', fieldType: 'text' },
+    { id: 7, label: 'Amount', fieldType: 'numeric' },
+    { id: 8, label: 'Due Date', fieldType: 'date' },
+    { id: 9, label: 'Active', fieldType: 'checkbox' },
+    { id: 10, label: 'Tags', fieldType: 'multitext' }
+  ];
+
+  describe('parseWhere', () => {
+    it('parses conditions, connectors and parentheses', () => {
+      const { conditions, issues } = parseWhere("({6.CT.'O\\'Brien'} OR {7.GT.5}) AND {8.OAF.'today'}");
+      expect(issues).toEqual([]);
+      expect(conditions.map(c => [c.fieldRef, c.op, c.value, c.quoted])).toEqual([
+        ['6', 'CT', "O'Brien", true],
+        ['7', 'GT', '5', false],
+        ['8', 'OAF', 'today', true]
+      ]);
+    });
+
+    it('flags unbalanced parentheses', () => {
+      expect(parseWhere("({6.EX.'a'}").issues[0].message).toMatch(/Unbalanced "\("/);
+      expect(parseWhere("{6.EX.'a'})").issues[0].message).toMatch(/Unbalanced "\)"/);
+    });
+
+    it('flags missing braces and unterminated quotes', () => {
+      expect(parseWhere('{6.EX.foo').issues[0].message).toMatch(/Missing "}"/);
+      expect(parseWhere("{6.EX.'foo}").issues[0].message).toMatch(/Unterminated quoted value/);
+      expect(parseWhere('{6EX}').issues[0].message).toMatch(/Malformed condition/);
+    });
+
+    it('flags missing and dangling connectors', () => {
+      expect(parseWhere("{6.EX.'a'}{7.EX.1}").issues[0].message).toMatch(/Expected AND or OR/);
+      expect(parseWhere("{6.EX.'a'}AND").issues[0].message).toMatch(/Dangling AND\/OR/);
+    });
+  });
+
+  describe('lintWhere', () => {
+    it('accepts a well-formed clause', () => {
+      expect(lintWhere("{6.CT.'Smith'}AND{7.GTE.10}AND{3.EX.42}", fields).issues).toEqual([]);
+    });
+
+    it('suggests quoting unquoted text values', () => {
+      const { issues, corrected } = lintWhere('{6.CT.foo}', fields);
+      expect(issues[0].message).toMatch(/single quotes/);
+      expect(corrected).toBe("{6.CT.'foo'}");
+    });
+
+    it('maps SQL-style operators and labels to QuickBase equivalents', () => {
+      const { issues, corrected } = lintWhere("{Name.EQ.'x'}OR{7.NE.3}", fields);
+      expect(issues).toHaveLength(2);
+      expect(corrected).toBe("{6.EX.'x'}OR{7.XEX.'3'}");
+    });
+
+    it('flags operators that do not fit the field type', () => {
+      const { issues, corrected } = lintWhere("{7.BF.5}AND{8.EX.'2026-01-01'}AND{9.CT.'yes'}AND{6.HAS.'a'}", fields);
+      expect(issues.map(i => i.message)).toEqual([
+        expect.stringMatching(/BF does not apply here: field 7 \("Amount"\) is numeric; use LT/),
+        expect.stringMatching(/CT does not apply here: field 9 \("Active"\) is checkbox; use EX/),
+        expect.stringMatching(/HAS does not apply here: field 6 \("Name"\) is text; use CT/)
+      ]);
+      expect(corrected).toBe("{7.LT.'5'}AND{8.EX.'2026-01-01'}AND{9.EX.'yes'}AND{6.CT.'a'}");
+    });
+
+    it('lists available fields for unknown field IDs and offers no correction', () => {
+      const { issues, corrected } = lintWhere("{99.EX.'a'}", fields);
+      expect(issues[0].message).toMatch(/unknown field ID "99". Available: 3 \("Record ID#"\), 6 \("Name"\)/);
+      expect(corrected).toBeUndefined();
+    });
+  });
+
+  describe('assertValidWhere', () => {
+    it('throws a single McpError with every problem and a corrected clause', () => {
+      let error: unknown;
+      try {
+        assertValidWhere("{6.CT.foo}AND{10.HAS.'x'}AND{8.AFTER.'today'}", fields);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(McpError);
+      const message = (error as McpError).message;
+      expect(message).toMatch(/2 problem\(s\)/);
+      expect(message).toMatch(/Did you mean: \{6\.CT\.'foo'\}AND\{10\.HAS\.'x'\}AND\{8\.AF\.'today'\}/);
+    });
+
+    it('does nothing for a valid clause', () => {
+      expect(() => assertValidWhere("{8.IR.'last 7 days'}", fields)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { parseYaml, toYaml } from '../src/utils/yaml';
+
+describe('toYaml', () => {
+  it('writes nested objects and arrays in block style', () => {
+    expect(toYaml({
+      app: { id: 'bq1', name: 'Sales' },
+      tables: [{ id: 'bq2', fields: [{ id: 6, label: 'Name' }], reports: [] }],
+      tags: ['a', 'b']
+    })).toBe([
+      'app:',
+      '  id: bq1',
+      '  name: Sales',
+      'tables:',
+      '  - id: bq2',
+      '    fields:',
+      '      - id: 6',
+      '        label: Name',
+      '    reports: []',
+      'tags:',
+      '  - a',
+      '  - b',
+      ''
+    ].join('\n'));
+  });
+
+  it('quotes strings YAML would otherwise read as other types or syntax', () => {
+    expect(toYaml({
+      a: 'true',
+      b: '42',
+      c: 'key: value',
+      d: '',
+      e: ' padded',
+      f: 'x # not a comment',
+      '1': 'numeric key'
+    })).toBe([
+      '"1": numeric key',
+      'a: "true"',
+      'b: "42"',
+      'c: "key: value"',
+      'd: ""',
+      'e: " padded"',
+      'f: "x # not a comment"',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes multi-line strings as literal blocks', () => {
+    expect(toYaml({ fields: [{ formula: 'If([A] > 1,\n  "big",\n\n  "small")' }] })).toBe([
+      'fields:',
+      '  - formula: |-',
+      '      If([A] > 1,',
+      '        "big",',
+      '',
+      '        "small")',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes scalars, empty collections and nested arrays', () => {
+    expect(toYaml({ num: 1.5, flag: false, none: null, o: {}, nested: [[1, 2]] })).toBe(
+      'num: 1.5\nflag: false\nnone: null\no: {}\nnested:\n  - - 1\n    - 2\n'
+    );
+    expect(toYaml({ y: 1 })).toBe('"y": 1\n');
+    expect(toYaml('plain')).toBe('plain\n');
+  });
+});
+
+describe('parseYaml', () => {
+  it('reads nested mappings, sequences, scalars and comments', () => {
+    expect(parseYaml([
+      '# Tool policy',
+      '---',
+      'apps:',
+      '  "*":',
+      '    deny: [quickbase_delete_table, "quickbase_*_webhook"]  # everywhere',
+      '  bq1:',
+      '    allow:',
+      '    - quickbase_get_*',
+      '    - quickbase_query_records',
+      '    tables:',
+      '      bqPayroll:',
+      '        readOnly: true',
+      '        readOnlyFields:',
+      '          - 7',
+      "          - 'Base Salary'",
+      '      bqEmpty: {}',
+      'limit: -2.5',
+      'note: ~',
+      'text: it\'s fine # comment'
+    ].join('\n'))).toEqual({
+      apps: {
+        '*': { deny: ['quickbase_delete_table', 'quickbase_*_webhook'] },
+        bq1: {
+          allow: ['quickbase_get_*', 'quickbase_query_records'],
+          tables: { bqPayroll: { readOnly: true, readOnlyFields: [7, 'Base Salary'] }, bqEmpty: {} }
+        }
+      },
+      limit: -2.5,
+      note: null,
+      text: "it's fine"
+    });
+  });
+
+  it('reads sequences of mappings and literal blocks', () => {
+    expect(parseYaml([
+      'fields:',
+      '  - id: 6',
+      '    formula: |-',
+      '      If([A] > 0,',
+      '        "yes")',
+      '  - id: 7',
+      '    tags: []'
+    ].join('\n'))).toEqual({
+      fields: [{ id: 6, formula: 'If([A] > 0,\n  "yes")' }, { id: 7, tags: [] }]
+    });
+  });
+
+  it('round-trips what toYaml writes', () => {
+    const value = {
+      app: { id: 'bq1', name: 'Sales: EMEA' },
+      tables: [{ id: 'bq2', fields: [{ id: 6, label: 'true', formula: 'a\nb' }], reports: [] }],
+      empty: {},
+      flags: [true, null, 42]
+    };
+    expect(parseYaml(toYaml(value))).toEqual(value);
+  });
+
+  it('names the line of a syntax error', () => {
+    expect(() => parseYaml('a: 1\n  b: 2')).toThrow(/line 2: unexpected indentation/);
+    expect(() => parseYaml('a: 1\na: 2')).toThrow(/line 2: duplicate key "a"/);
+    expect(() => parseYaml('a: [1, 2')).toThrow(/line 1: unterminated flow sequence/);
+    expect(() => parseYaml('just text')).toThrow(/line 1: expected "key: value"/);
+  });
+});